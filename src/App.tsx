@@ -1,4 +1,5 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
 import { 
   Container, 
   CssBaseline, 
@@ -18,20 +19,53 @@ import ThemeToggler from './components/ThemeToggler';
 import IpForm from './components/IpForm';
 import ResultCard from './components/ResultCard';
 import SubnetGenerator from './components/SubnetGenerator';
-import NetworkTools from './components/NetworkTools';
+import MaskEditor from './components/MaskEditor';
+import NetworkTools, { NetworkToolsHandle } from './components/NetworkTools';
+import VlsmCalculator from './components/VlsmCalculator';
+import RouteSummarizer from './components/RouteSummarizer';
+import CidrSetCalculator from './components/CidrSetCalculator';
+import OverlapAnalyzer from './components/OverlapAnalyzer';
+import AclWildcardCalculator from './components/AclWildcardCalculator';
+import ReverseDnsGenerator from './components/ReverseDnsGenerator';
+import IpamWorkspace from './components/IpamWorkspace';
+import FreeSpaceFinder from './components/FreeSpaceFinder';
+import SubnetTree from './components/SubnetTree';
+import InterfaceConfigGenerator from './components/InterfaceConfigGenerator';
+import DhcpScopeGenerator from './components/DhcpScopeGenerator';
+import BulkCalculator from './components/BulkCalculator';
+import CalculationHistory from './components/CalculationHistory';
+import SubnettingQuiz from './components/SubnettingQuiz';
+import useCalculationHistory from './hooks/useCalculationHistory';
 import { calculateIPInfo, generateSubnets, IPResult, Subnet } from './utils/ipUtils';
+import { calculateIPv6Info, generateIPv6Subnets, isValidIPv6, IPv6Result, IPv6Subnet } from './utils/ipv6Utils';
+import { parseUrlState, buildUrl, isSameCalculation, networkToolTabs } from './utils/urlState';
+import { HistoryEntry, ToolRun } from './utils/historyUtils';
 import RouterIcon from '@mui/icons-material/Router';
 import Footer from './components/Footer';
 
 function App() {
   const { mode, actualMode, setMode } = useThemeMode();
   const isMobile = useMediaQuery('(max-width:600px)');
+  const { i18n } = useTranslation();
+  const language = (i18n.resolvedLanguage || i18n.language || 'pt').split('-')[0];
   const theme = actualMode === 'light' ? lightTheme : darkTheme;
   
-  const [ipResult, setIpResult] = useState<IPResult | null>(null);
+  const [ipResult, setIpResult] = useState<IPResult | IPv6Result | null>(null);
   const [subnets, setSubnets] = useState<Subnet[]>([]);
+  const [ipv6Subnets, setIpv6Subnets] = useState<IPv6Subnet[]>([]);
+  const [subnetsTruncated, setSubnetsTruncated] = useState(false);
   const [currentIp, setCurrentIp] = useState('');
   const [currentCidr, setCurrentCidr] = useState(24);
+  const [toolTab, setToolTab] = useState(0);
+  // Incremented when the state is read from the URL, so that the forms start again from it
+  const [restoreCount, setRestoreCount] = useState(0);
+  const [urlRestored, setUrlRestored] = useState(false);
+  const { entries: historyEntries, storageError: historyStorageError, updateEntries, recordRun } = useCalculationHistory();
+  const networkToolsRef = useRef<NetworkToolsHandle>(null);
+  // Tool run from the history, started once NetworkTools shows its address
+  const [pendingRun, setPendingRun] = useState<HistoryEntry | null>(null);
+  // Set when the next calculation should replace the current URL instead of adding one
+  const replaceUrl = useRef(false);
   
   // Effect to handle theme changes
   useEffect(() => {
@@ -53,6 +87,8 @@ function App() {
         // If you have subnets, regenerate them too
         if (subnets.length > 0) {
           handleGenerateSubnets(subnets.length);
+        } else if (ipv6Subnets.length > 0) {
+          handleGenerateSubnets(ipv6Subnets.length);
         }
       }
     };
@@ -64,22 +100,143 @@ function App() {
     return () => {
       document.removeEventListener('i18nextLanguageChanged', handleLanguageChange);
     };
-  }, [ipResult, currentIp, currentCidr, subnets.length]);
+  }, [ipResult, currentIp, currentCidr, subnets.length, ipv6Subnets.length]);
   
-  const handleCalculate = (ip: string, cidr: number) => {
-    const result = calculateIPInfo(ip, cidr);
+  const handleCalculate = useCallback((ip: string, cidr: number, subnetCount = 0) => {
+    const ipv6 = isValidIPv6(ip);
+    const result = ipv6 ? calculateIPv6Info(ip, cidr) : calculateIPInfo(ip, cidr);
     setIpResult(result);
     setCurrentIp(ip);
     setCurrentCidr(cidr);
-    setSubnets([]);
-  };
+    const split = subnetCount && !ipv6 ? generateSubnets(ip, cidr, subnetCount) : null;
+    setSubnets(split ? split.subnets : []);
+    setSubnetsTruncated(split ? split.truncated : false);
+    setIpv6Subnets(subnetCount && ipv6 ? generateIPv6Subnets(ip, cidr, subnetCount) : []);
+  }, []);
   
   const handleGenerateSubnets = (count: number) => {
-    if (currentIp && currentCidr) {
-      const generatedSubnets = generateSubnets(currentIp, currentCidr, count);
-      setSubnets(generatedSubnets);
+    if (currentIp && isValidIPv6(currentIp)) {
+      setIpv6Subnets(generateIPv6Subnets(currentIp, currentCidr, count));
+    } else if (currentIp) {
+      const split = generateSubnets(currentIp, currentCidr, count);
+      setSubnets(split.subnets);
+      setSubnetsTruncated(split.truncated);
+    }
+  };
+
+  const recordCalculation = (ip: string, cidr: number, subnetCount: number | null) => {
+    recordRun({
+      kind: 'calculation',
+      ip,
+      cidr,
+      subnetCount,
+      ports: [],
+      openPorts: [],
+      startIp: null,
+      endIp: null,
+      hostsUp: null,
+      responseTime: null
+    });
+  };
+
+  const handleFormCalculate = (ip: string, cidr: number) => {
+    handleCalculate(ip, cidr);
+    recordCalculation(ip, cidr, null);
+  };
+
+  // A new prefix from the mask editor: an intermediate edit, kept out of the history and the back button
+  const handleMaskChange = (cidr: number) => {
+    replaceUrl.current = true;
+    handleCalculate(currentIp, cidr);
+  };
+
+  const handleGenerateAndRecord = (count: number) => {
+    handleGenerateSubnets(count);
+    if (currentIp) {
+      recordCalculation(currentIp, currentCidr, count);
+    }
+  };
+
+  const handleToolRun = (run: ToolRun) => {
+    recordRun({ ...run, cidr: currentCidr, subnetCount: null });
+  };
+
+  // Shows the calculation of a history entry again, and runs its tool
+  const handleRerun = (entry: HistoryEntry) => {
+    handleCalculate(entry.ip, entry.cidr, entry.subnetCount || 0);
+    setRestoreCount(count => count + 1);
+    if (entry.kind === 'calculation') {
+      recordCalculation(entry.ip, entry.cidr, entry.subnetCount);
+    } else {
+      setToolTab(networkToolTabs.indexOf(entry.kind));
+      setPendingRun(entry);
     }
   };
+
+  useEffect(() => {
+    if (pendingRun) {
+      if (networkToolsRef.current) {
+        networkToolsRef.current.rerun(pendingRun);
+      }
+      setPendingRun(null);
+    }
+  }, [pendingRun]);
+  
+  // Keeps the address bar in step with the calculation: a new calculation adds a history entry,
+  // another tab or language only replaces the current one
+  useEffect(() => {
+    if (!urlRestored) {
+      return;
+    }
+
+    const state = {
+      ip: ipResult ? currentIp : null,
+      cidr: ipResult ? currentCidr : null,
+      subnetCount: subnets.length || ipv6Subnets.length || null,
+      toolTab: ipResult && ipResult.version === 4 && toolTab > 0 ? toolTab : null,
+      language
+    };
+    const url = buildUrl(state);
+    const replace = replaceUrl.current;
+    replaceUrl.current = false;
+    if (url === window.location.pathname + window.location.search) {
+      return;
+    }
+
+    if (replace || isSameCalculation(state, parseUrlState(window.location.pathname, window.location.search))) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
+    }
+  }, [urlRestored, ipResult, currentIp, currentCidr, subnets.length, ipv6Subnets.length, toolTab, language]);
+
+  // Restores the calculation from the URL on load and when moving back or forward in the history
+  useEffect(() => {
+    const restoreFromUrl = () => {
+      const state = parseUrlState(window.location.pathname, window.location.search);
+      if (state.language && state.language !== (i18n.resolvedLanguage || i18n.language || 'pt').split('-')[0]) {
+        i18n.changeLanguage(state.language);
+      }
+
+      if (state.ip !== null && state.cidr !== null) {
+        handleCalculate(state.ip, state.cidr, state.subnetCount || 0);
+      } else {
+        setIpResult(null);
+        setCurrentIp('');
+        setSubnets([]);
+        setIpv6Subnets([]);
+      }
+      setToolTab(state.toolTab !== null ? state.toolTab : 0);
+      setRestoreCount(count => count + 1);
+      setUrlRestored(true);
+    };
+
+    restoreFromUrl();
+    window.addEventListener('popstate', restoreFromUrl);
+    return () => {
+      window.removeEventListener('popstate', restoreFromUrl);
+    };
+  }, [i18n, handleCalculate]);
   
   return (
     <ThemeProvider theme={theme}>
@@ -114,27 +271,102 @@ function App() {
           )}
           
           {/* Formulário de entrada */}
-          <IpForm onCalculate={handleCalculate} />
+          <IpForm
+            key={restoreCount}
+            onCalculate={handleFormCalculate}
+            initialIp={ipResult ? currentIp : undefined}
+            initialCidr={ipResult ? currentCidr : undefined}
+          />
           
           {/* Resultados */}
           {ipResult && <ResultCard result={ipResult} />}
           
+          {/* Editor de máscara bit a bit */}
+          {ipResult && ipResult.version === 4 && (
+            <MaskEditor ip={currentIp} cidr={currentCidr} onCidrChange={handleMaskChange} />
+          )}
+          
           {/* Gerador de sub-redes */}
           {ipResult && (
             <SubnetGenerator
+              key={restoreCount}
               ip={currentIp}
               cidr={currentCidr}
-              onGenerateSubnets={handleGenerateSubnets}
+              onGenerateSubnets={handleGenerateAndRecord}
               subnets={subnets}
+              subnetsTruncated={subnetsTruncated}
+              ipv6Subnets={ipv6Subnets}
             />
           )}
           
+          {/* Sumarização de rotas */}
+          <RouteSummarizer />
+          
+          {/* Árvore de divisão e junção de sub-redes */}
+          {ipResult && ipResult.version === 4 && (
+            <SubnetTree result={ipResult} />
+          )}
+          
+          {/* Alocação VLSM */}
+          {ipResult && ipResult.version === 4 && (
+            <VlsmCalculator result={ipResult} />
+          )}
+          
+          {/* Zona de DNS reverso */}
+          {ipResult && ipResult.version === 4 && (
+            <ReverseDnsGenerator result={ipResult} />
+          )}
+          
+          {/* Configuração de interfaces */}
+          {ipResult && ipResult.version === 4 && (
+            <InterfaceConfigGenerator result={ipResult} subnets={subnets} />
+          )}
+          
+          {/* Âmbito DHCP */}
+          {ipResult && ipResult.version === 4 && (
+            <DhcpScopeGenerator result={ipResult} />
+          )}
+          
+          {/* Cálculo em massa */}
+          <BulkCalculator />
+          
+          {/* Operações de conjuntos CIDR */}
+          <CidrSetCalculator />
+          
+          {/* Detetor de sobreposições */}
+          <OverlapAnalyzer subnets={subnets} />
+          
+          {/* Espaço livre numa rede principal */}
+          <FreeSpaceFinder result={ipResult && ipResult.version === 4 ? ipResult : null} subnets={subnets} />
+          
+          {/* Máscaras wildcard para ACLs */}
+          <AclWildcardCalculator />
+          
+          {/* Espaço de trabalho IPAM persistente */}
+          <IpamWorkspace result={ipResult && ipResult.version === 4 ? ipResult : null} />
+          
           {/* Ferramentas de Rede */}
-          {ipResult && (
+          {ipResult && ipResult.version === 4 && (
             <NetworkTools
+              key={restoreCount}
+              ref={networkToolsRef}
               ip={currentIp}
+              initialTab={toolTab}
+              onTabChange={setToolTab}
+              onToolRun={handleToolRun}
             />
           )}
+          
+          {/* Prática de sub-redes */}
+          <SubnettingQuiz />
+          
+          {/* Histórico e favoritos */}
+          <CalculationHistory
+            entries={historyEntries}
+            storageError={historyStorageError}
+            onChange={updateEntries}
+            onRerun={handleRerun}
+          />
         </Container>
         
         <Footer />
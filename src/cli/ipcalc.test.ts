@@ -0,0 +1,110 @@
+import { main } from './ipcalc';
+
+// Runs the CLI and collects what it prints
+const run = (...argv: string[]) => {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const log = jest.spyOn(console, 'log').mockImplementation((...parts) => { stdout.push(parts.join(' ')); });
+  const error = jest.spyOn(console, 'error').mockImplementation((...parts) => { stderr.push(parts.join(' ')); });
+  try {
+    const code = main(argv);
+    return { code, stdout: stdout.join('\n'), stderr: stderr.join('\n') };
+  } finally {
+    log.mockRestore();
+    error.mockRestore();
+  }
+};
+
+describe('exit codes', () => {
+  test('succeeds on valid input', () => {
+    expect(run('info', '192.168.1.10/24').code).toBe(0);
+    expect(run('--help').code).toBe(0);
+  });
+
+  test('returns 1 on invalid input', () => {
+    const result = run('info', '300.1.1.1/24');
+    expect(result.code).toBe(1);
+    expect(result.stderr).toBe('ipcalc: invalid address: 300.1.1.1/24');
+    expect(run('split', '10.0.0.0/30', '8').code).toBe(1);
+    expect(run('split', '10.0.0.0/24', 'two').code).toBe(1);
+    expect(run('range', '10.0.0.9-10.0.0.1').code).toBe(1);
+    expect(run('hosts', '2001:db8::/64').code).toBe(1);
+  });
+
+  test('returns 2 on usage errors and prints the usage', () => {
+    const unknownOption = run('info', '--xml', '10.0.0.0/8');
+    expect(unknownOption.code).toBe(2);
+    expect(unknownOption.stderr).toContain('ipcalc: unknown option: --xml');
+    expect(unknownOption.stderr).toContain('Usage: ipcalc');
+    expect(run('ping', '10.0.0.1').code).toBe(2);
+    expect(run().code).toBe(2);
+    expect(run('hosts', '10.0.0.0/30', '--limit').code).toBe(2);
+  });
+
+  test('refuses to list an unbounded number of subnets', () => {
+    const result = run('split', '0.0.0.0/0', '4294967296');
+    expect(result.code).toBe(1);
+    expect(result.stderr).toBe('ipcalc: at most 65536 subnets can be listed: 4294967296');
+    expect(run('split', '0.0.0.0/0', '65536', '--csv').code).toBe(0);
+  });
+});
+
+describe('info', () => {
+  test('prints aligned labels', () => {
+    const lines = run('info', '192.168.1.10', '255.255.255.0').stdout.split('\n');
+    const fields = lines.map(line => line.split(/\s{2,}/));
+    expect(fields).toContainEqual(['Network Address', '192.168.1.0/24']);
+    expect(fields).toContainEqual(['Usable Hosts', '254']);
+    expect(fields).toContainEqual(['Address Type', 'Private (RFC 1918)']);
+    // Values start in the same column
+    const column = lines[0].indexOf('192.168.1.0/24');
+    expect(lines.every(line => line.charAt(column - 1) === ' ' && line.charAt(column) !== ' ')).toBe(true);
+  });
+
+  test('prints JSON and CSV', () => {
+    expect(JSON.parse(run('info', '10.0.0.1/31', '--json').stdout)).toMatchObject({
+      networkAddress: '10.0.0.0',
+      firstValidHost: '10.0.0.0',
+      lastValidHost: '10.0.0.1',
+      usableHosts: 2
+    });
+    const csv = run('info', '10.0.0.1/8', '--csv').stdout.split('\n');
+    expect(csv[0]).toBe('field,value');
+    expect(csv[1]).toBe('Network Address,10.0.0.0/8');
+  });
+
+  test('handles IPv6 with the default /64', () => {
+    const result = JSON.parse(run('info', '2001:db8::1', '--json').stdout);
+    expect(result).toMatchObject({ networkAddress: '2001:db8::', cidr: 64, totalAddresses: '18446744073709551616' });
+  });
+});
+
+describe('split', () => {
+  test('prints a table, CSV or JSON', () => {
+    const lines = run('split', '192.168.0.0/24', '4').stdout.split('\n');
+    expect(lines).toHaveLength(5);
+    expect(lines[1].split(/\s+/)).toEqual(['1', '192.168.0.0/26', '255.255.255.192', '192.168.0.1', '192.168.0.62', '192.168.0.63', '62']);
+    expect(lines[4].indexOf('192.168.0.192/26')).toBe(lines[1].indexOf('192.168.0.0/26'));
+
+    const csv = run('split', '192.168.0.0/24', '2', '--csv').stdout.split('\n');
+    expect(csv[0]).toBe('#,Subnet,Subnet Mask,First Valid Host,Last Valid Host,Broadcast Address,Usable');
+    expect(csv[2]).toBe('2,192.168.0.128/25,255.255.255.128,192.168.0.129,192.168.0.254,192.168.0.255,126');
+
+    const json = JSON.parse(run('split', '10.0.0.0/30', '2', '--json').stdout);
+    expect(json.map((subnet: { networkAddress: string }) => subnet.networkAddress)).toEqual(['10.0.0.0', '10.0.0.2']);
+  });
+});
+
+describe('range and hosts', () => {
+  test('prints the CIDRs covering a range', () => {
+    expect(run('range', '10.0.0.5', '10.0.0.20').stdout).toBe('10.0.0.5/32\n10.0.0.6/31\n10.0.0.8/29\n10.0.0.16/30\n10.0.0.20/32');
+    expect(run('range', '10.0.0.0-10.0.0.255', '--csv').stdout).toBe('networkAddress,cidr,subnetMask\n10.0.0.0,24,255.255.255.0');
+  });
+
+  test('lists hosts up to the limit and reports the rest', () => {
+    expect(run('hosts', '10.0.0.0/30').stdout).toBe('10.0.0.1\n10.0.0.2');
+    const limited = run('hosts', '10.0.0.0/24', '--limit', '3', '--json');
+    expect(JSON.parse(limited.stdout)).toEqual(['10.0.0.1', '10.0.0.2', '10.0.0.3']);
+    expect(limited.stderr).toBe('ipcalc: listing 3 of 254 hosts, use --limit to change');
+  });
+});
@@ -0,0 +1,345 @@
+#!/usr/bin/env node
+/**
+ * Command-line interface to the calculator utilities
+ *
+ * ipcalc info  <address>[/prefix | mask]   network details, as shown by the result card
+ * ipcalc split <network>/<prefix> <count>  equal subnets, as generated by the subnet divider
+ * ipcalc range <start>-<end>               minimal list of CIDRs covering a range
+ * ipcalc hosts <network>/<prefix>          usable host addresses
+ *
+ * Exit codes: 0 on success, 1 on invalid input, 2 on usage errors
+ */
+
+import {
+  IPResult,
+  calculateIPInfo,
+  generateSubnets,
+  cidrToSubnetMask
+} from '../utils/ipUtils';
+import { calculateIPv6Info, IPv6Result } from '../utils/ipv6Utils';
+import { calculateRangeCidrs, generateIpsInSubnet } from '../utils/networkUtils';
+import { parseAddressInput, ParsedAddress } from '../utils/addressParser';
+import en from '../i18n/locales/en.json';
+
+type OutputFormat = 'text' | 'json' | 'csv';
+
+interface CliOptions {
+  format: OutputFormat;
+  limit: number;
+}
+
+// Prefixes used when an address is given without one, as in the web form
+const DEFAULT_CIDR = 24;
+const DEFAULT_IPV6_CIDR = 64;
+const DEFAULT_HOST_LIMIT = 65536;
+// Subnets printed by "split", so that a short prefix cannot ask for billions of rows
+const MAX_SUBNET_COUNT = 65536;
+
+const EXIT_INVALID_INPUT = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: ipcalc <command> [options] <arguments>
+
+Commands:
+  info  <address>[/prefix | mask]   Network details (IPv4 or IPv6, default /${DEFAULT_CIDR} or /${DEFAULT_IPV6_CIDR})
+  split <network>/<prefix> <count>  Divide a network into <count> equal subnets (at most ${MAX_SUBNET_COUNT})
+  range <start>-<end>               Minimal list of CIDRs covering a range
+  hosts <network>/<prefix>          List the usable host addresses
+
+Options:
+  --json         Print JSON
+  --csv          Print CSV
+  --limit <n>    Maximum number of hosts listed by "hosts" (default ${DEFAULT_HOST_LIMIT})
+  -h, --help     Show this help
+`;
+
+/**
+ * Error raised for invalid arguments, carrying the exit code to use
+ */
+class CliError extends Error {
+  exitCode: number;
+
+  constructor(message: string, exitCode: number) {
+    super(message);
+    this.exitCode = exitCode;
+  }
+}
+
+/**
+ * Looks up an English label from the locale file, e.g. "results.networkAddress"
+ */
+const label = (key: string): string => {
+  const value = key.split('.').reduce<unknown>(
+    (node, part) => (typeof node === 'object' && node !== null ? (node as Record<string, unknown>)[part] : undefined),
+    en
+  );
+  return typeof value === 'string' ? value : key;
+};
+
+/**
+ * Quotes a CSV field when needed
+ */
+const csvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const printCsv = (header: string[], rows: (string | number)[][]) => {
+  [header].concat(rows.map(row => row.map(String))).forEach(row => {
+    console.log(row.map(csvField).join(','));
+  });
+};
+
+const printJson = (value: unknown) => {
+  // IPv6 address counts are BigInt values, which JSON.stringify cannot serialize
+  console.log(JSON.stringify(value, (_, item) => (typeof item === 'bigint' ? item.toString() : item), 2));
+};
+
+/**
+ * Prints label/value pairs in the selected format
+ */
+const printFields = (fields: [string, string | number][], json: unknown, options: CliOptions) => {
+  if (options.format === 'json') {
+    printJson(json);
+  } else if (options.format === 'csv') {
+    printCsv(['field', 'value'], fields.map(([key, value]) => [label(key), value]));
+  } else {
+    const width = Math.max(...fields.map(([key]) => label(key).length));
+    fields.forEach(([key, value]) => console.log(`${label(key).padEnd(width)}  ${value}`));
+  }
+};
+
+/**
+ * Reads an address and prefix in any notation accepted by the web form
+ */
+const readAddress = (args: string[]): ParsedAddress & { cidr: number } => {
+  const input = args.join(' ');
+  const parsed = input ? parseAddressInput(input) : null;
+  if (!parsed) {
+    throw new CliError(input ? `invalid address: ${input}` : 'missing address', input ? EXIT_INVALID_INPUT : EXIT_USAGE);
+  }
+  if (parsed.cidr === null) {
+    return { ...parsed, cidr: parsed.version === 6 ? DEFAULT_IPV6_CIDR : DEFAULT_CIDR };
+  }
+  return { ...parsed, cidr: parsed.cidr };
+};
+
+/**
+ * Reads an IPv4 network, rejecting IPv6 input for the commands that only handle IPv4
+ */
+const readIPv4Network = (args: string[]): ParsedAddress & { cidr: number } => {
+  const address = readAddress(args);
+  if (address.version !== 4) {
+    throw new CliError(`only IPv4 networks are supported: ${args.join(' ')}`, EXIT_INVALID_INPUT);
+  }
+  return address;
+};
+
+const ipv4Fields = (result: IPResult): [string, string | number][] => {
+  const fields: [string, string | number][] = [
+    ['results.networkAddress', `${result.networkAddress}/${result.cidr}`],
+    ['subnetMask', result.subnetMask],
+    ['results.wildcardMask', result.wildcardMask],
+    ['results.broadcastAddress', result.broadcastAddress],
+    ['results.firstValidHost', result.firstValidHost],
+    ['results.lastValidHost', result.lastValidHost],
+    ['results.totalHosts', result.totalHosts],
+    ['results.usableHosts', result.usableHosts],
+    ['results.subnetBits', result.subnetBits],
+    ['results.hostBits', result.hostBits],
+    ['classification.category', label(`classification.categories.${result.classification.category}`)]
+  ];
+
+  if (result.classification.category !== 'public') {
+    fields.push([
+      'classification.registryBlock',
+      `${result.classification.networkAddress}/${result.classification.cidr} (${result.classification.rfc})`
+    ]);
+  }
+
+  return fields.concat([
+    ['classification.globallyReachable', label(result.classification.globallyReachable ? 'yes' : 'no')],
+    ['classification.forwardable', label(result.classification.forwardable ? 'yes' : 'no')],
+    ['results.binarySubnetMask', result.binarySubnetMask],
+    ['results.binaryIpAddress', result.binaryIpAddress],
+    ['results.binaryNetworkAddress', result.binaryNetworkAddress]
+  ]);
+};
+
+const ipv6Fields = (result: IPv6Result): [string, string | number][] => [
+  ['results.networkAddress', `${result.networkAddress}/${result.cidr}`],
+  ['results.lastAddress', result.lastAddress],
+  ['results.compressedAddress', result.compressedAddress],
+  ['results.expandedAddress', result.expandedAddress],
+  ['results.addressType', label(`results.addressTypes.${result.addressType}`)],
+  ['results.totalAddresses', result.totalAddresses.toString()],
+  ['results.prefixBits', result.prefixBits],
+  ['results.interfaceBits', result.interfaceBits]
+];
+
+const runInfo = (args: string[], options: CliOptions) => {
+  const address = readAddress(args);
+
+  if (address.version === 6) {
+    const result = calculateIPv6Info(address.ip, address.cidr);
+    printFields(ipv6Fields(result), result, options);
+  } else {
+    const result = calculateIPInfo(address.ip, address.cidr);
+    printFields(ipv4Fields(result), result, options);
+  }
+};
+
+const runSplit = (args: string[], options: CliOptions) => {
+  if (args.length < 2) {
+    throw new CliError('split needs a network and a number of subnets', EXIT_USAGE);
+  }
+
+  const countArg = args[args.length - 1];
+  const count = Number(countArg);
+  const network = readIPv4Network(args.slice(0, -1));
+
+  if (!/^\d+$/.test(countArg) || count < 1) {
+    throw new CliError(`invalid number of subnets: ${countArg}`, EXIT_INVALID_INPUT);
+  }
+  if (count > MAX_SUBNET_COUNT) {
+    throw new CliError(`at most ${MAX_SUBNET_COUNT} subnets can be listed: ${countArg}`, EXIT_INVALID_INPUT);
+  }
+  if (network.cidr + Math.ceil(Math.log2(count)) > 32) {
+    throw new CliError(`/${network.cidr} cannot be divided into ${count} subnets`, EXIT_INVALID_INPUT);
+  }
+
+  const { subnets } = generateSubnets(network.ip, network.cidr, count);
+
+  if (options.format === 'json') {
+    printJson(subnets);
+    return;
+  }
+
+  const header = ['#', 'subnetting.subnet', 'subnetMask', 'results.firstValidHost', 'results.lastValidHost', 'results.broadcastAddress', 'subnetting.usable'];
+  const rows = subnets.map(subnet => [
+    subnet.id,
+    `${subnet.networkAddress}/${subnet.cidr}`,
+    cidrToSubnetMask(subnet.cidr),
+    subnet.firstHost,
+    subnet.lastHost,
+    subnet.broadcastAddress,
+    subnet.usableHosts
+  ]);
+
+  if (options.format === 'csv') {
+    printCsv(header.map(label), rows);
+  } else {
+    const widths = header.map((key, i) => Math.max(label(key).length, ...rows.map(row => String(row[i]).length)));
+    [header.map(label)].concat(rows.map(row => row.map(String))).forEach(row => {
+      console.log(row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd());
+    });
+  }
+};
+
+const runRange = (args: string[], options: CliOptions) => {
+  if (args.length === 0) {
+    throw new CliError('missing range', EXIT_USAGE);
+  }
+
+  // Accepts "a-b", "a - b" and "a b"
+  const input = args.join(' ');
+  const blocks = calculateRangeCidrs(args.length === 2 ? args.join('-') : input.replace(/\s+/g, ''));
+  if (blocks.length === 0) {
+    throw new CliError(`invalid range: ${input}`, EXIT_INVALID_INPUT);
+  }
+
+  if (options.format === 'json') {
+    printJson(blocks);
+  } else if (options.format === 'csv') {
+    printCsv(['networkAddress', 'cidr', 'subnetMask'], blocks.map(block => [block.networkAddress, block.cidr, cidrToSubnetMask(block.cidr)]));
+  } else {
+    blocks.forEach(block => console.log(`${block.networkAddress}/${block.cidr}`));
+  }
+};
+
+const runHosts = (args: string[], options: CliOptions) => {
+  const network = readIPv4Network(args);
+  const result = calculateIPInfo(network.ip, network.cidr);
+  const hosts = generateIpsInSubnet(result.networkAddress, result.cidr, options.limit);
+
+  if (hosts.length < result.usableHosts) {
+    console.error(`ipcalc: listing ${hosts.length} of ${result.usableHosts} hosts, use --limit to change`);
+  }
+
+  if (options.format === 'json') {
+    printJson(hosts);
+  } else if (options.format === 'csv') {
+    printCsv(['ip'], hosts.map(host => [host]));
+  } else {
+    hosts.forEach(host => console.log(host));
+  }
+};
+
+const commands: { [name: string]: (args: string[], options: CliOptions) => void } = {
+  info: runInfo,
+  split: runSplit,
+  range: runRange,
+  hosts: runHosts
+};
+
+/**
+ * Separates the options from the positional arguments
+ */
+const parseArguments = (argv: string[]): { command?: string; args: string[]; options: CliOptions; help: boolean } => {
+  const options: CliOptions = { format: 'text', limit: DEFAULT_HOST_LIMIT };
+  const positional: string[] = [];
+  let help = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--json' || arg === '--csv') {
+      options.format = arg === '--json' ? 'json' : 'csv';
+    } else if (arg === '--limit') {
+      const value = argv[++i];
+      if (value === undefined || !/^\d+$/.test(value)) {
+        throw new CliError(`invalid --limit value: ${value === undefined ? '' : value}`, EXIT_USAGE);
+      }
+      options.limit = Number(value);
+    } else if (arg === '-h' || arg === '--help') {
+      help = true;
+    } else if (/^--?[a-z]/i.test(arg)) {
+      throw new CliError(`unknown option: ${arg}`, EXIT_USAGE);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  return { command: positional[0], args: positional.slice(1), options, help };
+};
+
+export const main = (argv: string[]): number => {
+  try {
+    const { command, args, options, help } = parseArguments(argv);
+
+    if (help || !command) {
+      (help ? console.log : console.error)(USAGE);
+      return help ? 0 : EXIT_USAGE;
+    }
+
+    const run = commands[command];
+    if (!run) {
+      throw new CliError(`unknown command: ${command}`, EXIT_USAGE);
+    }
+
+    run(args, options);
+    return 0;
+  } catch (error) {
+    if (error instanceof CliError) {
+      console.error(`ipcalc: ${error.message}`);
+      if (error.exitCode === EXIT_USAGE) {
+        console.error(USAGE);
+      }
+      return error.exitCode;
+    }
+    throw error;
+  }
+};
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
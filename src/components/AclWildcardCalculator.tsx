@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Button,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Box,
+  Alert,
+  Divider,
+} from '@mui/material';
+import RuleIcon from '@mui/icons-material/Rule';
+import FactCheckIcon from '@mui/icons-material/FactCheck';
+import { isValidIP, ipToBinaryRaw } from '../utils/ipUtils';
+import {
+  parseAclTargets,
+  calculateAclEntries,
+  matchWildcard,
+  AclCalculation,
+  WildcardMatchResult
+} from '../utils/aclUtils';
+
+const AclWildcardCalculator: React.FC = () => {
+  const { t } = useTranslation();
+  const [targetsText, setTargetsText] = useState('');
+  const [calculation, setCalculation] = useState<AclCalculation | null>(null);
+  const [entriesError, setEntriesError] = useState('');
+
+  const [testIp, setTestIp] = useState('');
+  const [aclAddress, setAclAddress] = useState('');
+  const [aclWildcard, setAclWildcard] = useState('');
+  const [matchResult, setMatchResult] = useState<WildcardMatchResult | null>(null);
+  const [matchError, setMatchError] = useState('');
+
+  const handleCalculate = () => {
+    const { ranges, invalidEntries } = parseAclTargets(targetsText);
+
+    if (invalidEntries.length > 0) {
+      setEntriesError(((t as any)('summarization.invalidEntries') as string).replace('{entries}', invalidEntries.join(', ')));
+      setCalculation(null);
+      return;
+    }
+
+    setEntriesError('');
+    setCalculation(calculateAclEntries(ranges));
+  };
+
+  const handleTest = () => {
+    if (!isValidIP(testIp) || !isValidIP(aclAddress) || !isValidIP(aclWildcard)) {
+      setMatchError((t as any)('networkTools.ping.errors.validIps'));
+      setMatchResult(null);
+      return;
+    }
+
+    setMatchError('');
+    setMatchResult(matchWildcard(testIp, aclAddress, aclWildcard));
+  };
+
+  // Renders 32 bits grouped by octet: ignored bits are dimmed, mismatching bits highlighted
+  const renderBits = (bits: string, wildcardBits: string, mismatchedBits: number[] = []) => (
+    <Box component="span" sx={{ fontFamily: 'monospace', letterSpacing: '1px' }}>
+      {bits.split('').map((bit, index) => (
+        <React.Fragment key={index}>
+          {index > 0 && index % 8 === 0 && '.'}
+          <Box
+            component="span"
+            sx={{
+              color: mismatchedBits.includes(index)
+                ? 'error.main'
+                : wildcardBits[index] === '1' ? 'text.disabled' : 'text.primary',
+              fontWeight: mismatchedBits.includes(index) ? 'bold' : 'normal'
+            }}
+          >
+            {bit}
+          </Box>
+        </React.Fragment>
+      ))}
+    </Box>
+  );
+
+  return (
+    <Card elevation={3} sx={{ mt: 3, mb: 3 }}>
+      <CardContent>
+        <Typography variant="h5" gutterBottom>
+          {(t as any)('acl.title')}
+        </Typography>
+
+        <Grid container spacing={2} alignItems="center">
+          <Grid item xs={12} sm={8}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={3}
+              label={(t as any)('acl.targets')}
+              value={targetsText}
+              onChange={(e) => setTargetsText(e.target.value)}
+              error={!!entriesError}
+              helperText={entriesError || (t as any)('acl.targetsHelp')}
+              placeholder={'10.0.0.0/24\n10.0.1.10-10.0.1.20'}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <Button
+              variant="contained"
+              color="primary"
+              startIcon={<RuleIcon />}
+              onClick={handleCalculate}
+              disabled={!targetsText.trim()}
+              fullWidth
+            >
+              {(t as any)('acl.calculate')}
+            </Button>
+          </Grid>
+        </Grid>
+
+        {calculation && calculation.entries.length > 0 && (
+          <Box sx={{ mt: 4 }}>
+            <Typography variant="h6" gutterBottom>
+              {(t as any)('acl.entries')}
+            </Typography>
+            {!calculation.minimal && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                {(t as any)('acl.notProvenMinimal')}
+              </Alert>
+            )}
+            <TableContainer component={Paper} sx={{ maxHeight: 400, overflowY: 'auto' }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{(t as any)('acl.address')}</TableCell>
+                    <TableCell>{(t as any)('results.wildcardMask')}</TableCell>
+                    <TableCell>{(t as any)('acl.matchCount')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {calculation.entries.map((entry) => (
+                    <TableRow key={`${entry.address} ${entry.wildcard}`}>
+                      <TableCell>
+                        <Typography variant="body2" fontFamily="monospace">
+                          {entry.address}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="body2" fontFamily="monospace">
+                          {entry.wildcard}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        {entry.matchCount.toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Box>
+        )}
+
+        <Divider sx={{ my: 3 }} />
+
+        <Typography variant="h6" gutterBottom>
+          {(t as any)('acl.matcher')}
+        </Typography>
+
+        <Grid container spacing={2} alignItems="center">
+          <Grid item xs={12} sm={3}>
+            <TextField
+              fullWidth
+              label={(t as any)('ipAddress')}
+              value={testIp}
+              onChange={(e) => setTestIp(e.target.value)}
+              placeholder="10.0.0.7"
+            />
+          </Grid>
+          <Grid item xs={12} sm={3}>
+            <TextField
+              fullWidth
+              label={(t as any)('acl.address')}
+              value={aclAddress}
+              onChange={(e) => setAclAddress(e.target.value)}
+              placeholder="10.0.0.1"
+            />
+          </Grid>
+          <Grid item xs={12} sm={3}>
+            <TextField
+              fullWidth
+              label={(t as any)('results.wildcardMask')}
+              value={aclWildcard}
+              onChange={(e) => setAclWildcard(e.target.value)}
+              placeholder="0.0.0.254"
+            />
+          </Grid>
+          <Grid item xs={12} sm={3}>
+            <Button
+              variant="contained"
+              color="primary"
+              startIcon={<FactCheckIcon />}
+              onClick={handleTest}
+              disabled={!testIp || !aclAddress || !aclWildcard}
+              fullWidth
+            >
+              {(t as any)('acl.test')}
+            </Button>
+          </Grid>
+        </Grid>
+
+        {matchError && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {matchError}
+          </Alert>
+        )}
+
+        {matchResult && (
+          <Box sx={{ mt: 2 }}>
+            <Alert severity={matchResult.matches ? 'success' : 'warning'}>
+              {(t as any)(matchResult.matches ? 'acl.matches' : 'acl.doesNotMatch')}
+            </Alert>
+            <Box sx={{
+              mt: 2,
+              bgcolor: 'background.paper',
+              border: 1,
+              borderColor: 'divider',
+              p: 1,
+              borderRadius: 1,
+              overflowX: 'auto',
+              fontSize: '0.9rem',
+              color: 'text.primary',
+            }}>
+              <Typography variant="body2">
+                <strong>{(t as any)('ipAddress')}:</strong> {renderBits(matchResult.ipOperation.ipBits, ipToBinaryRaw(aclWildcard), matchResult.mismatchedBits)}
+              </Typography>
+              <Typography variant="body2">
+                <strong>{(t as any)('acl.address')}:</strong> {renderBits(matchResult.aclOperation.ipBits, ipToBinaryRaw(aclWildcard), matchResult.mismatchedBits)}
+              </Typography>
+              <Typography variant="body2">
+                <strong>{(t as any)('results.wildcardMask')}:</strong> {renderBits(ipToBinaryRaw(aclWildcard), '')}
+              </Typography>
+              <Typography variant="body2">
+                <strong>{(t as any)('acl.careMask')}:</strong> {renderBits(matchResult.ipOperation.maskBits, '')}
+              </Typography>
+            </Box>
+            <Typography variant="caption" color="text.secondary">
+              {(t as any)('acl.bitLegend')}
+            </Typography>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AclWildcardCalculator;
@@ -0,0 +1,288 @@
+import React, { useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Button,
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TableSortLabel,
+  Paper,
+  Box,
+  Alert,
+  Chip,
+} from '@mui/material';
+import CalculateIcon from '@mui/icons-material/Calculate';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import {
+  calculateBulk,
+  sortBulkEntries,
+  filterBulkEntries,
+  BulkEntry,
+  BulkSortKey,
+  BulkStatusFilter,
+  MAX_BULK_LINES
+} from '../utils/bulkUtils';
+import { ExportTable } from '../utils/exportUtils';
+import ExportMenu from './ExportMenu';
+
+// Sortable columns and the labels they share with the rest of the calculator
+const columns: { key: BulkSortKey; label: string }[] = [
+  { key: 'lineNumber', label: 'bulk.line' },
+  { key: 'input', label: 'bulk.input' },
+  { key: 'networkAddress', label: 'results.networkAddress' },
+  { key: 'subnetMask', label: 'subnetMask' },
+  { key: 'broadcastAddress', label: 'results.broadcastAddress' },
+  { key: 'firstValidHost', label: 'results.firstValidHost' },
+  { key: 'lastValidHost', label: 'results.lastValidHost' },
+  { key: 'usableHosts', label: 'results.usableHosts' }
+];
+
+const BulkCalculator: React.FC = () => {
+  const { t } = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [listText, setListText] = useState('');
+  const [entries, setEntries] = useState<BulkEntry[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [uploadError, setUploadError] = useState('');
+  const [sortKey, setSortKey] = useState<BulkSortKey>('lineNumber');
+  const [descending, setDescending] = useState(false);
+  const [query, setQuery] = useState('');
+  const [status, setStatus] = useState<BulkStatusFilter>('all');
+
+  const visible = sortBulkEntries(filterBulkEntries(entries, query, status), sortKey, descending);
+  const invalidCount = entries.filter(entry => !entry.result).length;
+
+  const calculate = (text: string) => {
+    const bulk = calculateBulk(text);
+    setUploadError('');
+    setEntries(bulk.entries);
+    setTruncated(bulk.truncated);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files && e.target.files[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      setUploadError(((t as any)('bulk.uploadError') as string).replace('{file}', file.name).replace('{message}', message));
+      return;
+    }
+
+    setListText(text);
+    calculate(text);
+  };
+
+  const handleSort = (key: BulkSortKey) => {
+    setDescending(key === sortKey ? !descending : false);
+    setSortKey(key);
+  };
+
+  const getTable = (): ExportTable => ({
+    columns: columns
+      .map(column => ({ key: column.key as string, header: (t as any)(column.label) }))
+      .concat([
+        { key: 'cidr', header: (t as any)('cidr') },
+        { key: 'error', header: (t as any)('bulk.error') }
+      ]),
+    rows: visible.map(entry => entry.result
+      ? [
+        entry.lineNumber,
+        entry.input,
+        entry.result.networkAddress,
+        entry.result.subnetMask,
+        entry.result.broadcastAddress,
+        entry.result.firstValidHost,
+        entry.result.lastValidHost,
+        entry.result.usableHosts,
+        entry.result.cidr,
+        ''
+      ]
+      : [entry.lineNumber, entry.input, '', '', '', '', '', '', '', (t as any)(`bulk.errors.${entry.error}`)])
+  });
+
+  return (
+    <Card elevation={3} sx={{ mt: 3, mb: 3 }}>
+      <CardContent>
+        <Typography variant="h5" gutterBottom>
+          {(t as any)('bulk.title')}
+        </Typography>
+
+        <TextField
+          fullWidth
+          multiline
+          minRows={5}
+          maxRows={15}
+          label={(t as any)('bulk.list')}
+          value={listText}
+          onChange={(e) => setListText(e.target.value)}
+          helperText={((t as any)('bulk.listHelp') as string).replace('{max}', MAX_BULK_LINES.toLocaleString())}
+          placeholder={'10.1.2.3/24\n192.168.10.77 255.255.255.192\n172.16.5.4,255.255.0.0'}
+          InputProps={{ sx: { fontFamily: 'monospace' } }}
+        />
+
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 2 }}>
+          <Button
+            variant="contained"
+            color="primary"
+            startIcon={<CalculateIcon />}
+            onClick={() => calculate(listText)}
+            disabled={!listText.trim()}
+          >
+            {(t as any)('bulk.calculate')}
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<FileUploadIcon />}
+            onClick={() => fileInputRef.current && fileInputRef.current.click()}
+          >
+            {(t as any)('bulk.upload')}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="text/plain,text/csv,.txt,.csv"
+            hidden
+            onChange={handleUpload}
+          />
+        </Box>
+
+        {uploadError && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {uploadError}
+          </Alert>
+        )}
+
+        {truncated && (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            {((t as any)('bulk.truncated') as string).replace('{max}', MAX_BULK_LINES.toLocaleString())}
+          </Alert>
+        )}
+
+        {entries.length > 0 && (
+          <Box sx={{ mt: 3 }}>
+            <Grid container spacing={2} alignItems="center" sx={{ mb: 2 }}>
+              <Grid item xs={12} sm={5}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label={(t as any)('bulk.filter')}
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                />
+              </Grid>
+              <Grid item xs={12} sm={4}>
+                <FormControl fullWidth size="small">
+                  <InputLabel id="bulk-status-label">{(t as any)('bulk.status')}</InputLabel>
+                  <Select
+                    labelId="bulk-status-label"
+                    value={status}
+                    onChange={(e) => setStatus(e.target.value as BulkStatusFilter)}
+                    label={(t as any)('bulk.status')}
+                  >
+                    <MenuItem value="all">{(t as any)('bulk.statuses.all')}</MenuItem>
+                    <MenuItem value="valid">{(t as any)('bulk.statuses.valid')}</MenuItem>
+                    <MenuItem value="invalid">{(t as any)('bulk.statuses.invalid')}</MenuItem>
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid item xs={12} sm={3} sx={{ display: 'flex', justifyContent: { sm: 'flex-end' } }}>
+                <ExportMenu getTable={getTable} fileName="bulk-networks" disabled={visible.length === 0} />
+              </Grid>
+            </Grid>
+
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              {((t as any)('bulk.summary') as string)
+                .replace('{count}', entries.length.toLocaleString())
+                .replace('{invalid}', invalidCount.toLocaleString())
+                .replace('{shown}', visible.length.toLocaleString())}
+            </Typography>
+
+            <TableContainer component={Paper} sx={{ maxHeight: 400, overflowY: 'auto' }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    {columns.map(column => (
+                      <TableCell key={column.key} sortDirection={sortKey === column.key ? (descending ? 'desc' : 'asc') : false}>
+                        <TableSortLabel
+                          active={sortKey === column.key}
+                          direction={sortKey === column.key && descending ? 'desc' : 'asc'}
+                          onClick={() => handleSort(column.key)}
+                        >
+                          {(t as any)(column.label)}
+                        </TableSortLabel>
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {visible.map(entry => (
+                    <TableRow key={entry.lineNumber}>
+                      <TableCell>{entry.lineNumber}</TableCell>
+                      <TableCell>
+                        <Typography variant="body2" fontFamily="monospace">
+                          {entry.input}
+                        </Typography>
+                      </TableCell>
+                      {entry.result ? (
+                        <>
+                          <TableCell>
+                            <Typography variant="body2" fontFamily="monospace">
+                              {entry.result.networkAddress}/{entry.result.cidr}
+                            </Typography>
+                          </TableCell>
+                          {[
+                            entry.result.subnetMask,
+                            entry.result.broadcastAddress,
+                            entry.result.firstValidHost,
+                            entry.result.lastValidHost
+                          ].map((value, index) => (
+                            <TableCell key={index}>
+                              <Typography variant="body2" fontFamily="monospace">
+                                {value}
+                              </Typography>
+                            </TableCell>
+                          ))}
+                          <TableCell>{entry.result.usableHosts.toLocaleString()}</TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={6}>
+                          <Chip
+                            size="small"
+                            color="error"
+                            variant="outlined"
+                            label={(t as any)(`bulk.errors.${entry.error}`)}
+                          />
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BulkCalculator;
@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Button,
+  Grid,
+  FormControlLabel,
+  Checkbox,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Box,
+  Alert,
+  Chip,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import StarIcon from '@mui/icons-material/Star';
+import StarBorderIcon from '@mui/icons-material/StarBorder';
+import ReplayIcon from '@mui/icons-material/Replay';
+import DeleteIcon from '@mui/icons-material/Delete';
+import DeleteSweepIcon from '@mui/icons-material/DeleteSweep';
+import {
+  HistoryEntry,
+  updateHistoryEntry,
+  removeHistoryEntry,
+  clearHistory,
+  sortHistory,
+  searchHistory,
+  getSweepSize
+} from '../utils/historyUtils';
+import { ExportTable } from '../utils/exportUtils';
+import ExportMenu from './ExportMenu';
+
+interface CalculationHistoryProps {
+  entries: HistoryEntry[];
+  storageError: boolean;
+  onChange: (update: (entries: HistoryEntry[]) => HistoryEntry[]) => void;
+  onRerun: (entry: HistoryEntry) => void;
+}
+
+const CalculationHistory: React.FC<CalculationHistoryProps> = ({ entries, storageError, onChange, onRerun }) => {
+  const { t } = useTranslation();
+  const [query, setQuery] = useState('');
+  const [pinnedOnly, setPinnedOnly] = useState(false);
+
+  const visible = sortHistory(searchHistory(entries, query, pinnedOnly));
+
+  // What the run found, in the interface language
+  const describe = (entry: HistoryEntry): string => {
+    const text = (key: string) => (t as any)(`history.outcomes.${key}`) as string;
+
+    switch (entry.kind) {
+      case 'calculation':
+        return entry.subnetCount ? text('subnets').replace('{count}', String(entry.subnetCount)) : '';
+      case 'ping':
+        return entry.responseTime !== null ? text('responseTime').replace('{time}', String(entry.responseTime)) : text('noReply');
+      case 'ports':
+        return (entry.openPorts.length > 0 ? text('openPorts').replace('{ports}', entry.openPorts.join(', ')) : text('noOpenPorts'))
+          + ' ' + text('checkedPorts').replace('{ports}', entry.ports.join(', '));
+      case 'sweep':
+        return `${entry.startIp} - ${entry.endIp}: ` + text('hostsUp')
+          .replace('{up}', String(entry.hostsUp || 0))
+          .replace('{total}', String(getSweepSize(entry)));
+      default:
+        return '';
+    }
+  };
+
+  const getTable = (): ExportTable => ({
+    columns: [
+      { key: 'timestamp', header: (t as any)('history.date') },
+      { key: 'kind', header: (t as any)('history.kind') },
+      { key: 'address', header: (t as any)('ipAddress') },
+      { key: 'details', header: (t as any)('history.details') },
+      { key: 'label', header: (t as any)('history.label') },
+      { key: 'pinned', header: (t as any)('history.favourite') }
+    ],
+    rows: visible.map(entry => [
+      entry.timestamp,
+      (t as any)(`history.kinds.${entry.kind}`),
+      `${entry.ip}/${entry.cidr}`,
+      describe(entry),
+      entry.label,
+      entry.pinned ? (t as any)('yes') : ''
+    ])
+  });
+
+  return (
+    <Card elevation={3} sx={{ mt: 3, mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+          <Typography variant="h5" sx={{ flexGrow: 1 }}>
+            {(t as any)('history.title')}
+          </Typography>
+          <ExportMenu getTable={getTable} fileName="calculation-history" disabled={visible.length === 0} />
+          <Tooltip title={(t as any)('history.clearHelp')}>
+            <span>
+              <Button
+                variant="outlined"
+                color="error"
+                startIcon={<DeleteSweepIcon />}
+                onClick={() => onChange(clearHistory)}
+                disabled={!entries.some(entry => !entry.pinned)}
+              >
+                {(t as any)('history.clear')}
+              </Button>
+            </span>
+          </Tooltip>
+        </Box>
+
+        {storageError && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {(t as any)('history.storageError')}
+          </Alert>
+        )}
+
+        <Grid container spacing={2} alignItems="center">
+          <Grid item xs={12} sm={8}>
+            <TextField
+              fullWidth
+              size="small"
+              label={(t as any)('history.search')}
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <FormControlLabel
+              control={<Checkbox checked={pinnedOnly} onChange={(e) => setPinnedOnly(e.target.checked)} />}
+              label={(t as any)('history.pinnedOnly')}
+            />
+          </Grid>
+        </Grid>
+
+        {visible.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            {(t as any)(entries.length === 0 ? 'history.empty' : 'history.noMatches')}
+          </Typography>
+        ) : (
+          <TableContainer component={Paper} sx={{ mt: 2, maxHeight: 400, overflowY: 'auto' }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell />
+                  <TableCell>{(t as any)('history.date')}</TableCell>
+                  <TableCell>{(t as any)('history.kind')}</TableCell>
+                  <TableCell>{(t as any)('ipAddress')}</TableCell>
+                  <TableCell>{(t as any)('history.details')}</TableCell>
+                  <TableCell>{(t as any)('history.label')}</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {visible.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell padding="checkbox">
+                      <Tooltip title={(t as any)(entry.pinned ? 'history.unpin' : 'history.pin')}>
+                        <IconButton
+                          size="small"
+                          color={entry.pinned ? 'warning' : 'default'}
+                          onClick={() => onChange(current => updateHistoryEntry(current, entry.id, { pinned: !entry.pinned }))}
+                          aria-label={(t as any)(entry.pinned ? 'history.unpin' : 'history.pin')}
+                        >
+                          {entry.pinned ? <StarIcon fontSize="small" /> : <StarBorderIcon fontSize="small" />}
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>{new Date(entry.timestamp).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Chip size="small" variant="outlined" label={(t as any)(`history.kinds.${entry.kind}`)} />
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" fontFamily="monospace">
+                        {entry.ip}/{entry.cidr}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{describe(entry)}</TableCell>
+                    <TableCell>
+                      <TextField
+                        variant="standard"
+                        size="small"
+                        value={entry.label}
+                        placeholder={(t as any)('history.label')}
+                        onChange={(e) => {
+                          const label = e.target.value;
+                          onChange(current => updateHistoryEntry(current, entry.id, { label }));
+                        }}
+                        inputProps={{ 'aria-label': (t as any)('history.label') }}
+                      />
+                    </TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <Tooltip title={(t as any)('history.rerun')}>
+                        <IconButton size="small" onClick={() => onRerun(entry)} aria-label={(t as any)('history.rerun')}>
+                          <ReplayIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title={(t as any)('history.remove')}>
+                        <IconButton
+                          size="small"
+                          onClick={() => onChange(current => removeHistoryEntry(current, entry.id))}
+                          aria-label={(t as any)('history.remove')}
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CalculationHistory;
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Button,
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  SelectChangeEvent,
+  Box,
+  Alert,
+  Chip,
+} from '@mui/material';
+import JoinInnerIcon from '@mui/icons-material/JoinInner';
+import { CidrBlock, cidrSize } from '../utils/ipUtils';
+import {
+  parseCidrList,
+  applyCidrSetOperation,
+  containsCidrs,
+  formatCidr,
+  CidrSetOperation
+} from '../utils/cidrUtils';
+
+const operations: CidrSetOperation[] = ['exclude', 'intersect', 'union', 'symmetricDifference'];
+
+const CidrSetCalculator: React.FC = () => {
+  const { t } = useTranslation();
+  const [firstText, setFirstText] = useState('');
+  const [secondText, setSecondText] = useState('');
+  const [operation, setOperation] = useState<CidrSetOperation>('exclude');
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<CidrBlock[] | null>(null);
+  const [contains, setContains] = useState<{ firstContainsSecond: boolean; secondContainsFirst: boolean } | null>(null);
+
+  const handleOperationChange = (e: SelectChangeEvent<CidrSetOperation>) => {
+    setOperation(e.target.value as CidrSetOperation);
+    setResult(null);
+    setContains(null);
+  };
+
+  const handleApply = () => {
+    const first = parseCidrList(firstText);
+    const second = parseCidrList(secondText);
+    const invalidEntries = first.invalidEntries.concat(second.invalidEntries);
+
+    if (invalidEntries.length > 0) {
+      setError(((t as any)('summarization.invalidEntries') as string).replace('{entries}', invalidEntries.join(', ')));
+      setResult(null);
+      setContains(null);
+      return;
+    }
+
+    setError('');
+    setResult(applyCidrSetOperation(operation, first.blocks, second.blocks));
+    setContains({
+      firstContainsSecond: containsCidrs(first.blocks, second.blocks),
+      secondContainsFirst: containsCidrs(second.blocks, first.blocks)
+    });
+  };
+
+  const totalAddresses = result ? result.reduce((sum, block) => sum + cidrSize(block.cidr), 0) : 0;
+
+  return (
+    <Card elevation={3} sx={{ mt: 3, mb: 3 }}>
+      <CardContent>
+        <Typography variant="h5" gutterBottom>
+          {(t as any)('cidrSet.title')}
+        </Typography>
+
+        <Grid container spacing={2}>
+          <Grid item xs={12} md={6}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={3}
+              label={(t as any)('cidrSet.listA')}
+              value={firstText}
+              onChange={(e) => setFirstText(e.target.value)}
+              placeholder="10.0.0.0/16"
+            />
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={3}
+              label={(t as any)('cidrSet.listB')}
+              value={secondText}
+              onChange={(e) => setSecondText(e.target.value)}
+              placeholder={'10.0.1.0/24\n10.0.5.0/24'}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <FormControl fullWidth variant="outlined">
+              <InputLabel id="cidr-set-operation-label">
+                {(t as any)('cidrSet.operation')}
+              </InputLabel>
+              <Select
+                labelId="cidr-set-operation-label"
+                value={operation}
+                onChange={handleOperationChange}
+                label={(t as any)('cidrSet.operation')}
+              >
+                {operations.map((op) => (
+                  <MenuItem key={op} value={op}>
+                    {(t as any)(`cidrSet.operations.${op}`)}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <Button
+              variant="contained"
+              color="primary"
+              startIcon={<JoinInnerIcon />}
+              onClick={handleApply}
+              disabled={!firstText.trim() && !secondText.trim()}
+              fullWidth
+              sx={{ height: '100%' }}
+            >
+              {(t as any)('cidrSet.apply')}
+            </Button>
+          </Grid>
+        </Grid>
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {result && (
+          <Box sx={{ mt: 4 }}>
+            <Typography variant="h6" gutterBottom>
+              {((t as any)('rangeToCidr.result') as string)
+                .replace('{count}', result.length.toString())
+                .replace('{total}', totalAddresses.toLocaleString())}
+            </Typography>
+            {result.length > 0 ? (
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                {result.map((block) => (
+                  <Chip
+                    key={formatCidr(block)}
+                    label={formatCidr(block)}
+                    variant="outlined"
+                    sx={{ fontFamily: 'monospace' }}
+                  />
+                ))}
+              </Box>
+            ) : (
+              <Typography variant="body2" color="text.secondary">
+                {(t as any)('cidrSet.empty')}
+              </Typography>
+            )}
+          </Box>
+        )}
+
+        {contains && (
+          <Box sx={{ mt: 2 }}>
+            <Typography variant="body2">
+              <strong>{(t as any)('cidrSet.aContainsB')}:</strong>{' '}
+              {(t as any)(contains.firstContainsSecond ? 'cidrSet.yes' : 'cidrSet.no')}
+            </Typography>
+            <Typography variant="body2">
+              <strong>{(t as any)('cidrSet.bContainsA')}:</strong>{' '}
+              {(t as any)(contains.secondContainsFirst ? 'cidrSet.yes' : 'cidrSet.no')}
+            </Typography>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CidrSetCalculator;
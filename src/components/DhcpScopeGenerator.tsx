@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Box,
+  Alert,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import { IPResult } from '../utils/ipUtils';
+import {
+  dhcpServerFormats,
+  defaultDhcpScope,
+  getPoolRanges,
+  countPoolAddresses,
+  validateDhcpScope,
+  generateDhcpConfig,
+  DhcpScope,
+  DhcpServerFormat,
+  DEFAULT_LEASE_TIME
+} from '../utils/dhcpUtils';
+
+interface DhcpScopeGeneratorProps {
+  result: IPResult;
+}
+
+type ScopeField = 'poolStart' | 'poolEnd' | 'excludedStart' | 'excludedEnd' | 'gateway' | 'domainName';
+
+const DhcpScopeGenerator: React.FC<DhcpScopeGeneratorProps> = ({ result }) => {
+  const { t } = useTranslation();
+  const { firstValidHost, lastValidHost } = result;
+  const [format, setFormat] = useState<DhcpServerFormat>('iscDhcpd');
+  const [fields, setFields] = useState(() => defaultDhcpScope(result));
+  const [dnsText, setDnsText] = useState('');
+  const [leaseText, setLeaseText] = useState(String(DEFAULT_LEASE_TIME));
+
+  // Starts over with the default scope whenever another network is calculated
+  useEffect(() => {
+    setFields(defaultDhcpScope({ firstValidHost, lastValidHost }));
+  }, [firstValidHost, lastValidHost]);
+
+  const scope: DhcpScope = {
+    ...fields,
+    poolStart: fields.poolStart.trim(),
+    poolEnd: fields.poolEnd.trim(),
+    excludedStart: fields.excludedStart.trim(),
+    excludedEnd: fields.excludedEnd.trim(),
+    gateway: fields.gateway.trim(),
+    domainName: fields.domainName.trim(),
+    dnsServers: dnsText.split(/[\s,;]+/).filter(server => server !== ''),
+    leaseTime: /^\d+$/.test(leaseText.trim()) ? parseInt(leaseText, 10) : NaN
+  };
+  const error = validateDhcpScope(result, scope);
+  const ranges = error ? [] : getPoolRanges(scope);
+  const config = error ? '' : generateDhcpConfig(format, result, scope);
+
+  const handleFieldChange = (field: ScopeField) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFields({ ...fields, [field]: e.target.value });
+  };
+
+  const scopeFields: ScopeField[] = ['poolStart', 'poolEnd', 'excludedStart', 'excludedEnd', 'gateway', 'domainName'];
+
+  return (
+    <Card elevation={3} sx={{ mt: 3, mb: 3 }}>
+      <CardContent>
+        <Typography variant="h5" gutterBottom>
+          {(t as any)('dhcp.title')}
+        </Typography>
+
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          {((t as any)('dhcp.usableRange') as string)
+            .replace('{first}', firstValidHost)
+            .replace('{last}', lastValidHost)}
+        </Typography>
+
+        <Grid container spacing={2} sx={{ mt: 1 }}>
+          {scopeFields.map(field => (
+            <Grid item xs={12} sm={6} md={4} key={field}>
+              <TextField
+                fullWidth
+                label={(t as any)(`dhcp.${field}`)}
+                value={fields[field]}
+                onChange={handleFieldChange(field)}
+              />
+            </Grid>
+          ))}
+          <Grid item xs={12} sm={6} md={4}>
+            <TextField
+              fullWidth
+              label={(t as any)('dhcp.dnsServers')}
+              value={dnsText}
+              onChange={(e) => setDnsText(e.target.value)}
+              placeholder="1.1.1.1, 8.8.8.8"
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={4}>
+            <TextField
+              fullWidth
+              type="number"
+              label={(t as any)('dhcp.leaseTime')}
+              value={leaseText}
+              onChange={(e) => setLeaseText(e.target.value)}
+              inputProps={{ min: 1 }}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={4}>
+            <FormControl fullWidth variant="outlined">
+              <InputLabel id="dhcp-format-label">{(t as any)('dhcp.format')}</InputLabel>
+              <Select
+                labelId="dhcp-format-label"
+                value={format}
+                onChange={(e) => setFormat(e.target.value as DhcpServerFormat)}
+                label={(t as any)('dhcp.format')}
+              >
+                {dhcpServerFormats.map(item => (
+                  <MenuItem key={item} value={item}>{(t as any)(`dhcp.formats.${item}`)}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+        </Grid>
+
+        {error ? (
+          <Alert severity="error" sx={{ mt: 3 }}>
+            {((t as any)(`dhcp.errors.${error}`) as string)
+              .replace('{first}', firstValidHost)
+              .replace('{last}', lastValidHost)}
+          </Alert>
+        ) : (
+          <Box sx={{ mt: 3 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center' }}>
+              <Typography variant="h6" sx={{ flexGrow: 1 }}>
+                {(t as any)(`dhcp.formats.${format}`)}
+              </Typography>
+              <Tooltip title={(t as any)('copy')}>
+                <IconButton
+                  size="small"
+                  onClick={() => navigator.clipboard.writeText(config)}
+                  aria-label={(t as any)('copy')}
+                >
+                  <ContentCopyIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            </Box>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              {((t as any)('dhcp.poolSummary') as string)
+                .replace('{count}', countPoolAddresses(ranges).toLocaleString())
+                .replace('{ranges}', ranges.map(range => `${range.start} - ${range.end}`).join(', '))}
+            </Typography>
+            <Box
+              component="pre"
+              sx={{
+                bgcolor: 'background.paper',
+                border: 1,
+                borderColor: 'divider',
+                p: 1,
+                borderRadius: 1,
+                overflow: 'auto',
+                maxHeight: 400,
+                fontSize: '0.85rem',
+                fontFamily: 'monospace',
+                color: 'text.primary',
+                m: 0
+              }}
+            >
+              {config}
+            </Box>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DhcpScopeGenerator;
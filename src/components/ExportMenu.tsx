@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button, Menu, MenuItem } from '@mui/material';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import { exportFormats, downloadTable, ExportFormat, ExportTable } from '../utils/exportUtils';
+
+interface ExportMenuProps {
+  // Built when a format is picked, so large tables are not converted on every render
+  getTable: () => ExportTable;
+  fileName: string;
+  disabled?: boolean;
+  size?: 'small' | 'medium';
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ getTable, fileName, disabled = false, size = 'medium' }) => {
+  const { t } = useTranslation();
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+
+  const handleExport = (format: ExportFormat) => {
+    setAnchor(null);
+    downloadTable(getTable(), format, fileName);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        size={size}
+        startIcon={<FileDownloadIcon />}
+        onClick={(e) => setAnchor(e.currentTarget)}
+        disabled={disabled}
+      >
+        {(t as any)('export.title')}
+      </Button>
+      <Menu anchorEl={anchor} open={anchor !== null} onClose={() => setAnchor(null)}>
+        {exportFormats.map(format => (
+          <MenuItem key={format} onClick={() => handleExport(format)}>
+            {(t as any)(`export.formats.${format}`)}
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Button,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Box,
+  Alert,
+  Chip,
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import PlaylistAddIcon from '@mui/icons-material/PlaylistAdd';
+import { IPResult, Subnet, intToIp, cidrSize } from '../utils/ipUtils';
+import {
+  parseCidr,
+  parseCidrList,
+  findFreeSpace,
+  subnetsToCidrs,
+  rangesToCidrs,
+  formatCidr,
+  FreeSpaceResult
+} from '../utils/cidrUtils';
+
+interface FreeSpaceFinderProps {
+  result: IPResult | null;
+  subnets: Subnet[];
+}
+
+const FreeSpaceFinder: React.FC<FreeSpaceFinderProps> = ({ result, subnets }) => {
+  const { t } = useTranslation();
+  const [parentText, setParentText] = useState('');
+  const [usedText, setUsedText] = useState('');
+  const [error, setError] = useState('');
+  const [freeSpace, setFreeSpace] = useState<FreeSpaceResult | null>(null);
+
+  const handleUseSubnets = () => {
+    if (!parentText.trim() && result) {
+      setParentText(`${result.networkAddress}/${result.cidr}`);
+    }
+    setUsedText(subnetsToCidrs(subnets).map(formatCidr).join('\n'));
+    setFreeSpace(null);
+  };
+
+  const handleFind = () => {
+    const parent = parseCidr(parentText);
+    const { blocks, invalidEntries } = parseCidrList(usedText);
+    const invalid = parent ? invalidEntries : [parentText.trim()].concat(invalidEntries);
+
+    if (!parent || invalid.length > 0) {
+      setError(((t as any)('summarization.invalidEntries') as string).replace('{entries}', invalid.join(', ')));
+      setFreeSpace(null);
+      return;
+    }
+
+    setError('');
+    setFreeSpace(findFreeSpace(parent, blocks));
+  };
+
+  const largest = freeSpace && freeSpace.largestFreeRange;
+
+  return (
+    <Card elevation={3} sx={{ mt: 3, mb: 3 }}>
+      <CardContent>
+        <Typography variant="h5" gutterBottom>
+          {(t as any)('freeSpace.title')}
+        </Typography>
+
+        <Grid container spacing={2}>
+          <Grid item xs={12} sm={8}>
+            <TextField
+              fullWidth
+              label={(t as any)('freeSpace.parent')}
+              value={parentText}
+              onChange={(e) => setParentText(e.target.value)}
+              placeholder="10.0.0.0/16"
+              sx={{ mb: 2 }}
+            />
+            <TextField
+              fullWidth
+              multiline
+              minRows={3}
+              label={(t as any)('freeSpace.used')}
+              value={usedText}
+              onChange={(e) => setUsedText(e.target.value)}
+              error={!!error}
+              helperText={error || (t as any)('summarization.prefixesHelp')}
+              placeholder={'10.0.0.0/24\n10.0.4.0/22'}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+              <Button
+                variant="contained"
+                color="primary"
+                startIcon={<SearchIcon />}
+                onClick={handleFind}
+                disabled={!parentText.trim()}
+                fullWidth
+              >
+                {(t as any)('freeSpace.find')}
+              </Button>
+              <Button
+                variant="outlined"
+                onClick={() => result && setParentText(`${result.networkAddress}/${result.cidr}`)}
+                disabled={!result}
+                fullWidth
+              >
+                {(t as any)('ipam.useCurrent')}
+              </Button>
+              <Button
+                variant="outlined"
+                startIcon={<PlaylistAddIcon />}
+                onClick={handleUseSubnets}
+                disabled={subnets.length === 0}
+                fullWidth
+              >
+                {(t as any)('overlap.useSubnets')}
+              </Button>
+            </Box>
+          </Grid>
+        </Grid>
+
+        {freeSpace && freeSpace.outsideParent.length > 0 && (
+          <Alert severity="warning" sx={{ mt: 3 }}>
+            {((t as any)('freeSpace.outsideParent') as string)
+              .replace('{prefixes}', freeSpace.outsideParent.map(formatCidr).join(', '))}
+          </Alert>
+        )}
+
+        {freeSpace && (
+          <Box sx={{ mt: 4 }}>
+            <Typography variant="h6" gutterBottom>
+              {((t as any)('freeSpace.summary') as string)
+                .replace('{free}', freeSpace.freeAddresses.toLocaleString())
+                .replace('{total}', freeSpace.totalAddresses.toLocaleString())
+                .replace('{used}', freeSpace.usedAddresses.toLocaleString())}
+            </Typography>
+
+            {freeSpace.freeBlocks.length === 0 ? (
+              <Alert severity="info">
+                {(t as any)('freeSpace.noFreeSpace')}
+              </Alert>
+            ) : (
+              <>
+                {largest && (
+                  <Typography variant="body1" sx={{ mb: 2 }}>
+                    <strong>{(t as any)('freeSpace.largest')}:</strong>{' '}
+                    <Box component="span" fontFamily="monospace">
+                      {intToIp(largest.start)} - {intToIp(largest.end)}
+                    </Box>{' '}
+                    ({((t as any)('freeSpace.largestDetail') as string)
+                      .replace('{addresses}', (largest.end - largest.start + 1).toLocaleString())
+                      .replace('{prefixes}', rangesToCidrs([largest]).map(formatCidr).join(', '))})
+                  </Typography>
+                )}
+
+                <TableContainer component={Paper} sx={{ maxHeight: 400, overflowY: 'auto' }}>
+                  <Table size="small" stickyHeader>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>{(t as any)('freeSpace.blockSize')}</TableCell>
+                        <TableCell>{(t as any)('freeSpace.count')}</TableCell>
+                        <TableCell>{(t as any)('freeSpace.blocks')}</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {freeSpace.groups.map((group) => (
+                        <TableRow key={group.cidr}>
+                          <TableCell>
+                            /{group.cidr} ({cidrSize(group.cidr).toLocaleString()})
+                          </TableCell>
+                          <TableCell>{group.blocks.length}</TableCell>
+                          <TableCell>
+                            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                              {group.blocks.map((block) => (
+                                <Chip
+                                  key={formatCidr(block)}
+                                  size="small"
+                                  label={formatCidr(block)}
+                                  variant="outlined"
+                                  sx={{ fontFamily: 'monospace' }}
+                                />
+                              ))}
+                            </Box>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </>
+            )}
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FreeSpaceFinder;
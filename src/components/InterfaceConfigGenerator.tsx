@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Box,
+  Alert,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import { IPResult, Subnet } from '../utils/ipUtils';
+import {
+  configPlatforms,
+  defaultInterfaceNames,
+  defaultRoles,
+  toInterfaceNetwork,
+  getGatewayAddress,
+  suggestHostAddress,
+  validateInterfaceConfig,
+  generateInterfaceConfig,
+  ConfigPlatform,
+  GatewayChoice,
+  InterfaceRole
+} from '../utils/interfaceConfigUtils';
+
+interface InterfaceConfigGeneratorProps {
+  result: IPResult;
+  subnets: Subnet[];
+}
+
+const InterfaceConfigGenerator: React.FC<InterfaceConfigGeneratorProps> = ({ result, subnets }) => {
+  const { t } = useTranslation();
+  // "network" for the calculated network, otherwise the id of a generated subnet
+  const [source, setSource] = useState('network');
+  const [platform, setPlatform] = useState<ConfigPlatform>('ciscoIos');
+  const [interfaceName, setInterfaceName] = useState(defaultInterfaceNames.ciscoIos);
+  const [role, setRole] = useState<InterfaceRole>(defaultRoles.ciscoIos);
+  const [gatewayChoice, setGatewayChoice] = useState<GatewayChoice>('first');
+  const [customGateway, setCustomGateway] = useState('');
+  const [addressText, setAddressText] = useState('');
+  const [dnsText, setDnsText] = useState('');
+  const [description, setDescription] = useState('');
+
+  const subnet = subnets.find(item => String(item.id) === source);
+  const network = toInterfaceNetwork(subnet || result);
+  const gateway = getGatewayAddress(network, gatewayChoice, customGateway);
+  const suggestedAddress = suggestHostAddress(network, gateway) || '';
+  const options = {
+    interfaceName: interfaceName.trim(),
+    role,
+    gateway,
+    address: addressText.trim() || suggestedAddress,
+    dnsServers: dnsText.split(/[\s,;]+/).filter(server => server !== ''),
+    description: description.trim()
+  };
+  const error = validateInterfaceConfig(network, options);
+  const config = error ? '' : generateInterfaceConfig(platform, network, options);
+
+  const handlePlatformChange = (value: ConfigPlatform) => {
+    // Interface names differ between platforms, so the default of the new one replaces the old
+    setPlatform(value);
+    setInterfaceName(defaultInterfaceNames[value]);
+    setRole(defaultRoles[value]);
+  };
+
+  return (
+    <Card elevation={3} sx={{ mt: 3, mb: 3 }}>
+      <CardContent>
+        <Typography variant="h5" gutterBottom>
+          {(t as any)('interfaceConfig.title')}
+        </Typography>
+
+        <Grid container spacing={2}>
+          <Grid item xs={12} sm={6} md={4}>
+            <FormControl fullWidth variant="outlined">
+              <InputLabel id="interface-config-source-label">{(t as any)('interfaceConfig.source')}</InputLabel>
+              <Select
+                labelId="interface-config-source-label"
+                value={subnet ? source : 'network'}
+                onChange={(e) => setSource(e.target.value)}
+                label={(t as any)('interfaceConfig.source')}
+              >
+                <MenuItem value="network">
+                  {result.networkAddress}/{result.cidr}
+                </MenuItem>
+                {subnets.map(item => (
+                  <MenuItem key={item.id} value={String(item.id)}>
+                    #{item.id} {item.networkAddress}/{item.cidr}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={6} md={4}>
+            <FormControl fullWidth variant="outlined">
+              <InputLabel id="interface-config-platform-label">{(t as any)('interfaceConfig.platform')}</InputLabel>
+              <Select
+                labelId="interface-config-platform-label"
+                value={platform}
+                onChange={(e) => handlePlatformChange(e.target.value as ConfigPlatform)}
+                label={(t as any)('interfaceConfig.platform')}
+              >
+                {configPlatforms.map(item => (
+                  <MenuItem key={item} value={item}>{(t as any)(`interfaceConfig.platforms.${item}`)}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={6} md={4}>
+            <TextField
+              fullWidth
+              label={(t as any)('interfaceConfig.interfaceName')}
+              value={interfaceName}
+              onChange={(e) => setInterfaceName(e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={4}>
+            <FormControl fullWidth variant="outlined">
+              <InputLabel id="interface-config-role-label">{(t as any)('interfaceConfig.role')}</InputLabel>
+              <Select
+                labelId="interface-config-role-label"
+                value={role}
+                onChange={(e) => setRole(e.target.value as InterfaceRole)}
+                label={(t as any)('interfaceConfig.role')}
+              >
+                <MenuItem value="gateway">{(t as any)('interfaceConfig.roles.gateway')}</MenuItem>
+                <MenuItem value="host">{(t as any)('interfaceConfig.roles.host')}</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={6} md={4}>
+            <FormControl fullWidth variant="outlined">
+              <InputLabel id="interface-config-gateway-label">{(t as any)('interfaceConfig.gateway')}</InputLabel>
+              <Select
+                labelId="interface-config-gateway-label"
+                value={gatewayChoice}
+                onChange={(e) => setGatewayChoice(e.target.value as GatewayChoice)}
+                label={(t as any)('interfaceConfig.gateway')}
+              >
+                <MenuItem value="first">
+                  {((t as any)('interfaceConfig.gatewayChoices.first') as string).replace('{ip}', network.firstHost)}
+                </MenuItem>
+                <MenuItem value="last">
+                  {((t as any)('interfaceConfig.gatewayChoices.last') as string).replace('{ip}', network.lastHost)}
+                </MenuItem>
+                <MenuItem value="custom">{(t as any)('interfaceConfig.gatewayChoices.custom')}</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+          {gatewayChoice === 'custom' && (
+            <Grid item xs={12} sm={6} md={4}>
+              <TextField
+                fullWidth
+                label={(t as any)('interfaceConfig.customGateway')}
+                value={customGateway}
+                onChange={(e) => setCustomGateway(e.target.value)}
+                placeholder={network.firstHost}
+              />
+            </Grid>
+          )}
+          {role === 'host' && (
+            <Grid item xs={12} sm={6} md={4}>
+              <TextField
+                fullWidth
+                label={(t as any)('interfaceConfig.address')}
+                value={addressText}
+                onChange={(e) => setAddressText(e.target.value)}
+                placeholder={suggestedAddress}
+                helperText={(t as any)('interfaceConfig.addressHelp')}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Grid>
+          )}
+          <Grid item xs={12} sm={6} md={4}>
+            <TextField
+              fullWidth
+              label={(t as any)('interfaceConfig.dnsServers')}
+              value={dnsText}
+              onChange={(e) => setDnsText(e.target.value)}
+              placeholder="1.1.1.1, 8.8.8.8"
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={4}>
+            <TextField
+              fullWidth
+              label={(t as any)('interfaceConfig.description')}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </Grid>
+        </Grid>
+
+        {error ? (
+          <Alert severity="error" sx={{ mt: 3 }}>
+            {((t as any)(`interfaceConfig.errors.${error}`) as string)
+              .replace('{first}', network.firstHost)
+              .replace('{last}', network.lastHost)}
+          </Alert>
+        ) : (
+          <Box sx={{ mt: 3 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center' }}>
+              <Typography variant="h6" sx={{ flexGrow: 1 }}>
+                {(t as any)(`interfaceConfig.platforms.${platform}`)}
+              </Typography>
+              <Tooltip title={(t as any)('copy')}>
+                <IconButton
+                  size="small"
+                  onClick={() => navigator.clipboard.writeText(config)}
+                  aria-label={(t as any)('copy')}
+                >
+                  <ContentCopyIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            </Box>
+            <Box
+              component="pre"
+              sx={{
+                bgcolor: 'background.paper',
+                border: 1,
+                borderColor: 'divider',
+                p: 1,
+                borderRadius: 1,
+                overflow: 'auto',
+                maxHeight: 400,
+                fontSize: '0.85rem',
+                fontFamily: 'monospace',
+                color: 'text.primary',
+                m: 0
+              }}
+            >
+              {config}
+            </Box>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InterfaceConfigGenerator;
@@ -0,0 +1,18 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import i18n from '../i18n/i18n';
+import IpForm from './IpForm';
+
+beforeAll(() => i18n.changeLanguage('en'));
+
+test('follows the prefix given by the page after it opened', () => {
+  const onCalculate = jest.fn();
+  const { rerender } = render(<IpForm onCalculate={onCalculate} initialIp="192.168.1.10" initialCidr={24} />);
+  expect(screen.getByText('/24 (255.255.255.0)')).toBeInTheDocument();
+
+  rerender(<IpForm onCalculate={onCalculate} initialIp="192.168.1.10" initialCidr={20} />);
+  expect(screen.getByText('/20 (255.255.240.0)')).toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('button', { name: 'Calculate' }));
+  expect(onCalculate).toHaveBeenCalledWith('192.168.1.10', 20);
+});
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
   Card,
@@ -15,31 +15,86 @@ import {
   SelectChangeEvent,
 } from '@mui/material';
 import CalculateIcon from '@mui/icons-material/Calculate';
-import { isValidIP, ipToBinary } from '../utils/ipUtils';
+import { ipToBinary, cidrToSubnetMask } from '../utils/ipUtils';
+import { expandIPv6 } from '../utils/ipv6Utils';
+import { parseAddressInput, ParsedAddress } from '../utils/addressParser';
 
 interface IpFormProps {
   onCalculate: (ip: string, cidr: number) => void;
+  // Address shown when the form opens, e.g. from a shared link
+  initialIp?: string;
+  initialCidr?: number;
 }
 
-const IpForm: React.FC<IpFormProps> = ({ onCalculate }) => {
+const IpForm: React.FC<IpFormProps> = ({ onCalculate, initialIp = '', initialCidr = 24 }) => {
   const { t } = useTranslation();
-  const [ip, setIp] = useState('');
-  const [cidr, setCidr] = useState(24);
+  const [ip, setIp] = useState(initialIp);
+  const [cidr, setCidr] = useState(initialCidr);
   const [ipError, setIpError] = useState('');
-  const [binaryIp, setBinaryIp] = useState('');
+  const [parsed, setParsed] = useState<ParsedAddress | null>(() => (initialIp ? parseAddressInput(initialIp) : null));
+  const [isIPv6, setIsIPv6] = useState(parsed !== null && parsed.version === 6);
+  const [binaryIp, setBinaryIp] = useState(parsed ? (isIPv6 ? expandIPv6(parsed.ip) : ipToBinary(parsed.ip)) : '');
+
+  // Follows the prefix of the calculation when it is changed elsewhere, such as in the mask editor
+  useEffect(() => {
+    setCidr(initialCidr);
+  }, [initialCidr]);
 
   const handleIpChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setIp(value);
-    if (value && !isValidIP(value)) {
-      setIpError((t as any)('validation.invalidIp'));
-      setBinaryIp('');
-    } else if (value) {
-      setIpError('');
-      setBinaryIp(ipToBinary(value));
-    } else {
+
+    if (!value) {
       setIpError('');
       setBinaryIp('');
+      setParsed(null);
+      return;
+    }
+
+    const result = parseAddressInput(value);
+    setParsed(result);
+
+    if (!result) {
+      setIpError((t as any)('validation.invalidIp'));
+      setBinaryIp('');
+      return;
+    }
+
+    const ipv6 = result.version === 6;
+    setIpError('');
+    setBinaryIp(ipv6 ? expandIPv6(result.ip) : ipToBinary(result.ip));
+
+    // Fills the prefix from the input, or switches the prefix list when the address family changes
+    if (result.cidr !== null) {
+      setCidr(result.cidr);
+    } else if (ipv6 !== isIPv6) {
+      setCidr(ipv6 ? 64 : 24);
+    }
+    setIsIPv6(ipv6);
+  };
+
+  // Describes how the input was understood
+  const describeInput = (address: ParsedAddress): string => {
+    const describe = (key: string) => ((t as any)(`addressParser.${key}`) as string)
+      .replace('{ip}', address.ip)
+      .replace('{cidr}', String(address.cidr))
+      .replace('{source}', address.source || '')
+      .replace('{start}', address.rangeStart || '')
+      .replace('{end}', address.rangeEnd || '')
+      .replace('{count}', String(address.rangeBlockCount));
+
+    switch (address.notation) {
+      case 'plain':
+        return '';
+      case 'ipv6':
+        return describe(address.cidr === null ? 'ipv6' : 'ipv6Prefix');
+      case 'hex':
+      case 'integer':
+        return describe(address.cidr === null ? address.notation : `${address.notation}Prefix`);
+      case 'range':
+        return describe(address.exactRange ? 'range' : 'rangeCovering');
+      default:
+        return describe(address.notation);
     }
   };
 
@@ -55,12 +110,12 @@ const IpForm: React.FC<IpFormProps> = ({ onCalculate }) => {
       return;
     }
     
-    if (!isValidIP(ip)) {
+    if (!parsed) {
       setIpError((t as any)('validation.enterValidIp'));
       return;
     }
     
-    onCalculate(ip, cidr);
+    onCalculate(parsed.ip, cidr);
   };
 
   return (
@@ -79,27 +134,38 @@ const IpForm: React.FC<IpFormProps> = ({ onCalculate }) => {
                 value={ip}
                 onChange={handleIpChange}
                 error={!!ipError}
-                helperText={ipError || (binaryIp && `${(t as any)('results.binarySubnetMask')}: ${binaryIp}`)}
-                placeholder="192.168.1.1"
+                helperText={ipError || (parsed && (
+                  <>
+                    {describeInput(parsed) && <>{describeInput(parsed)}<br /></>}
+                    {`${(t as any)(isIPv6 ? 'results.expandedAddress' : 'results.binaryIpAddress')}: ${binaryIp}`}
+                  </>
+                ))}
+                placeholder="192.168.1.1/24, 10.0.0.0 255.0.0.0, 2001:db8::1"
               />
             </Grid>
             <Grid item xs={12} md={6}>
               <FormControl fullWidth variant="outlined">
                 <InputLabel id="cidr-select-label">
-                  {(t as any)('subnetMask')}
+                  {(t as any)(isIPv6 ? 'prefixLength' : 'subnetMask')}
                 </InputLabel>
                 <Select
                   labelId="cidr-select-label"
                   id="cidr-select"
                   value={cidr}
                   onChange={handleCidrChange}
-                  label={(t as any)('subnetMask')}
+                  label={(t as any)(isIPv6 ? 'prefixLength' : 'subnetMask')}
                 >
-                  {Array.from({ length: 31 }, (_, i) => i + 1).map((num) => (
-                    <MenuItem key={num} value={num}>
-                      /{num} ({cidrToSubnetMaskString(num)})
-                    </MenuItem>
-                  ))}
+                  {isIPv6
+                    ? Array.from({ length: 129 }, (_, i) => i).map((num) => (
+                      <MenuItem key={num} value={num}>
+                        /{num}
+                      </MenuItem>
+                    ))
+                    : Array.from({ length: 33 }, (_, i) => i).map((num) => (
+                      <MenuItem key={num} value={num}>
+                        /{num} ({cidrToSubnetMask(num)})
+                      </MenuItem>
+                    ))}
                 </Select>
               </FormControl>
             </Grid>
@@ -122,15 +188,4 @@ const IpForm: React.FC<IpFormProps> = ({ onCalculate }) => {
   );
 };
 
-// Função auxiliar para converter CIDR em string de máscara
-function cidrToSubnetMaskString(cidr: number): string {
-  const mask = ~(0xffffffff >>> cidr) >>> 0;
-  return [
-    (mask >>> 24) & 255,
-    (mask >>> 16) & 255,
-    (mask >>> 8) & 255,
-    mask & 255,
-  ].join('.');
-}
-
 export default IpForm;
@@ -0,0 +1,447 @@
+import React, { useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Button,
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  SelectChangeEvent,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Box,
+  Alert,
+  IconButton,
+  Tooltip,
+  LinearProgress,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import PlaylistAddIcon from '@mui/icons-material/PlaylistAdd';
+import CollapsibleSection from './CollapsibleSection';
+import { IPResult, cidrToSubnetMask } from '../utils/ipUtils';
+import { parseCidr, formatCidr } from '../utils/cidrUtils';
+import {
+  IpamWorkspace as Workspace,
+  IpamPool,
+  IpamChange,
+  IpamError,
+  addPool,
+  removePool,
+  allocateSubnet,
+  allocateNextFree,
+  removeAllocation,
+  getPoolAllocations,
+  getPoolUtilization,
+  serializeWorkspace,
+  parseWorkspace
+} from '../utils/ipamUtils';
+import { downloadFile } from '../utils/exportUtils';
+import useIpamWorkspace from '../hooks/useIpamWorkspace';
+
+interface IpamWorkspaceProps {
+  result: IPResult | null;
+}
+
+interface PoolPanelProps {
+  pool: IpamPool;
+  workspace: Workspace;
+  onChange: (workspace: Workspace) => void;
+}
+
+const PoolPanel: React.FC<PoolPanelProps> = ({ pool, workspace, onChange }) => {
+  const { t } = useTranslation();
+  const [subnetText, setSubnetText] = useState('');
+  const [prefix, setPrefix] = useState(Math.min(pool.cidr + 2, 32));
+  const [name, setName] = useState('');
+  const [vlan, setVlan] = useState('');
+  const [owner, setOwner] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+
+  const allocations = getPoolAllocations(workspace, pool.id);
+  const utilization = getPoolUtilization(workspace, pool);
+
+  const handleAllocate = () => {
+    const vlanId = vlan.trim() === '' ? null : Number(vlan);
+    if (vlanId !== null && (!Number.isInteger(vlanId) || vlanId < 1 || vlanId > 4094)) {
+      setError((t as any)('ipam.errors.invalidVlan'));
+      return;
+    }
+
+    const details = { name, vlan: vlanId, owner, notes };
+    let change: IpamChange;
+
+    if (subnetText.trim()) {
+      const block = parseCidr(subnetText);
+      if (!block) {
+        setError(((t as any)('ipam.errors.invalidNetwork') as string).replace('{network}', subnetText.trim()));
+        return;
+      }
+      change = allocateSubnet(workspace, pool.id, block, details);
+    } else {
+      change = allocateNextFree(workspace, pool.id, prefix, details);
+    }
+
+    if (change.error) {
+      setError((t as any)(`ipam.errors.${change.error}`));
+      return;
+    }
+
+    setError('');
+    setSubnetText('');
+    setName('');
+    setVlan('');
+    setOwner('');
+    setNotes('');
+    onChange(change.workspace);
+  };
+
+  return (
+    <CollapsibleSection title={`${pool.name} (${formatCidr(pool)})`}>
+      {pool.description && (
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          {pool.description}
+        </Typography>
+      )}
+
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+        <Box sx={{ flexGrow: 1, mr: 2 }}>
+          <LinearProgress
+            variant="determinate"
+            value={utilization.percent}
+            color={utilization.percent >= 90 ? 'error' : utilization.percent >= 70 ? 'warning' : 'primary'}
+          />
+          <Typography variant="caption" color="text.secondary">
+            {((t as any)('ipam.utilization') as string)
+              .replace('{percent}', utilization.percent.toFixed(1))
+              .replace('{allocated}', utilization.allocatedAddresses.toLocaleString())
+              .replace('{total}', utilization.totalAddresses.toLocaleString())}
+          </Typography>
+        </Box>
+        <Tooltip title={(t as any)('ipam.removePool')}>
+          <IconButton
+            onClick={() => onChange(removePool(workspace, pool.id))}
+            aria-label={(t as any)('ipam.removePool')}
+          >
+            <DeleteIcon />
+          </IconButton>
+        </Tooltip>
+      </Box>
+
+      <Grid container spacing={2} alignItems="center">
+        <Grid item xs={12} sm={6} md={3}>
+          <FormControl fullWidth variant="outlined" size="small">
+            <InputLabel id={`ipam-prefix-${pool.id}`}>
+              {(t as any)('ipam.blockSize')}
+            </InputLabel>
+            <Select
+              labelId={`ipam-prefix-${pool.id}`}
+              value={prefix}
+              onChange={(e: SelectChangeEvent<number>) => setPrefix(Number(e.target.value))}
+              label={(t as any)('ipam.blockSize')}
+              disabled={!!subnetText.trim()}
+            >
+              {Array.from({ length: 33 - pool.cidr }, (_, i) => pool.cidr + i).map((num) => (
+                <MenuItem key={num} value={num}>
+                  /{num} ({cidrToSubnetMask(num)})
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+        <Grid item xs={12} sm={6} md={3}>
+          <TextField
+            fullWidth
+            size="small"
+            label={(t as any)('ipam.subnet')}
+            value={subnetText}
+            onChange={(e) => setSubnetText(e.target.value)}
+            placeholder={(t as any)('ipam.nextFree')}
+          />
+        </Grid>
+        <Grid item xs={12} sm={6} md={3}>
+          <TextField
+            fullWidth
+            size="small"
+            label={(t as any)('ipam.name')}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </Grid>
+        <Grid item xs={12} sm={6} md={3}>
+          <TextField
+            fullWidth
+            size="small"
+            label={(t as any)('ipam.vlan')}
+            value={vlan}
+            onChange={(e) => setVlan(e.target.value)}
+            inputProps={{ inputMode: 'numeric' }}
+          />
+        </Grid>
+        <Grid item xs={12} sm={6} md={3}>
+          <TextField
+            fullWidth
+            size="small"
+            label={(t as any)('ipam.owner')}
+            value={owner}
+            onChange={(e) => setOwner(e.target.value)}
+          />
+        </Grid>
+        <Grid item xs={12} sm={6} md={6}>
+          <TextField
+            fullWidth
+            size="small"
+            label={(t as any)('ipam.notes')}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </Grid>
+        <Grid item xs={12} md={3}>
+          <Button
+            variant="contained"
+            color="primary"
+            startIcon={<PlaylistAddIcon />}
+            onClick={handleAllocate}
+            fullWidth
+          >
+            {(t as any)(subnetText.trim() ? 'ipam.allocate' : 'ipam.allocateNext')}
+          </Button>
+        </Grid>
+      </Grid>
+
+      {error && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {allocations.length > 0 && (
+        <TableContainer component={Paper} sx={{ mt: 2, maxHeight: 400, overflowY: 'auto' }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell>{(t as any)('ipam.subnet')}</TableCell>
+                <TableCell>{(t as any)('ipam.name')}</TableCell>
+                <TableCell>{(t as any)('ipam.vlan')}</TableCell>
+                <TableCell>{(t as any)('ipam.owner')}</TableCell>
+                <TableCell>{(t as any)('ipam.notes')}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {allocations.map((allocation) => (
+                <TableRow key={allocation.id}>
+                  <TableCell>
+                    <Typography variant="body2" fontFamily="monospace">
+                      {formatCidr(allocation)}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>{allocation.name}</TableCell>
+                  <TableCell>{allocation.vlan ?? ''}</TableCell>
+                  <TableCell>{allocation.owner}</TableCell>
+                  <TableCell>{allocation.notes}</TableCell>
+                  <TableCell align="right">
+                    <Tooltip title={(t as any)('ipam.release')}>
+                      <IconButton
+                        size="small"
+                        onClick={() => onChange(removeAllocation(workspace, allocation.id))}
+                        aria-label={(t as any)('ipam.release')}
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </CollapsibleSection>
+  );
+};
+
+const IpamWorkspace: React.FC<IpamWorkspaceProps> = ({ result }) => {
+  const { t } = useTranslation();
+  const { workspace, loaded, storageError, updateWorkspace } = useIpamWorkspace();
+  const [poolText, setPoolText] = useState('');
+  const [poolName, setPoolName] = useState('');
+  const [poolDescription, setPoolDescription] = useState('');
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const showError = (key: IpamError | 'invalidFile') => {
+    setError((t as any)(`ipam.errors.${key}`));
+  };
+
+  const handleAddPool = () => {
+    const block = parseCidr(poolText);
+    if (!block) {
+      setError(((t as any)('ipam.errors.invalidNetwork') as string).replace('{network}', poolText.trim()));
+      return;
+    }
+
+    const change = addPool(workspace, block, poolName, poolDescription);
+    if (change.error) {
+      showError(change.error);
+      return;
+    }
+
+    setError('');
+    setPoolText('');
+    setPoolName('');
+    setPoolDescription('');
+    updateWorkspace(change.workspace);
+  };
+
+  const handleExport = () => {
+    downloadFile(serializeWorkspace(workspace), 'application/json', 'ipam-workspace.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files && e.target.files[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    const imported = parseWorkspace(await file.text());
+    if (!imported.workspace) {
+      if (imported.error && imported.error !== 'invalidFile') {
+        setError(((t as any)(`ipam.importErrors.${imported.error}`) as string).replace('{entry}', imported.entry || ''));
+      } else {
+        showError('invalidFile');
+      }
+      return;
+    }
+
+    setError('');
+    updateWorkspace(imported.workspace);
+  };
+
+  return (
+    <Card elevation={3} sx={{ mt: 3, mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+          <Typography variant="h5" sx={{ flexGrow: 1 }}>
+            {(t as any)('ipam.title')}
+          </Typography>
+          <Button
+            variant="outlined"
+            startIcon={<FileDownloadIcon />}
+            onClick={handleExport}
+            disabled={workspace.pools.length === 0}
+          >
+            {(t as any)('ipam.export')}
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<FileUploadIcon />}
+            onClick={() => fileInputRef.current && fileInputRef.current.click()}
+          >
+            {(t as any)('ipam.import')}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            hidden
+            onChange={handleImport}
+          />
+        </Box>
+
+        {storageError && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {(t as any)('ipam.errors.storage')}
+          </Alert>
+        )}
+
+        <Grid container spacing={2} alignItems="center">
+          <Grid item xs={12} sm={6} md={3}>
+            <TextField
+              fullWidth
+              label={(t as any)('ipam.poolNetwork')}
+              value={poolText}
+              onChange={(e) => setPoolText(e.target.value)}
+              placeholder="10.0.0.0/16"
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={3}>
+            <TextField
+              fullWidth
+              label={(t as any)('ipam.name')}
+              value={poolName}
+              onChange={(e) => setPoolName(e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12} md={3}>
+            <TextField
+              fullWidth
+              label={(t as any)('ipam.description')}
+              value={poolDescription}
+              onChange={(e) => setPoolDescription(e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12} md={3}>
+            <Button
+              variant="contained"
+              color="primary"
+              startIcon={<AddIcon />}
+              onClick={handleAddPool}
+              disabled={!poolText.trim()}
+              fullWidth
+            >
+              {(t as any)('ipam.addPool')}
+            </Button>
+            {result && (
+              <Button
+                size="small"
+                onClick={() => setPoolText(`${result.networkAddress}/${result.cidr}`)}
+                fullWidth
+                sx={{ mt: 1 }}
+              >
+                {(t as any)('ipam.useCurrent')}
+              </Button>
+            )}
+          </Grid>
+        </Grid>
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loaded && workspace.pools.length === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            {(t as any)('ipam.empty')}
+          </Typography>
+        )}
+
+        {workspace.pools.map((pool) => (
+          <PoolPanel
+            key={pool.id}
+            pool={pool}
+            workspace={workspace}
+            onChange={updateWorkspace}
+          />
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default IpamWorkspace;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import i18n from '../i18n/i18n';
+import MaskEditor from './MaskEditor';
+
+beforeAll(() => i18n.changeLanguage('en'));
+
+test('moves the prefix to the clicked mask bit', () => {
+  const onCidrChange = jest.fn();
+  render(<MaskEditor ip="192.168.1.77" cidr={24} onCidrChange={onCidrChange} />);
+
+  fireEvent.click(screen.getByRole('button', { name: 'Mask bit 20' }));
+  expect(onCidrChange).toHaveBeenLastCalledWith(20);
+  expect(screen.getByText('192.168.0.0/20')).toBeInTheDocument();
+
+  // Clicking the last network bit gives it back to the hosts
+  fireEvent.click(screen.getByRole('button', { name: 'Mask bit 20' }));
+  expect(onCidrChange).toHaveBeenLastCalledWith(19);
+});
+
+test('reports the prefix chosen with the slider', () => {
+  const onCidrChange = jest.fn();
+  render(<MaskEditor ip="10.0.0.1" cidr={8} onCidrChange={onCidrChange} />);
+
+  fireEvent.change(screen.getByRole('slider', { name: 'Prefix length' }), { target: { value: 16 } });
+  expect(onCidrChange).toHaveBeenCalledWith(16);
+  expect(screen.getByText('10.0.0.0/16')).toBeInTheDocument();
+});
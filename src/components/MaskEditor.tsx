@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Grid,
+  Box,
+  ButtonBase,
+  Slider,
+  Chip,
+  Tooltip,
+} from '@mui/material';
+import { calculateIPInfo, generateBinaryAndOperation } from '../utils/ipUtils';
+
+interface MaskEditorProps {
+  ip: string;
+  cidr: number;
+  // Called when a bit is clicked or the boundary is released, not while dragging
+  onCidrChange: (cidr: number) => void;
+}
+
+// Boundaries of the octets, marked on the slider
+const sliderMarks = [0, 8, 16, 24, 32].map(value => ({ value, label: `/${value}` }));
+
+/**
+ * Bit clicked on the mask row: the prefix ends after it, or before it when it already is the last network bit
+ */
+const prefixForBit = (index: number, prefix: number): number => {
+  return prefix === index + 1 ? index : index + 1;
+};
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ ip, cidr, onCidrChange }) => {
+  const { t } = useTranslation();
+  const [prefix, setPrefix] = useState(cidr);
+
+  // Follows the prefix of the calculation when it changes elsewhere
+  useEffect(() => {
+    setPrefix(cidr);
+  }, [cidr]);
+
+  const info = calculateIPInfo(ip, prefix);
+  const operation = generateBinaryAndOperation(ip, info.subnetMask);
+
+  const handleBitClick = (index: number) => {
+    const next = prefixForBit(index, prefix);
+    setPrefix(next);
+    onCidrChange(next);
+  };
+
+  // One row of the AND operation, with the network bits highlighted
+  const renderBits = (bits: string, interactive: boolean) => (
+    <Box sx={{ display: 'flex', flexGrow: 1, minWidth: 0 }}>
+      {bits.split('').map((bit, index) => {
+        const network = index < prefix;
+        const cell = (
+          <Box
+            component={interactive ? ButtonBase : 'span'}
+            onClick={interactive ? () => handleBitClick(index) : undefined}
+            aria-label={interactive ? ((t as any)('maskEditor.bitLabel') as string).replace('{bit}', String(index + 1)) : undefined}
+            sx={{
+              flex: 1,
+              minWidth: 0,
+              py: 0.5,
+              mr: index % 8 === 7 && index < 31 ? { xs: 0.5, sm: 1 } : '1px',
+              fontFamily: 'monospace',
+              fontSize: { xs: '0.7rem', sm: '0.9rem' },
+              textAlign: 'center',
+              borderRadius: 0.5,
+              bgcolor: network ? 'primary.main' : 'success.main',
+              color: network ? 'primary.contrastText' : 'success.contrastText',
+              opacity: bit === '1' ? 1 : 0.65,
+            }}
+          >
+            {bit}
+          </Box>
+        );
+
+        return interactive ? (
+          <Tooltip key={index} title={`/${prefixForBit(index, prefix)}`}>
+            {cell}
+          </Tooltip>
+        ) : (
+          <React.Fragment key={index}>{cell}</React.Fragment>
+        );
+      })}
+    </Box>
+  );
+
+  const rows: { label: string; bits: string; value: string; interactive: boolean }[] = [
+    { label: 'maskEditor.address', bits: operation.ipBits, value: ip, interactive: false },
+    { label: 'subnetMask', bits: operation.maskBits, value: info.subnetMask, interactive: true },
+    { label: 'maskEditor.result', bits: operation.resultBits, value: info.networkAddress, interactive: false }
+  ];
+
+  const values: [string, string][] = [
+    ['results.networkAddress', `${info.networkAddress}/${prefix}`],
+    ['results.broadcastAddress', info.broadcastAddress],
+    ['results.wildcardMask', info.wildcardMask],
+    ['results.totalHosts', info.totalHosts.toLocaleString()],
+    ['results.usableHosts', info.usableHosts.toLocaleString()]
+  ];
+
+  return (
+    <Card elevation={3} sx={{ mt: 3, mb: 3 }}>
+      <CardContent>
+        <Typography variant="h5" gutterBottom>
+          {(t as any)('maskEditor.title')}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          {(t as any)('maskEditor.help')}
+        </Typography>
+
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', my: 2 }}>
+          <Chip
+            size="small"
+            label={((t as any)('maskEditor.networkBits') as string).replace('{count}', String(prefix))}
+            sx={{ bgcolor: 'primary.main', color: 'primary.contrastText' }}
+          />
+          <Chip
+            size="small"
+            label={((t as any)('maskEditor.hostBits') as string).replace('{count}', String(32 - prefix))}
+            sx={{ bgcolor: 'success.main', color: 'success.contrastText' }}
+          />
+        </Box>
+
+        {rows.map(row => (
+          <Box key={row.label} sx={{ mb: 1 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+              <Typography variant="caption" color="text.secondary">
+                {(t as any)(row.label)}
+              </Typography>
+              <Typography variant="caption" fontFamily="monospace">
+                {row.value}
+              </Typography>
+            </Box>
+            {renderBits(row.bits, row.interactive)}
+          </Box>
+        ))}
+
+        <Box sx={{ px: 1, mt: 2 }}>
+          <Slider
+            value={prefix}
+            min={0}
+            max={32}
+            step={1}
+            marks={sliderMarks}
+            valueLabelDisplay="auto"
+            valueLabelFormat={(value) => `/${value}`}
+            onChange={(_event, value) => setPrefix(value as number)}
+            onChangeCommitted={(_event, value) => {
+              if (value !== cidr) {
+                onCidrChange(value as number);
+              }
+            }}
+            aria-label={(t as any)('maskEditor.prefix')}
+          />
+        </Box>
+
+        <Grid container spacing={2} sx={{ mt: 1 }}>
+          {values.map(([label, value]) => (
+            <Grid item xs={12} sm={6} md={4} key={label}>
+              <Typography variant="caption" color="text.secondary">
+                {(t as any)(label)}
+              </Typography>
+              <Typography variant="body1" fontFamily="monospace">
+                {value}
+              </Typography>
+            </Grid>
+          ))}
+        </Grid>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MaskEditor;
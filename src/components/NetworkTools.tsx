@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, forwardRef, useImperativeHandle } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
   Card,
@@ -38,6 +38,9 @@ import CloseIcon from '@mui/icons-material/Close';
 import ErrorIcon from '@mui/icons-material/Error';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import TransformIcon from '@mui/icons-material/Transform';
+import AltRouteIcon from '@mui/icons-material/AltRoute';
+import TerminalIcon from '@mui/icons-material/Terminal';
 import { 
   pingHost, 
   checkMultiplePorts, 
@@ -49,10 +52,25 @@ import {
   commonPorts 
 } from '../utils/networkUtils';
 import { calculateIPInfo, isValidIP } from '../utils/ipUtils';
+import { ExportTable } from '../utils/exportUtils';
+import { HistoryRun, ToolRun } from '../utils/historyUtils';
 import CollapsibleSection from './CollapsibleSection';
+import ExportMenu from './ExportMenu';
+import RangeToCidr from './RangeToCidr';
+import RoutingTableSimulator from './RoutingTableSimulator';
+import RouteOutputImporter from './RouteOutputImporter';
 
 interface NetworkToolsProps {
   ip: string;
+  initialTab?: number;
+  onTabChange?: (tab: number) => void;
+  // Called after each ping, port scan and sweep, for the history
+  onToolRun?: (run: ToolRun) => void;
+}
+
+export interface NetworkToolsHandle {
+  // Runs a ping, port scan or sweep from the history again
+  rerun: (run: HistoryRun) => void;
 }
 
 interface TabPanelProps {
@@ -98,9 +116,9 @@ function SafeTooltip({ children, title, ...props }: React.ComponentProps<typeof
   );
 }
 
-const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
+const NetworkTools = forwardRef<NetworkToolsHandle, NetworkToolsProps>(({ ip, initialTab = 0, onTabChange, onToolRun }, ref) => {
   const { t } = useTranslation();
-  const [tabValue, setTabValue] = useState(0);
+  const [tabValue, setTabValue] = useState(initialTab);
   const [pingResult, setPingResult] = useState<PingResult | null>(null);
   const [isPinging, setIsPinging] = useState(false);
   const [portResults, setPortResults] = useState<PortResult[]>([]);
@@ -159,7 +177,7 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
   // Function to update CIDR and recalculate network information
   const handleCidrChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const newCidr = parseInt(event.target.value, 10);
-    if (newCidr >= 1 && newCidr <= 32) {
+    if (newCidr >= 0 && newCidr <= 32) {
       setCidrValue(newCidr);
       updateNetworkInfo(newCidr);
     }
@@ -170,6 +188,9 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
 
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setTabValue(newValue);
+    if (onTabChange) {
+      onTabChange(newValue);
+    }
   };
 
   const handlePing = async () => {
@@ -194,6 +215,7 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
       
       const result = await pingHost(ip);
       setPingResult(result);
+      reportRun({ kind: 'ping', responseTime: result.status === 'success' && result.time !== undefined ? result.time : null });
       
       // User feedback based on result
       if (result.status === 'success') {
@@ -226,6 +248,7 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
         timestamp: new Date()
       };
       setPingResult(errorResult);
+      reportRun({ kind: 'ping' });
       setPingHistory(prev => {
         const newHistory = [errorResult, ...prev];
         if (newHistory.length > 10) {
@@ -241,6 +264,13 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
     }
   };
 
+  // Reports a finished run, with empty values for the fields of the other tools
+  const reportRun = (run: Partial<ToolRun> & Pick<ToolRun, 'kind'>) => {
+    if (onToolRun) {
+      onToolRun({ ip, ports: [], openPorts: [], startIp: null, endIp: null, hostsUp: null, responseTime: null, ...run });
+    }
+  };
+
   // Function to show notifications to user
   const showNotification = (message: string, severity: 'success' | 'info' | 'warning' | 'error') => {
     setSnackbarMessage(message);
@@ -256,7 +286,7 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
     setSnackbarOpen(false);
   };
 
-  const handleCheckPorts = async () => {
+  const handleCheckPorts = async (ports: number[] = selectedPorts) => {
     // Input validation
     if (!ip) {
       showNotification((t as any)('validation.ipRequired'), 'error');
@@ -268,7 +298,7 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
       return;
     }
     
-    if (selectedPorts.length === 0) {
+    if (ports.length === 0) {
       setPortError((t as any)('networkTools.portScan.noPorts'));
       showNotification((t as any)('networkTools.portScan.noPorts'), 'warning');
       return;
@@ -279,11 +309,12 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
     setPortResults([]);
     
     try {
-      const results = await checkMultiplePorts(ip, selectedPorts);
+      const results = await checkMultiplePorts(ip, ports);
       setPortResults(results);
       
       // Check results
       const openPorts = results.filter(r => r.status === 'open');
+      reportRun({ kind: 'ports', ports, openPorts: openPorts.map(r => r.port) });
       if (openPorts.length > 0) {
         showNotification(
           ((t as any)('networkTools.portScan.openPortsFound') as string).replace('{count}', openPorts.length.toString()), 
@@ -342,6 +373,43 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
     setSelectedPorts(selectedPorts.filter(p => p !== port));
   };
 
+  // Tables offered by the export menus, with the same columns as the result tables
+  const getPingTable = (results: PingResult[]): ExportTable => ({
+    columns: [
+      { key: 'ip', header: (t as any)('ipAddress') },
+      { key: 'status', header: (t as any)('networkTools.ping.status') },
+      { key: 'time', header: `${(t as any)('networkTools.ping.time')} (ms)` },
+      { key: 'ttl', header: (t as any)('networkTools.ping.ttl') },
+      { key: 'timestamp', header: (t as any)('networkTools.ping.timestamp') },
+      { key: 'error', header: (t as any)('networkTools.ping.error') }
+    ],
+    rows: results.map(result => [
+      result.ip,
+      result.status === 'success' ? (t as any)('networkTools.ping.success') : (t as any)('networkTools.ping.failure'),
+      result.time !== undefined ? result.time : '',
+      result.ttl !== undefined ? result.ttl : '',
+      result.timestamp ? result.timestamp.toISOString() : '',
+      result.error || ''
+    ])
+  });
+
+  const getPortTable = (): ExportTable => ({
+    columns: [
+      { key: 'ip', header: (t as any)('ipAddress') },
+      { key: 'port', header: (t as any)('networkTools.portScan.port') },
+      { key: 'protocol', header: (t as any)('networkTools.portScan.protocol') },
+      { key: 'service', header: (t as any)('networkTools.portScan.service') },
+      { key: 'status', header: (t as any)('networkTools.portScan.status') }
+    ],
+    rows: portResults.map(result => [
+      result.ip,
+      result.port,
+      result.protocol,
+      commonPorts.find(p => p.port === result.port)?.service || (t as any)('networkTools.portScan.unknown'),
+      (t as any)(`networkTools.portScan.${result.status}`)
+    ])
+  });
+
   const getStatusIcon = (status: 'success' | 'error' | 'open' | 'closed') => {
     switch (status) {
       case 'success':
@@ -357,18 +425,18 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
   };
   
   // Function to scan a range of IPs
-  const handleIpRangeScan = async () => {
+  const handleIpRangeScan = async (start: string = startIp, end: string = endIp) => {
     // Clear previous errors
     setIpScanError('');
     
     // Input validation
-    if (!startIp || !endIp) {
+    if (!start || !end) {
       setIpScanError((t as any)('networkTools.ping.errors.provideIps'));
       showNotification((t as any)('networkTools.ping.errors.provideIps'), 'warning');
       return;
     }
     
-    if (!isValidIP(startIp) || !isValidIP(endIp)) {
+    if (!isValidIP(start) || !isValidIP(end)) {
       setIpScanError((t as any)('networkTools.ping.errors.validIps'));
       showNotification((t as any)('networkTools.ping.errors.validIps'), 'error');
       return;
@@ -379,7 +447,7 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
     
     try {
       // IP range validation
-      const ips = calculateIpRange(startIp, endIp);
+      const ips = calculateIpRange(start, end);
       
       if (ips.length === 0) {
         setIpScanError((t as any)('networkTools.ping.errors.invalidRange'));
@@ -407,6 +475,7 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
       
       // Feedback after completion
       const hostsUp = results.filter(r => r.status === 'success').length;
+      reportRun({ kind: 'sweep', startIp: start, endIp: end, hostsUp });
       showNotification(
         ((t as any)('networkTools.ping.scanCompleteMessage') as string)
           .replace('{total}', results.length.toString())
@@ -476,6 +545,7 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
       
       // Feedback after completion
       const hostsUp = results.filter(r => r.status === 'success').length;
+      reportRun({ kind: 'sweep', startIp: subnetIps[0], endIp: subnetIps[subnetIps.length - 1], hostsUp });
       showNotification(
         ((t as any)('networkTools.ping.subnetScanComplete') as string)
           .replace('{total}', results.length.toString())
@@ -492,6 +562,21 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
     }
   };
 
+  useImperativeHandle(ref, () => ({
+    rerun: (run: HistoryRun) => {
+      if (run.kind === 'ping') {
+        handlePing();
+      } else if (run.kind === 'ports') {
+        setSelectedPorts(run.ports);
+        handleCheckPorts(run.ports);
+      } else if (run.kind === 'sweep' && run.startIp && run.endIp) {
+        setStartIp(run.startIp);
+        setEndIp(run.endIp);
+        handleIpRangeScan(run.startIp, run.endIp);
+      }
+    }
+  }));
+
   return (
     <Card elevation={3} sx={{ mt: 3, overflow: 'hidden' }}>
       <CardContent>
@@ -530,6 +615,27 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
             >
               {(t as any)('networkTools.ping.ipSweep')}
             </Button>
+            <Button
+              variant={tabValue === 3 ? "contained" : "outlined"}
+              onClick={(e) => handleTabChange(e, 3)}
+              startIcon={<TransformIcon />}
+            >
+              {(t as any)('rangeToCidr.title')}
+            </Button>
+            <Button
+              variant={tabValue === 4 ? "contained" : "outlined"}
+              onClick={(e) => handleTabChange(e, 4)}
+              startIcon={<AltRouteIcon />}
+            >
+              {(t as any)('routing.title')}
+            </Button>
+            <Button
+              variant={tabValue === 5 ? "contained" : "outlined"}
+              onClick={(e) => handleTabChange(e, 5)}
+              startIcon={<TerminalIcon />}
+            >
+              {(t as any)('routeImport.title')}
+            </Button>
           </Box>
         </Box>
 
@@ -564,7 +670,7 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
                   }}
                   value={cidrValue}
                   onChange={handleCidrChange}
-                  inputProps={{ min: 1, max: 32 }}
+                  inputProps={{ min: 0, max: 32 }}
                   size="small"
                   fullWidth
                 />
@@ -581,6 +687,9 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
               defaultExpanded={true}
               elevation={2}
             >
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 1 }}>
+                <ExportMenu getTable={() => getPingTable(pingHistory)} fileName={`ping-${ip}`} size="small" />
+              </Box>
               <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', mb: 1 }}>
                 <Typography variant="subtitle1" sx={{ mr: 1 }}>
                   {(t as any)('networkTools.ping.status')}:
@@ -804,7 +913,7 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
                 variant="contained" 
                 color="primary" 
                 startIcon={<PortableWifiOffIcon />} 
-                onClick={handleCheckPorts} 
+                onClick={() => handleCheckPorts()} 
                 disabled={isCheckingPorts || selectedPorts.length === 0}
                 fullWidth
               >
@@ -822,6 +931,9 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
               elevation={2}
               marginTop={3}
             >
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 1 }}>
+                <ExportMenu getTable={getPortTable} fileName={`ports-${ip}`} size="small" />
+              </Box>
               <TableContainer>
                 <Table>
                   <TableHead>
@@ -935,7 +1047,7 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
                 variant="contained"
                 color="primary"
                 startIcon={<NetworkCheckIcon />}
-                onClick={handleIpRangeScan}
+                onClick={() => handleIpRangeScan()}
                 disabled={isScanning || !startIp || !endIp}
                 fullWidth
                 sx={{ mt: 2 }}
@@ -969,13 +1081,20 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
                   elevation={2}
                   marginTop={3}
                 >
-                  <Box sx={{ mb: 2 }}>
-                    <Typography variant="body1">
-                      <strong>{(t as any)('networkTools.ping.hostsUp')}:</strong> {scanResults.filter(r => r.status === 'success').length}
-                    </Typography>
-                    <Typography variant="body1">
-                      <strong>{(t as any)('networkTools.ping.hostsDown')}:</strong> {scanResults.filter(r => r.status !== 'success').length}
-                    </Typography>
+                  <Box sx={{ mb: 2, display: 'flex', alignItems: 'flex-start', flexWrap: 'wrap', gap: 1 }}>
+                    <Box sx={{ flexGrow: 1 }}>
+                      <Typography variant="body1">
+                        <strong>{(t as any)('networkTools.ping.hostsUp')}:</strong> {scanResults.filter(r => r.status === 'success').length}
+                      </Typography>
+                      <Typography variant="body1">
+                        <strong>{(t as any)('networkTools.ping.hostsDown')}:</strong> {scanResults.filter(r => r.status !== 'success').length}
+                      </Typography>
+                    </Box>
+                    <ExportMenu
+                      getTable={() => getPingTable(scanResults)}
+                      fileName={`sweep-${scanResults[0].ip}-${scanResults[scanResults.length - 1].ip}`}
+                      size="small"
+                    />
                   </Box>
                   
                   <TableContainer>
@@ -1015,6 +1134,21 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
             )}
           </Grid>
         </TabPanel>
+
+        <TabPanel value={tabValue} index={3}>
+          {/* Content for range to CIDR tab */}
+          <RangeToCidr ip={ip} />
+        </TabPanel>
+
+        <TabPanel value={tabValue} index={4}>
+          {/* Content for routing table tab */}
+          <RoutingTableSimulator ip={ip} />
+        </TabPanel>
+
+        <TabPanel value={tabValue} index={5}>
+          {/* Content for route output import tab */}
+          <RouteOutputImporter />
+        </TabPanel>
         
         {/* Using div instead of Snackbar which can cause problems */}
         {snackbarOpen && (
@@ -1053,6 +1187,6 @@ const NetworkTools: React.FC<NetworkToolsProps> = ({ ip }) => {
       </CardContent>
     </Card>
   );
-};
+});
 
 export default NetworkTools;
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Button,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Box,
+  Alert,
+  Chip,
+} from '@mui/material';
+import CompareArrowsIcon from '@mui/icons-material/CompareArrows';
+import PlaylistAddIcon from '@mui/icons-material/PlaylistAdd';
+import { Subnet } from '../utils/ipUtils';
+import {
+  parseCidrList,
+  findCidrConflicts,
+  subnetsToCidrs,
+  formatCidr,
+  CidrConflict
+} from '../utils/cidrUtils';
+
+interface OverlapAnalyzerProps {
+  subnets: Subnet[];
+}
+
+const OverlapAnalyzer: React.FC<OverlapAnalyzerProps> = ({ subnets }) => {
+  const { t } = useTranslation();
+  const [prefixText, setPrefixText] = useState('');
+  const [error, setError] = useState('');
+  const [conflicts, setConflicts] = useState<CidrConflict[] | null>(null);
+
+  const handleUseSubnets = () => {
+    setPrefixText(subnetsToCidrs(subnets).map(formatCidr).join('\n'));
+    setConflicts(null);
+  };
+
+  const handleAnalyze = () => {
+    const { blocks, invalidEntries } = parseCidrList(prefixText);
+
+    if (invalidEntries.length > 0) {
+      setError(((t as any)('summarization.invalidEntries') as string).replace('{entries}', invalidEntries.join(', ')));
+      setConflicts(null);
+      return;
+    }
+
+    setError('');
+    setConflicts(findCidrConflicts(blocks));
+  };
+
+  return (
+    <Card elevation={3} sx={{ mt: 3, mb: 3 }}>
+      <CardContent>
+        <Typography variant="h5" gutterBottom>
+          {(t as any)('overlap.title')}
+        </Typography>
+
+        <Grid container spacing={2} alignItems="center">
+          <Grid item xs={12} sm={8}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={3}
+              label={(t as any)('summarization.prefixes')}
+              value={prefixText}
+              onChange={(e) => setPrefixText(e.target.value)}
+              error={!!error}
+              helperText={error || (t as any)('summarization.prefixesHelp')}
+              placeholder={'10.0.0.0/16\n10.0.4.0/24'}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+              <Button
+                variant="contained"
+                color="primary"
+                startIcon={<CompareArrowsIcon />}
+                onClick={handleAnalyze}
+                disabled={!prefixText.trim()}
+                fullWidth
+              >
+                {(t as any)('overlap.analyze')}
+              </Button>
+              <Button
+                variant="outlined"
+                startIcon={<PlaylistAddIcon />}
+                onClick={handleUseSubnets}
+                disabled={subnets.length === 0}
+                fullWidth
+              >
+                {(t as any)('overlap.useSubnets')}
+              </Button>
+            </Box>
+          </Grid>
+        </Grid>
+
+        {conflicts && conflicts.length === 0 && (
+          <Alert severity="success" sx={{ mt: 3 }}>
+            {(t as any)('overlap.noConflicts')}
+          </Alert>
+        )}
+
+        {conflicts && conflicts.length > 0 && (
+          <Box sx={{ mt: 4 }}>
+            <Typography variant="h6" gutterBottom>
+              {((t as any)('overlap.conflictsFound') as string).replace('{count}', conflicts.length.toString())}
+            </Typography>
+            <TableContainer component={Paper} sx={{ maxHeight: 400, overflowY: 'auto' }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{(t as any)('overlap.prefixA')}</TableCell>
+                    <TableCell>{(t as any)('overlap.prefixB')}</TableCell>
+                    <TableCell>{(t as any)('overlap.type')}</TableCell>
+                    <TableCell>{(t as any)('overlap.overlappingRange')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {conflicts.map((conflict) => (
+                    <TableRow key={`${conflict.firstIndex}-${conflict.secondIndex}`}>
+                      <TableCell>
+                        <Typography variant="body2" fontFamily="monospace">
+                          #{conflict.firstIndex + 1} {formatCidr(conflict.first)}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="body2" fontFamily="monospace">
+                          #{conflict.secondIndex + 1} {formatCidr(conflict.second)}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Chip
+                          size="small"
+                          label={(t as any)(`overlap.types.${conflict.type}`)}
+                          color={conflict.type === 'duplicate' ? 'error' : 'warning'}
+                          variant="outlined"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="body2" fontFamily="monospace">
+                          {conflict.overlapStart} - {conflict.overlapEnd}
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OverlapAnalyzer;
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Typography,
+  TextField,
+  Button,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Alert,
+} from '@mui/material';
+import TransformIcon from '@mui/icons-material/Transform';
+import { cidrToSubnetMask, cidrSize, ipToInt, intToIp, CidrBlock } from '../utils/ipUtils';
+import { calculateRangeCidrs, parseIpRange } from '../utils/networkUtils';
+import CollapsibleSection from './CollapsibleSection';
+
+interface RangeToCidrProps {
+  ip: string;
+}
+
+const RangeToCidr: React.FC<RangeToCidrProps> = ({ ip }) => {
+  const { t } = useTranslation();
+  const [range, setRange] = useState(ip ? `${ip}-${ip}` : '');
+  const [error, setError] = useState('');
+  const [blocks, setBlocks] = useState<CidrBlock[]>([]);
+
+  const handleConvert = () => {
+    const parsed = parseIpRange(range);
+
+    if (!parsed) {
+      setError((t as any)('rangeToCidr.invalidRange'));
+      setBlocks([]);
+      return;
+    }
+
+    const result = calculateRangeCidrs(parsed.startIp, parsed.endIp);
+    if (result.length === 0) {
+      setError((t as any)('networkTools.ping.errors.invalidRange'));
+      setBlocks([]);
+      return;
+    }
+
+    setError('');
+    setBlocks(result);
+  };
+
+  const totalAddresses = blocks.reduce((sum, block) => sum + cidrSize(block.cidr), 0);
+
+  return (
+    <>
+      <Typography variant="h6" gutterBottom>
+        {(t as any)('rangeToCidr.title')}
+      </Typography>
+
+      <Grid container spacing={2} alignItems="center">
+        <Grid item xs={12} md={8}>
+          <TextField
+            label={(t as any)('networkTools.ping.ipRange')}
+            value={range}
+            onChange={(e) => setRange(e.target.value)}
+            placeholder="10.0.0.5-10.0.0.200"
+            error={!!error}
+            fullWidth
+          />
+        </Grid>
+        <Grid item xs={12} md={4}>
+          <Button
+            variant="contained"
+            color="primary"
+            startIcon={<TransformIcon />}
+            onClick={handleConvert}
+            disabled={!range.trim()}
+            fullWidth
+          >
+            {(t as any)('rangeToCidr.convert')}
+          </Button>
+        </Grid>
+
+        {error && (
+          <Grid item xs={12}>
+            <Alert severity="error">
+              {error}
+            </Alert>
+          </Grid>
+        )}
+      </Grid>
+
+      {blocks.length > 0 && (
+        <CollapsibleSection
+          title={((t as any)('rangeToCidr.result') as string)
+            .replace('{count}', blocks.length.toString())
+            .replace('{total}', totalAddresses.toLocaleString())}
+          defaultExpanded={true}
+          elevation={2}
+          marginTop={3}
+        >
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{(t as any)('cidr')}</TableCell>
+                  <TableCell>{(t as any)('subnetMask')}</TableCell>
+                  <TableCell>{(t as any)('subnetting.range')}</TableCell>
+                  <TableCell>{(t as any)('subnetting.addresses')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {blocks.map((block) => (
+                  <TableRow key={block.networkAddress}>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>
+                      {block.networkAddress}/{block.cidr}
+                    </TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>
+                      {cidrToSubnetMask(block.cidr)}
+                    </TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>
+                      {block.networkAddress} - {intToIp(ipToInt(block.networkAddress) + cidrSize(block.cidr) - 1)}
+                    </TableCell>
+                    <TableCell>
+                      {cidrSize(block.cidr).toLocaleString()}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </CollapsibleSection>
+      )}
+    </>
+  );
+};
+
+export default RangeToCidr;
@@ -14,10 +14,13 @@ import ContentCopyIcon from '@mui/icons-material/ContentCopy';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import ExpandLessIcon from '@mui/icons-material/ExpandLess';
 import { IPResult } from '../utils/ipUtils';
+import { IPv6Result } from '../utils/ipv6Utils';
+import { ExportTable } from '../utils/exportUtils';
 import CollapsibleSection from './CollapsibleSection';
+import ExportMenu from './ExportMenu';
 
 interface ResultCardProps {
-  result: IPResult;
+  result: IPResult | IPv6Result;
 }
 
 const ResultCard: React.FC<ResultCardProps> = ({ result }) => {
@@ -27,6 +30,58 @@ const ResultCard: React.FC<ResultCardProps> = ({ result }) => {
     navigator.clipboard.writeText(text);
   };
   
+  // Every value of the card as label/value pairs, in the order they are shown
+  const getResultTable = (): ExportTable => {
+    const fields: [string, string | number][] = result.version === 6
+      ? [
+        ['results.networkAddress', `${result.networkAddress}/${result.cidr}`],
+        ['results.lastAddress', result.lastAddress],
+        ['results.compressedAddress', result.compressedAddress],
+        ['results.expandedAddress', result.expandedAddress],
+        ['results.addressType', (t as any)(`results.addressTypes.${result.addressType}`)],
+        ['results.totalAddresses', result.totalAddresses.toString()],
+        ['results.prefixBits', result.prefixBits],
+        ['results.interfaceBits', result.interfaceBits]
+      ]
+      : [
+        ['results.networkAddress', `${result.networkAddress}/${result.cidr}`],
+        ['subnetMask', result.subnetMask],
+        ['results.broadcastAddress', result.broadcastAddress],
+        ['results.firstValidHost', result.firstValidHost],
+        ['results.lastValidHost', result.lastValidHost],
+        ['results.totalHosts', result.totalHosts],
+        ['results.usableHosts', result.usableHosts],
+        ['results.subnetBits', result.subnetBits],
+        ['results.hostBits', result.hostBits],
+        ['classification.category', (t as any)(`classification.categories.${result.classification.category}`)],
+        ['classification.globallyReachable', (t as any)(result.classification.globallyReachable ? 'yes' : 'no')],
+        ['classification.forwardable', (t as any)(result.classification.forwardable ? 'yes' : 'no')],
+        ['results.binarySubnetMask', result.binarySubnetMask],
+        ['results.wildcardMask', result.wildcardMask]
+      ];
+
+    return {
+      columns: [
+        { key: 'field', header: (t as any)('export.field') },
+        { key: 'value', header: (t as any)('export.value') }
+      ],
+      rows: fields.map(([label, value]) => [(t as any)(label), value])
+    };
+  };
+
+  const title = (
+    <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+      <Typography variant="h5" sx={{ flexGrow: 1 }}>
+        {(t as any)('results.networkAddress')}
+      </Typography>
+      <ExportMenu
+        getTable={getResultTable}
+        fileName={`network-${result.networkAddress.replace(/:/g, '_')}-${result.cidr}`}
+        size="small"
+      />
+    </Box>
+  );
+  
   const ResultItem = ({ label, value }: { label: string; value: string | number }) => (
     <Grid container spacing={1} alignItems="center" sx={{ mb: 1.5 }}>
       <Grid item xs={7} sm={5}>
@@ -63,12 +118,65 @@ const ResultCard: React.FC<ResultCardProps> = ({ result }) => {
     </Grid>
   );
   
+  if (result.version === 6) {
+    return (
+      <Card elevation={3} sx={{ mt: 3 }}>
+        <CardContent>
+          {title}
+          
+          <Box sx={{ mb: 3 }}>
+            <ResultItem 
+              label="results.networkAddress" 
+              value={`${result.networkAddress}/${result.cidr}`} 
+            />
+            <ResultItem 
+              label="results.lastAddress" 
+              value={result.lastAddress} 
+            />
+            <ResultItem 
+              label="results.compressedAddress" 
+              value={result.compressedAddress} 
+            />
+            <ResultItem 
+              label="results.expandedAddress" 
+              value={result.expandedAddress} 
+            />
+            <ResultItem 
+              label="results.addressType" 
+              value={(t as any)(`results.addressTypes.${result.addressType}`)} 
+            />
+          </Box>
+          
+          <Divider sx={{ my: 2 }} />
+          
+          <Grid container spacing={2}>
+            <Grid item xs={12} md={6}>
+              <ResultItem 
+                label="results.totalAddresses" 
+                value={result.totalAddresses.toLocaleString()} 
+              />
+            </Grid>
+            
+            <Grid item xs={12} md={6}>
+              <ResultItem 
+                label="results.prefixBits" 
+                value={result.prefixBits} 
+              />
+              <ResultItem 
+                label="results.interfaceBits" 
+                value={result.interfaceBits} 
+              />
+            </Grid>
+          </Grid>
+        </CardContent>
+      </Card>
+    );
+  }
+  
   return (
     <Card elevation={3} sx={{ mt: 3 }}>
       <CardContent>
-        <Typography variant="h5" gutterBottom>
-          {(t as any)('results.networkAddress')}
-        </Typography>
+        {title}
         
         <Box sx={{ mb: 3 }}>
           <ResultItem 
@@ -117,6 +225,34 @@ const ResultCard: React.FC<ResultCardProps> = ({ result }) => {
         
         <Divider sx={{ my: 2 }} />
         
+        <Grid container spacing={2}>
+          <Grid item xs={12} md={6}>
+            <ResultItem 
+              label="classification.category" 
+              value={(t as any)(`classification.categories.${result.classification.category}`)} 
+            />
+            {result.classification.category !== 'public' && (
+              <ResultItem 
+                label="classification.registryBlock" 
+                value={`${result.classification.networkAddress}/${result.classification.cidr} (${result.classification.rfc})`} 
+              />
+            )}
+          </Grid>
+          
+          <Grid item xs={12} md={6}>
+            <ResultItem 
+              label="classification.globallyReachable" 
+              value={(t as any)(result.classification.globallyReachable ? 'yes' : 'no')} 
+            />
+            <ResultItem 
+              label="classification.forwardable" 
+              value={(t as any)(result.classification.forwardable ? 'yes' : 'no')} 
+            />
+          </Grid>
+        </Grid>
+        
+        <Divider sx={{ my: 2 }} />
+        
         <CollapsibleSection
           title={(t as any)('results.binaryRepresentation')}
           defaultExpanded={false}
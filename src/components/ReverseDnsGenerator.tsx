@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  SelectChangeEvent,
+  Box,
+  Chip,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import { IPResult } from '../utils/ipUtils';
+import {
+  getReverseZones,
+  generateZoneFile,
+  generateDelegationRecords,
+  defaultReverseZoneOptions,
+  ReverseZoneOptions,
+  DelegationStyle,
+  MAX_ZONE_RECORDS
+} from '../utils/reverseDnsUtils';
+
+interface ReverseDnsGeneratorProps {
+  result: IPResult;
+}
+
+const ReverseDnsGenerator: React.FC<ReverseDnsGeneratorProps> = ({ result }) => {
+  const { t } = useTranslation();
+  const [options, setOptions] = useState<ReverseZoneOptions>(defaultReverseZoneOptions);
+  const [selectedZone, setSelectedZone] = useState(0);
+
+  const zones = getReverseZones(result, options.delegationStyle);
+  // The list changes with the network, so the selection is clamped rather than reset
+  const zone = zones[Math.min(selectedZone, zones.length - 1)];
+  const zoneFile = generateZoneFile(zone, result, options);
+  const delegation = generateDelegationRecords(zone, result, options);
+
+  const handleOptionChange = (field: 'domain' | 'nameServer' | 'hostmaster' | 'hostPrefix') =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setOptions({ ...options, [field]: e.target.value });
+    };
+
+  const handleStyleChange = (e: SelectChangeEvent<DelegationStyle>) => {
+    setOptions({ ...options, delegationStyle: e.target.value as DelegationStyle });
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+  };
+
+  const ZoneText = ({ title, text }: { title: string; text: string }) => (
+    <Box sx={{ mt: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center' }}>
+        <Typography variant="h6" sx={{ flexGrow: 1 }}>
+          {title}
+        </Typography>
+        <Tooltip title={(t as any)('copy')}>
+          <IconButton
+            size="small"
+            onClick={() => copyToClipboard(text)}
+            aria-label={(t as any)('copy')}
+          >
+            <ContentCopyIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Box>
+      <Box
+        component="pre"
+        sx={{
+          bgcolor: 'background.paper',
+          border: 1,
+          borderColor: 'divider',
+          p: 1,
+          borderRadius: 1,
+          overflow: 'auto',
+          maxHeight: 400,
+          fontSize: '0.85rem',
+          fontFamily: 'monospace',
+          color: 'text.primary',
+          m: 0
+        }}
+      >
+        {text}
+      </Box>
+    </Box>
+  );
+
+  return (
+    <Card elevation={3} sx={{ mt: 3, mb: 3 }}>
+      <CardContent>
+        <Typography variant="h5" gutterBottom>
+          {(t as any)('reverseDns.title')}
+        </Typography>
+
+        <Grid container spacing={2}>
+          <Grid item xs={12} sm={6} md={3}>
+            <TextField
+              fullWidth
+              label={(t as any)('reverseDns.domain')}
+              value={options.domain}
+              onChange={handleOptionChange('domain')}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={3}>
+            <TextField
+              fullWidth
+              label={(t as any)('reverseDns.hostPrefix')}
+              value={options.hostPrefix}
+              onChange={handleOptionChange('hostPrefix')}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={3}>
+            <TextField
+              fullWidth
+              label={(t as any)('reverseDns.nameServer')}
+              value={options.nameServer}
+              onChange={handleOptionChange('nameServer')}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={3}>
+            <TextField
+              fullWidth
+              label={(t as any)('reverseDns.hostmaster')}
+              value={options.hostmaster}
+              onChange={handleOptionChange('hostmaster')}
+            />
+          </Grid>
+          {zone.classless && (
+            <Grid item xs={12} sm={6}>
+              <FormControl fullWidth variant="outlined">
+                <InputLabel id="delegation-style-label">
+                  {(t as any)('reverseDns.delegationStyle')}
+                </InputLabel>
+                <Select
+                  labelId="delegation-style-label"
+                  value={options.delegationStyle}
+                  onChange={handleStyleChange}
+                  label={(t as any)('reverseDns.delegationStyle')}
+                >
+                  <MenuItem value="slash">{(t as any)('reverseDns.styles.slash')}</MenuItem>
+                  <MenuItem value="range">{(t as any)('reverseDns.styles.range')}</MenuItem>
+                </Select>
+              </FormControl>
+            </Grid>
+          )}
+        </Grid>
+
+        <Box sx={{ mt: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            {((t as any)('reverseDns.zones') as string).replace('{count}', zones.length.toString())}
+          </Typography>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, maxHeight: 200, overflowY: 'auto' }}>
+            {zones.map((item, index) => (
+              <Chip
+                key={item.name}
+                label={item.name}
+                color={item === zone ? 'primary' : 'default'}
+                variant={item === zone ? 'filled' : 'outlined'}
+                onClick={() => setSelectedZone(index)}
+                sx={{ fontFamily: 'monospace' }}
+              />
+            ))}
+          </Box>
+        </Box>
+
+        <ZoneText
+          title={((t as any)('reverseDns.zoneFile') as string).replace('{zone}', zone.name)}
+          text={zoneFile}
+        />
+        {zone.cidr <= 16 && (
+          <Typography variant="caption" color="text.secondary">
+            {((t as any)('reverseDns.truncated') as string).replace('{max}', MAX_ZONE_RECORDS.toLocaleString())}
+          </Typography>
+        )}
+
+        {delegation && (
+          <>
+            <ZoneText
+              title={((t as any)('reverseDns.delegation') as string).replace('{zone}', zone.parentZone || '')}
+              text={delegation}
+            />
+            <Typography variant="caption" color="text.secondary">
+              {(t as any)('reverseDns.delegationHelp')}
+            </Typography>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReverseDnsGenerator;
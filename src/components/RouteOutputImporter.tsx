@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Typography,
+  TextField,
+  Button,
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Box,
+  Alert,
+  IconButton,
+  Collapse,
+} from '@mui/material';
+import TerminalIcon from '@mui/icons-material/Terminal';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import { formatCidr } from '../utils/cidrUtils';
+import {
+  parseRouteOutput,
+  expandRoutes,
+  formatRoutingTable,
+  routeOutputFormats,
+  ExpandedRoute,
+  RouteOutputFormat
+} from '../utils/routeParsers';
+
+const RouteOutputImporter: React.FC = () => {
+  const { t } = useTranslation();
+  const [outputText, setOutputText] = useState('');
+  const [format, setFormat] = useState<RouteOutputFormat | 'auto'>('auto');
+  const [detectedFormat, setDetectedFormat] = useState<RouteOutputFormat | null>(null);
+  const [routes, setRoutes] = useState<ExpandedRoute[]>([]);
+  const [ignoredCount, setIgnoredCount] = useState(0);
+  const [error, setError] = useState('');
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const handleParse = () => {
+    const parsed = parseRouteOutput(outputText, format === 'auto' ? undefined : format);
+
+    setExpanded(null);
+    setDetectedFormat(parsed.format);
+    setIgnoredCount(parsed.ignoredLines.length);
+    setRoutes(expandRoutes(parsed.routes));
+    setError(!parsed.format
+      ? (t as any)('routeImport.unknownFormat')
+      : parsed.routes.length === 0 ? (t as any)('routeImport.noRoutes') : '');
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(formatRoutingTable(routes.map(entry => entry.route)));
+  };
+
+  return (
+    <>
+      <Typography variant="h6" gutterBottom>
+        {(t as any)('routeImport.title')}
+      </Typography>
+
+      <Grid container spacing={2}>
+        <Grid item xs={12} md={8}>
+          <TextField
+            fullWidth
+            multiline
+            minRows={6}
+            label={(t as any)('routeImport.output')}
+            value={outputText}
+            onChange={(e) => setOutputText(e.target.value)}
+            helperText={(t as any)('routeImport.outputHelp')}
+            placeholder={'default via 192.168.1.1 dev eth0 proto dhcp metric 100\n192.168.1.0/24 dev eth0 proto kernel scope link src 192.168.1.10'}
+            InputProps={{ sx: { fontFamily: 'monospace' } }}
+          />
+        </Grid>
+        <Grid item xs={12} md={4}>
+          <FormControl fullWidth sx={{ mb: 2 }}>
+            <InputLabel id="route-output-format-label">{(t as any)('routeImport.format')}</InputLabel>
+            <Select
+              labelId="route-output-format-label"
+              value={format}
+              label={(t as any)('routeImport.format')}
+              onChange={(e) => setFormat(e.target.value as RouteOutputFormat | 'auto')}
+            >
+              <MenuItem value="auto">{(t as any)('routeImport.formats.auto')}</MenuItem>
+              {routeOutputFormats.map(name => (
+                <MenuItem key={name} value={name}>{(t as any)(`routeImport.formats.${name}`)}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button
+            variant="contained"
+            color="primary"
+            startIcon={<TerminalIcon />}
+            onClick={handleParse}
+            disabled={!outputText.trim()}
+            fullWidth
+          >
+            {(t as any)('routeImport.parse')}
+          </Button>
+        </Grid>
+      </Grid>
+
+      {error && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {routes.length > 0 && detectedFormat && (
+        <Box sx={{ mt: 3 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+            <Typography variant="body2" color="text.secondary" sx={{ flexGrow: 1 }}>
+              {((t as any)('routeImport.summary') as string)
+                .replace('{count}', routes.length.toString())
+                .replace('{format}', (t as any)(`routeImport.formats.${detectedFormat}`))
+                .replace('{ignored}', ignoredCount.toString())}
+            </Typography>
+            <Button variant="outlined" size="small" startIcon={<ContentCopyIcon />} onClick={handleCopy}>
+              {(t as any)('routeImport.copyTable')}
+            </Button>
+          </Box>
+
+          <TableContainer component={Paper} sx={{ maxHeight: 400, overflowY: 'auto' }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell />
+                  <TableCell>{(t as any)('routing.prefix')}</TableCell>
+                  <TableCell>{(t as any)('routing.nextHop')}</TableCell>
+                  <TableCell>{(t as any)('routeImport.interface')}</TableCell>
+                  <TableCell>{(t as any)('routeImport.protocol')}</TableCell>
+                  <TableCell>{(t as any)('routing.administrativeDistance')}</TableCell>
+                  <TableCell>{(t as any)('routing.metric')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {routes.map(({ route, result }, index) => (
+                  <React.Fragment key={index}>
+                    <TableRow>
+                      <TableCell padding="checkbox">
+                        <IconButton size="small" onClick={() => setExpanded(expanded === index ? null : index)}>
+                          {expanded === index ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+                        </IconButton>
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="body2" fontFamily="monospace">
+                          {formatCidr(route)}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="body2" fontFamily="monospace">
+                          {route.nextHop}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>{route.interfaceName || '-'}</TableCell>
+                      <TableCell>{route.protocol || '-'}</TableCell>
+                      <TableCell>{route.administrativeDistance}</TableCell>
+                      <TableCell>{route.metric}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell colSpan={7} sx={{ py: 0, borderBottom: expanded === index ? undefined : 0 }}>
+                        <Collapse in={expanded === index} unmountOnExit>
+                          <Grid container spacing={1} sx={{ py: 1 }}>
+                            {[
+                              ['subnetMask', result.subnetMask],
+                              ['results.wildcardMask', result.wildcardMask],
+                              ['results.broadcastAddress', result.broadcastAddress],
+                              ['results.firstValidHost', result.firstValidHost],
+                              ['results.lastValidHost', result.lastValidHost],
+                              ['results.usableHosts', result.usableHosts.toLocaleString()],
+                              ['classification.category', (t as any)(`classification.categories.${result.classification.category}`)]
+                            ].map(([key, value]) => (
+                              <Grid item xs={12} sm={6} md={3} key={key}>
+                                <Typography variant="caption" color="text.secondary">
+                                  {(t as any)(key)}
+                                </Typography>
+                                <Typography variant="body2" fontFamily="monospace">
+                                  {value}
+                                </Typography>
+                              </Grid>
+                            ))}
+                          </Grid>
+                        </Collapse>
+                      </TableCell>
+                    </TableRow>
+                  </React.Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Box>
+      )}
+    </>
+  );
+};
+
+export default RouteOutputImporter;
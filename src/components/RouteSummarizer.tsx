@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Button,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Box,
+  Alert,
+} from '@mui/material';
+import CallMergeIcon from '@mui/icons-material/CallMerge';
+import { cidrToSubnetMask, cidrSize } from '../utils/ipUtils';
+import { parseCidrList, summarizeCidrs, formatCidr, SummaryResult } from '../utils/cidrUtils';
+
+const RouteSummarizer: React.FC = () => {
+  const { t } = useTranslation();
+  const [prefixText, setPrefixText] = useState('');
+  const [error, setError] = useState('');
+  const [summary, setSummary] = useState<SummaryResult | null>(null);
+
+  const handleSummarize = () => {
+    const { blocks, invalidEntries } = parseCidrList(prefixText);
+
+    if (invalidEntries.length > 0) {
+      setError(((t as any)('summarization.invalidEntries') as string).replace('{entries}', invalidEntries.join(', ')));
+      setSummary(null);
+      return;
+    }
+
+    if (blocks.length === 0) {
+      setError((t as any)('summarization.noPrefixes'));
+      setSummary(null);
+      return;
+    }
+
+    setError('');
+    setSummary(summarizeCidrs(blocks));
+  };
+
+  return (
+    <Card elevation={3} sx={{ mt: 3, mb: 3 }}>
+      <CardContent>
+        <Typography variant="h5" gutterBottom>
+          {(t as any)('summarization.title')}
+        </Typography>
+
+        <Grid container spacing={2} alignItems="center">
+          <Grid item xs={12} sm={8}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={3}
+              label={(t as any)('summarization.prefixes')}
+              value={prefixText}
+              onChange={(e) => setPrefixText(e.target.value)}
+              error={!!error}
+              helperText={error || (t as any)('summarization.prefixesHelp')}
+              placeholder={'192.168.0.0/24\n192.168.1.0/24'}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <Button
+              variant="contained"
+              color="primary"
+              startIcon={<CallMergeIcon />}
+              onClick={handleSummarize}
+              disabled={!prefixText.trim()}
+              fullWidth
+            >
+              {(t as any)('summarization.summarize')}
+            </Button>
+          </Grid>
+        </Grid>
+
+        {summary && (
+          <Box sx={{ mt: 4 }}>
+            <Typography variant="h6" gutterBottom>
+              {(t as any)('summarization.summarized')}
+            </Typography>
+            <TableContainer component={Paper} sx={{ maxHeight: 400, overflowY: 'auto' }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>#</TableCell>
+                    <TableCell>{(t as any)('subnetting.subnet')}</TableCell>
+                    <TableCell>{(t as any)('subnetMask')}</TableCell>
+                    <TableCell>{(t as any)('results.totalHosts')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {summary.summarized.map((block, index) => (
+                    <TableRow key={formatCidr(block)}>
+                      <TableCell>{index + 1}</TableCell>
+                      <TableCell>
+                        <Typography variant="body2" fontFamily="monospace">
+                          {formatCidr(block)}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="body2" fontFamily="monospace">
+                          {cidrToSubnetMask(block.cidr)}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        {cidrSize(block.cidr).toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+
+            <Alert severity={summary.extraAddresses > 0 ? 'warning' : 'success'} sx={{ mt: 3 }}>
+              <Typography variant="body1">
+                <strong>{(t as any)('summarization.supernet')}:</strong>{' '}
+                <span style={{ fontFamily: 'monospace' }}>{formatCidr(summary.supernet)}</span>
+              </Typography>
+              <Typography variant="body2">
+                {((t as any)('summarization.extraAddresses') as string)
+                  .replace('{extra}', summary.extraAddresses.toLocaleString())
+                  .replace('{total}', summary.supernetAddresses.toLocaleString())
+                  .replace('{covered}', summary.inputAddresses.toLocaleString())}
+              </Typography>
+            </Alert>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RouteSummarizer;
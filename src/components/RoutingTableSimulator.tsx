@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Typography,
+  TextField,
+  Button,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Box,
+  Alert,
+  Chip,
+} from '@mui/material';
+import AltRouteIcon from '@mui/icons-material/AltRoute';
+import { isValidIP } from '../utils/ipUtils';
+import { formatCidr } from '../utils/cidrUtils';
+import { parseRoutingTable, lookupRoute, RouteLookupResult, RouteStatus } from '../utils/routingUtils';
+import { detectRouteFormat, parseRouteOutput } from '../utils/routeParsers';
+
+interface RoutingTableSimulatorProps {
+  ip: string;
+}
+
+const statusColors: { [status in RouteStatus]: 'success' | 'warning' | 'default' } = {
+  selected: 'success',
+  longerPrefix: 'warning',
+  lowerDistance: 'warning',
+  lowerMetric: 'warning',
+  noMatch: 'default'
+};
+
+const RoutingTableSimulator: React.FC<RoutingTableSimulatorProps> = ({ ip }) => {
+  const { t } = useTranslation();
+  const [tableText, setTableText] = useState('');
+  const [destinationsText, setDestinationsText] = useState(ip);
+  const [error, setError] = useState('');
+  const [lookups, setLookups] = useState<RouteLookupResult[]>([]);
+
+  const handleLookup = () => {
+    // Output pasted from a router or an operating system is read by its own parser
+    const { routes, invalidEntries } = detectRouteFormat(tableText)
+      ? { routes: parseRouteOutput(tableText).routes, invalidEntries: [] }
+      : parseRoutingTable(tableText);
+
+    if (invalidEntries.length > 0) {
+      setError(((t as any)('routing.invalidRoutes') as string).replace('{entries}', invalidEntries.join(' | ')));
+      setLookups([]);
+      return;
+    }
+
+    const destinations = destinationsText
+      .split(/[\s,;]+/)
+      .filter(destination => destination !== '');
+    const invalidDestinations = destinations.filter(destination => !isValidIP(destination));
+
+    if (routes.length === 0 || destinations.length === 0 || invalidDestinations.length > 0) {
+      setError(invalidDestinations.length > 0
+        ? ((t as any)('routing.invalidDestinations') as string).replace('{entries}', invalidDestinations.join(', '))
+        : (t as any)('routing.missingInput'));
+      setLookups([]);
+      return;
+    }
+
+    setError('');
+    setLookups(destinations.map(destination => lookupRoute(routes, destination)));
+  };
+
+  return (
+    <>
+      <Typography variant="h6" gutterBottom>
+        {(t as any)('routing.title')}
+      </Typography>
+
+      <Grid container spacing={2}>
+        <Grid item xs={12} md={8}>
+          <TextField
+            fullWidth
+            multiline
+            minRows={5}
+            label={(t as any)('routing.table')}
+            value={tableText}
+            onChange={(e) => setTableText(e.target.value)}
+            helperText={(t as any)('routing.tableHelp')}
+            placeholder={'0.0.0.0/0 203.0.113.1 0 1\n10.0.0.0/8 10.255.0.1 20 110\n10.1.0.0/16 10.255.0.2 10 90\n10.1.2.0/24 eth1'}
+            InputProps={{ sx: { fontFamily: 'monospace' } }}
+          />
+        </Grid>
+        <Grid item xs={12} md={4}>
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label={(t as any)('routing.destinations')}
+            value={destinationsText}
+            onChange={(e) => setDestinationsText(e.target.value)}
+            placeholder={'10.1.2.3\n8.8.8.8'}
+            sx={{ mb: 2 }}
+          />
+          <Button
+            variant="contained"
+            color="primary"
+            startIcon={<AltRouteIcon />}
+            onClick={handleLookup}
+            disabled={!tableText.trim() || !destinationsText.trim()}
+            fullWidth
+          >
+            {(t as any)('routing.lookup')}
+          </Button>
+        </Grid>
+      </Grid>
+
+      {error && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {lookups.map((lookup) => (
+        <Box key={lookup.destination} sx={{ mt: 3 }}>
+          <Typography variant="subtitle1" gutterBottom>
+            <strong>{lookup.destination}</strong>{' → '}
+            {lookup.selected.length === 0
+              ? (t as any)('routing.noRoute')
+              : lookup.selected.map(route => `${formatCidr(route)} via ${route.nextHop}`).join(', ')}
+          </Typography>
+          {lookup.ecmp && (
+            <Alert severity="info" sx={{ mb: 1 }}>
+              {(t as any)('routing.ecmp')}
+            </Alert>
+          )}
+          <TableContainer component={Paper} sx={{ maxHeight: 400, overflowY: 'auto' }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell>#</TableCell>
+                  <TableCell>{(t as any)('routing.prefix')}</TableCell>
+                  <TableCell>{(t as any)('routing.nextHop')}</TableCell>
+                  <TableCell>{(t as any)('routing.administrativeDistance')}</TableCell>
+                  <TableCell>{(t as any)('routing.metric')}</TableCell>
+                  <TableCell>{(t as any)('routing.decision')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {lookup.evaluations.map((evaluation) => (
+                  <TableRow
+                    key={evaluation.index}
+                    sx={{ opacity: evaluation.status === 'noMatch' ? 0.5 : 1 }}
+                  >
+                    <TableCell>{evaluation.index + 1}</TableCell>
+                    <TableCell>
+                      <Typography variant="body2" fontFamily="monospace">
+                        {formatCidr(evaluation.route)}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" fontFamily="monospace">
+                        {evaluation.route.nextHop}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{evaluation.route.administrativeDistance}</TableCell>
+                    <TableCell>{evaluation.route.metric}</TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={(t as any)(`routing.statuses.${evaluation.status}`)}
+                        color={statusColors[evaluation.status]}
+                        variant={evaluation.status === 'selected' ? 'filled' : 'outlined'}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Box>
+      ))}
+    </>
+  );
+};
+
+export default RoutingTableSimulator;
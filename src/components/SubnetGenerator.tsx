@@ -15,15 +15,22 @@ import {
   TableRow,
   Paper,
   Box,
+  Alert,
 } from '@mui/material';
 import AccountTreeIcon from '@mui/icons-material/AccountTree';
-import { Subnet } from '../utils/ipUtils';
+import { Subnet, cidrToSubnetMask } from '../utils/ipUtils';
+import { IPv6Subnet } from '../utils/ipv6Utils';
+import { ExportTable } from '../utils/exportUtils';
+import ExportMenu from './ExportMenu';
 
 interface SubnetGeneratorProps {
   ip: string;
   cidr: number;
   onGenerateSubnets: (count: number) => void;
   subnets: Subnet[];
+  // The network holds fewer subnets than were requested
+  subnetsTruncated?: boolean;
+  ipv6Subnets?: IPv6Subnet[];
 }
 
 const SubnetGenerator: React.FC<SubnetGeneratorProps> = ({
@@ -31,9 +38,11 @@ const SubnetGenerator: React.FC<SubnetGeneratorProps> = ({
   cidr,
   onGenerateSubnets,
   subnets,
+  subnetsTruncated = false,
+  ipv6Subnets = [],
 }) => {
   const { t } = useTranslation();
-  const [subnetCount, setSubnetCount] = useState('2');
+  const [subnetCount, setSubnetCount] = useState(String(subnets.length || ipv6Subnets.length || 2));
   const [error, setError] = useState('');
   
   const handleCountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -50,6 +59,43 @@ const SubnetGenerator: React.FC<SubnetGeneratorProps> = ({
     }
   };
   
+  const getSubnetTable = (): ExportTable => ({
+    columns: [
+      { key: 'id', header: '#' },
+      { key: 'subnet', header: (t as any)('subnetting.subnet') },
+      { key: 'subnetMask', header: (t as any)('subnetMask') },
+      { key: 'firstHost', header: (t as any)('results.firstValidHost') },
+      { key: 'lastHost', header: (t as any)('results.lastValidHost') },
+      { key: 'broadcastAddress', header: (t as any)('results.broadcastAddress') },
+      { key: 'usableHosts', header: (t as any)('subnetting.usable') }
+    ],
+    rows: subnets.map(subnet => [
+      subnet.id,
+      `${subnet.networkAddress}/${subnet.cidr}`,
+      cidrToSubnetMask(subnet.cidr),
+      subnet.firstHost,
+      subnet.lastHost,
+      subnet.broadcastAddress,
+      subnet.usableHosts
+    ])
+  });
+
+  const getIPv6SubnetTable = (): ExportTable => ({
+    columns: [
+      { key: 'id', header: '#' },
+      { key: 'subnet', header: (t as any)('subnetting.subnet') },
+      { key: 'lastAddress', header: (t as any)('results.lastAddress') },
+      { key: 'totalAddresses', header: (t as any)('subnetting.addresses') }
+    ],
+    // Address counts are BigInt values and can exceed the precision of a number
+    rows: ipv6Subnets.map(subnet => [
+      subnet.id,
+      `${subnet.networkAddress}/${subnet.cidr}`,
+      subnet.lastAddress,
+      subnet.totalAddresses.toString()
+    ])
+  });
+  
   const handleGenerate = () => {
     const count = parseInt(subnetCount, 10);
     if (!isNaN(count) && count >= 2 && count <= 1024) {
@@ -96,9 +142,19 @@ const SubnetGenerator: React.FC<SubnetGeneratorProps> = ({
         
         {subnets.length > 0 && (
           <Box sx={{ mt: 4 }}>
-            <Typography variant="h6" gutterBottom>
-              {(t as any)('subnetting.subnetList')}
-            </Typography>
+            <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+              <Typography variant="h6" sx={{ flexGrow: 1 }}>
+                {(t as any)('subnetting.subnetList')}
+              </Typography>
+              <ExportMenu getTable={getSubnetTable} fileName={`subnets-${ip}-${cidr}`} size="small" />
+            </Box>
+            {subnetsTruncated && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                {((t as any)('subnetting.truncated') as string)
+                  .replace('{count}', String(subnets.length))
+                  .replace('{cidr}', String(cidr))}
+              </Alert>
+            )}
             <TableContainer component={Paper} sx={{ maxHeight: 400, overflowY: 'auto' }}>
               <Table size="small" stickyHeader>
                 <TableHead>
@@ -133,6 +189,49 @@ const SubnetGenerator: React.FC<SubnetGeneratorProps> = ({
             </TableContainer>
           </Box>
         )}
+        
+        {ipv6Subnets.length > 0 && (
+          <Box sx={{ mt: 4 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+              <Typography variant="h6" sx={{ flexGrow: 1 }}>
+                {(t as any)('subnetting.subnetList')}
+              </Typography>
+              <ExportMenu getTable={getIPv6SubnetTable} fileName={`subnets-${ip.replace(/:/g, '_')}-${cidr}`} size="small" />
+            </Box>
+            <TableContainer component={Paper} sx={{ maxHeight: 400, overflowY: 'auto' }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>#</TableCell>
+                    <TableCell>{(t as any)('subnetting.subnet')}</TableCell>
+                    <TableCell>{(t as any)('subnetting.range')}</TableCell>
+                    <TableCell>{(t as any)('subnetting.addresses')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {ipv6Subnets.map((subnet) => (
+                    <TableRow key={subnet.id}>
+                      <TableCell>{subnet.id}</TableCell>
+                      <TableCell>
+                        <Typography variant="body2" fontFamily="monospace">
+                          {subnet.networkAddress}/{subnet.cidr}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="body2" fontFamily="monospace">
+                          {subnet.networkAddress} - {subnet.lastAddress}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        {subnet.totalAddresses.toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Box>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Box,
+  Tooltip,
+} from '@mui/material';
+import CallSplitIcon from '@mui/icons-material/CallSplit';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import { IPResult, cidrToSubnetMask } from '../utils/ipUtils';
+import {
+  createSubnetTree,
+  splitNode,
+  joinNode,
+  getLeaves,
+  getTreeRows,
+  leavesToSubnets,
+  MAX_TREE_LEAVES,
+  SubnetTreeNode
+} from '../utils/subnetTreeUtils';
+import { ExportTable } from '../utils/exportUtils';
+import ExportMenu from './ExportMenu';
+
+interface SubnetTreeProps {
+  result: IPResult;
+}
+
+const SubnetTree: React.FC<SubnetTreeProps> = ({ result }) => {
+  const { t } = useTranslation();
+  const { networkAddress, cidr } = result;
+  const [tree, setTree] = useState<SubnetTreeNode>(() => createSubnetTree({ networkAddress, cidr }));
+
+  // Starts over whenever another network is calculated
+  useEffect(() => {
+    setTree(createSubnetTree({ networkAddress, cidr }));
+  }, [networkAddress, cidr]);
+
+  const rows = getTreeRows(tree);
+  const subnets = leavesToSubnets(getLeaves(tree));
+  const maxDepth = rows.reduce((max, row) => Math.max(max, row.depth), 0);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(subnets.map(subnet => `${subnet.networkAddress}/${subnet.cidr}`).join('\n'));
+  };
+
+  const getTable = (): ExportTable => ({
+    columns: [
+      { key: 'subnet', header: (t as any)('subnetting.subnet') },
+      { key: 'subnetMask', header: (t as any)('subnetMask') },
+      { key: 'firstHost', header: (t as any)('results.firstValidHost') },
+      { key: 'lastHost', header: (t as any)('results.lastValidHost') },
+      { key: 'broadcastAddress', header: (t as any)('results.broadcastAddress') },
+      { key: 'usableHosts', header: (t as any)('subnetting.usable') }
+    ],
+    rows: subnets.map(subnet => [
+      `${subnet.networkAddress}/${subnet.cidr}`,
+      cidrToSubnetMask(subnet.cidr),
+      subnet.firstHost,
+      subnet.lastHost,
+      subnet.broadcastAddress,
+      subnet.usableHosts
+    ])
+  });
+
+  return (
+    <Card elevation={3} sx={{ mt: 3, mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+          <Typography variant="h5" sx={{ flexGrow: 1 }}>
+            {(t as any)('subnetTree.title')}
+          </Typography>
+          <Button variant="outlined" startIcon={<ContentCopyIcon />} onClick={handleCopy}>
+            {(t as any)('subnetTree.copyList')}
+          </Button>
+          <ExportMenu getTable={getTable} fileName={`subnets-${networkAddress}-${cidr}`} />
+        </Box>
+
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          {((t as any)('subnetTree.help') as string).replace('{count}', subnets.length.toString())}
+        </Typography>
+
+        <TableContainer component={Paper} sx={{ maxHeight: 600, overflow: 'auto' }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{(t as any)('subnetting.subnet')}</TableCell>
+                <TableCell>{(t as any)('subnetMask')}</TableCell>
+                <TableCell>{(t as any)('subnetting.range')}</TableCell>
+                <TableCell>{(t as any)('subnetting.usable')}</TableCell>
+                <TableCell />
+                {maxDepth > 0 && (
+                  <TableCell colSpan={maxDepth} align="center">
+                    {(t as any)('subnetTree.join')}
+                  </TableCell>
+                )}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map((row, index) => {
+                const subnet = subnets[index];
+                return (
+                  <TableRow key={`${row.leaf.networkAddress}/${row.leaf.cidr}`}>
+                    <TableCell>
+                      <Typography variant="body2" fontFamily="monospace">
+                        {subnet.networkAddress}/{subnet.cidr}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" fontFamily="monospace">
+                        {cidrToSubnetMask(subnet.cidr)}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" fontFamily="monospace">
+                        {subnet.firstHost} - {subnet.lastHost}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{subnet.usableHosts.toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Button
+                        size="small"
+                        startIcon={<CallSplitIcon />}
+                        onClick={() => setTree(splitNode(tree, row.leaf))}
+                        disabled={row.leaf.cidr >= 32 || subnets.length >= MAX_TREE_LEAVES}
+                      >
+                        {(t as any)('subnetTree.divide')}
+                      </Button>
+                    </TableCell>
+                    {row.depth < maxDepth && (
+                      <TableCell colSpan={maxDepth - row.depth} sx={{ border: 0 }} />
+                    )}
+                    {row.joins.map((join) => (
+                      <Tooltip
+                        key={`${join.node.networkAddress}/${join.node.cidr}`}
+                        title={`${(t as any)('subnetTree.join')} ${join.node.networkAddress}/${join.node.cidr}`}
+                      >
+                        <TableCell
+                          rowSpan={join.leafCount}
+                          align="center"
+                          onClick={() => setTree(joinNode(tree, join.node))}
+                          sx={{
+                            cursor: 'pointer',
+                            borderLeft: 1,
+                            borderColor: 'divider',
+                            bgcolor: join.depth % 2 === 0 ? 'action.hover' : 'background.paper',
+                            '&:hover': { bgcolor: 'action.selected' },
+                            fontFamily: 'monospace',
+                            whiteSpace: 'nowrap'
+                          }}
+                        >
+                          /{join.node.cidr}
+                        </TableCell>
+                      </Tooltip>
+                    ))}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SubnetTree;
@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Button,
+  Grid,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Box,
+  Alert,
+  Chip,
+} from '@mui/material';
+import SchoolIcon from '@mui/icons-material/School';
+import CheckIcon from '@mui/icons-material/Check';
+import RestartAltIcon from '@mui/icons-material/RestartAlt';
+import {
+  generateQuestion,
+  gradeAnswer,
+  quizDifficulties,
+  quizQuestionTypes,
+  QuizDifficulty,
+  QuizQuestionType,
+  QuizQuestion,
+  QuizGrade
+} from '../utils/quizUtils';
+import useQuizScore from '../hooks/useQuizScore';
+
+const SubnettingQuiz: React.FC = () => {
+  const { t } = useTranslation();
+  const { score, recordAnswer, resetScore } = useQuizScore();
+  const [difficulty, setDifficulty] = useState<QuizDifficulty>('easy');
+  const [questionType, setQuestionType] = useState<QuizQuestionType | 'any'>('any');
+  const [question, setQuestion] = useState<QuizQuestion | null>(null);
+  const [answers, setAnswers] = useState<{ [key: string]: string }>({});
+  const [grade, setGrade] = useState<QuizGrade | null>(null);
+
+  // Replaces the {name} placeholders of a translation with the values of the problem
+  const format = (key: string, values: { [name: string]: string | number }): string => {
+    return Object.keys(values).reduce(
+      (text, name) => text.split(`{${name}}`).join(String(values[name])),
+      (t as any)(key) as string
+    );
+  };
+
+  // Answers of yes/no questions are stored untranslated
+  const displayValue = (value: string): string => {
+    return value === 'yes' || value === 'no' ? (t as any)(value) : value;
+  };
+
+  const handleNewQuestion = () => {
+    setQuestion(generateQuestion(difficulty, questionType));
+    setAnswers({});
+    setGrade(null);
+  };
+
+  const handleCheck = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question || grade) {
+      return;
+    }
+
+    const result = gradeAnswer(question, answers);
+    setGrade(result);
+    recordAnswer(question.type, result.correct);
+  };
+
+  const accuracy = score.answered > 0 ? Math.round((score.correct / score.answered) * 100) : 0;
+
+  return (
+    <Card elevation={3} sx={{ mt: 3, mb: 3 }}>
+      <CardContent>
+        <Typography variant="h5" gutterBottom>
+          {(t as any)('quiz.title')}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          {(t as any)('quiz.description')}
+        </Typography>
+
+        <Grid container spacing={2} alignItems="center" sx={{ mt: 1 }}>
+          <Grid item xs={12} sm={4}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="quiz-difficulty-label">{(t as any)('quiz.difficulty')}</InputLabel>
+              <Select
+                labelId="quiz-difficulty-label"
+                value={difficulty}
+                onChange={(e) => setDifficulty(e.target.value as QuizDifficulty)}
+                label={(t as any)('quiz.difficulty')}
+              >
+                {quizDifficulties.map(level => (
+                  <MenuItem key={level} value={level}>
+                    {(t as any)(`quiz.difficulties.${level}`)}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="quiz-type-label">{(t as any)('quiz.questionType')}</InputLabel>
+              <Select
+                labelId="quiz-type-label"
+                value={questionType}
+                onChange={(e) => setQuestionType(e.target.value as QuizQuestionType | 'any')}
+                label={(t as any)('quiz.questionType')}
+              >
+                <MenuItem value="any">{(t as any)('quiz.anyType')}</MenuItem>
+                {quizQuestionTypes.map(type => (
+                  <MenuItem key={type} value={type}>
+                    {(t as any)(`quiz.types.${type}`)}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <Button
+              variant="contained"
+              color="primary"
+              startIcon={<SchoolIcon />}
+              onClick={handleNewQuestion}
+              fullWidth
+            >
+              {(t as any)(question ? 'quiz.nextQuestion' : 'quiz.start')}
+            </Button>
+          </Grid>
+        </Grid>
+
+        {question && (
+          <Box component="form" onSubmit={handleCheck} noValidate sx={{ mt: 3 }}>
+            <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+              <Chip size="small" label={(t as any)(`quiz.types.${question.type}`)} />
+              <Chip size="small" variant="outlined" label={(t as any)(`quiz.difficulties.${question.difficulty}`)} />
+            </Box>
+            <Typography variant="body1" sx={{ mb: 2 }}>
+              {format(`quiz.questions.${question.type}`, question.values)}
+            </Typography>
+
+            <Grid container spacing={2} alignItems="center">
+              {question.fields.map(field => (
+                <Grid item xs={12} sm={6} key={field.key}>
+                  {field.kind === 'yesNo' ? (
+                    <FormControl fullWidth size="small" disabled={!!grade}>
+                      <InputLabel id={`quiz-${field.key}-label`}>{(t as any)(`quiz.fields.${field.key}`)}</InputLabel>
+                      <Select
+                        labelId={`quiz-${field.key}-label`}
+                        value={answers[field.key] || ''}
+                        onChange={(e) => setAnswers({ ...answers, [field.key]: e.target.value as string })}
+                        label={(t as any)(`quiz.fields.${field.key}`)}
+                      >
+                        <MenuItem value="yes">{(t as any)('yes')}</MenuItem>
+                        <MenuItem value="no">{(t as any)('no')}</MenuItem>
+                      </Select>
+                    </FormControl>
+                  ) : (
+                    <TextField
+                      fullWidth
+                      size="small"
+                      label={(t as any)(`quiz.fields.${field.key}`)}
+                      value={answers[field.key] || ''}
+                      onChange={(e) => setAnswers({ ...answers, [field.key]: e.target.value })}
+                      disabled={!!grade}
+                      InputProps={{ sx: { fontFamily: 'monospace' } }}
+                    />
+                  )}
+                </Grid>
+              ))}
+              <Grid item xs={12}>
+                <Button
+                  type="submit"
+                  variant="outlined"
+                  startIcon={<CheckIcon />}
+                  disabled={!!grade || question.fields.some(field => !(answers[field.key] || '').trim())}
+                >
+                  {(t as any)('quiz.check')}
+                </Button>
+              </Grid>
+            </Grid>
+
+            {grade && (
+              <Alert severity={grade.correct ? 'success' : 'error'} sx={{ mt: 2 }}>
+                <Typography variant="subtitle2" gutterBottom>
+                  {(t as any)(grade.correct ? 'quiz.correct' : 'quiz.incorrect')}
+                </Typography>
+                {grade.fields.filter(field => !field.correct).map(field => (
+                  <Typography variant="body2" key={field.key}>
+                    {format('quiz.expected', {
+                      field: (t as any)(`quiz.fields.${field.key}`),
+                      given: displayValue(field.given.trim()),
+                      expected: displayValue(field.expected)
+                    })}
+                  </Typography>
+                ))}
+                <Typography variant="subtitle2" sx={{ mt: 1 }}>
+                  {(t as any)('quiz.explanation')}
+                </Typography>
+                <Box component="ol" sx={{ m: 0, pl: 3 }}>
+                  {question.explanation.map((step, index) => (
+                    <Typography component="li" variant="body2" key={index}>
+                      {format(`quiz.steps.${step.key}`, step.values)}
+                    </Typography>
+                  ))}
+                </Box>
+              </Alert>
+            )}
+          </Box>
+        )}
+
+        <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1, mt: 3 }}>
+          <Typography variant="body2" color="text.secondary" sx={{ flexGrow: 1 }}>
+            {format('quiz.score', {
+              correct: score.correct,
+              answered: score.answered,
+              accuracy,
+              streak: score.streak,
+              best: score.bestStreak
+            })}
+          </Typography>
+          <Button size="small" startIcon={<RestartAltIcon />} onClick={resetScore} disabled={score.answered === 0}>
+            {(t as any)('quiz.resetScore')}
+          </Button>
+        </Box>
+        {score.answered > 0 && (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 1 }}>
+            {quizQuestionTypes.filter(type => score.byType[type]).map(type => (
+              <Chip
+                key={type}
+                size="small"
+                variant="outlined"
+                label={`${(t as any)(`quiz.types.${type}`)}: ${score.byType[type].correct}/${score.byType[type].answered}`}
+              />
+            ))}
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SubnettingQuiz;
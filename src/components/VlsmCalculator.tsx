@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Button,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Box,
+  Alert,
+  Chip,
+} from '@mui/material';
+import ViewQuiltIcon from '@mui/icons-material/ViewQuilt';
+import { IPResult } from '../utils/ipUtils';
+import { allocateVlsm, parseVlsmRequirements, VlsmResult } from '../utils/vlsmUtils';
+
+interface VlsmCalculatorProps {
+  result: IPResult;
+}
+
+const VlsmCalculator: React.FC<VlsmCalculatorProps> = ({ result }) => {
+  const { t } = useTranslation();
+  const [requirementsText, setRequirementsText] = useState('');
+  const [error, setError] = useState('');
+  const [vlsmResult, setVlsmResult] = useState<VlsmResult | null>(null);
+
+  const handleAllocate = () => {
+    const { requirements, invalidEntries } = parseVlsmRequirements(requirementsText);
+
+    if (invalidEntries.length > 0) {
+      setError(((t as any)('vlsm.invalidEntries') as string).replace('{entries}', invalidEntries.join(', ')));
+      setVlsmResult(null);
+      return;
+    }
+
+    if (requirements.length === 0) {
+      setError((t as any)('vlsm.noRequirements'));
+      setVlsmResult(null);
+      return;
+    }
+
+    const allocation = allocateVlsm(result, requirements);
+    setVlsmResult(allocation);
+
+    if (allocation.error === 'doesNotFit') {
+      setError(
+        ((t as any)('vlsm.doesNotFit') as string)
+          .replace('{required}', allocation.requiredAddresses.toLocaleString())
+          .replace('{available}', allocation.availableAddresses.toLocaleString())
+          .replace('{segments}', allocation.unallocated.map(req => `${req.name} (${req.hosts})`).join(', '))
+      );
+    } else {
+      setError('');
+    }
+  };
+
+  return (
+    <Card elevation={3} sx={{ mt: 3, mb: 3 }}>
+      <CardContent>
+        <Typography variant="h5" gutterBottom>
+          {(t as any)('vlsm.title')}
+        </Typography>
+
+        <Grid container spacing={2} alignItems="center">
+          <Grid item xs={12} sm={8}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              label={(t as any)('vlsm.requirements')}
+              value={requirementsText}
+              onChange={(e) => setRequirementsText(e.target.value)}
+              helperText={(t as any)('vlsm.requirementsHelp')}
+              placeholder="Servers 60, Users 200, P2P links 2"
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <Button
+              variant="contained"
+              color="primary"
+              startIcon={<ViewQuiltIcon />}
+              onClick={handleAllocate}
+              disabled={!requirementsText.trim()}
+              fullWidth
+            >
+              {(t as any)('vlsm.allocate')}
+            </Button>
+          </Grid>
+        </Grid>
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {vlsmResult && vlsmResult.allocations.length > 0 && (
+          <Box sx={{ mt: 4 }}>
+            <Typography variant="h6" gutterBottom>
+              {(t as any)('vlsm.allocations')}
+            </Typography>
+            <TableContainer component={Paper} sx={{ maxHeight: 400, overflowY: 'auto' }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{(t as any)('vlsm.segment')}</TableCell>
+                    <TableCell>{(t as any)('vlsm.requiredHosts')}</TableCell>
+                    <TableCell>{(t as any)('subnetting.subnet')}</TableCell>
+                    <TableCell>{(t as any)('subnetting.range')}</TableCell>
+                    <TableCell>{(t as any)('subnetting.usable')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {vlsmResult.allocations.map((allocation) => (
+                    <TableRow key={allocation.networkAddress}>
+                      <TableCell>{allocation.name}</TableCell>
+                      <TableCell>{allocation.requiredHosts.toLocaleString()}</TableCell>
+                      <TableCell>
+                        <Typography variant="body2" fontFamily="monospace">
+                          {allocation.networkAddress}/{allocation.cidr}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="body2" fontFamily="monospace">
+                          {allocation.firstHost} - {allocation.lastHost}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        {allocation.usableHosts.toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Box>
+        )}
+
+        {vlsmResult && vlsmResult.freeBlocks.length > 0 && (
+          <Box sx={{ mt: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              {(t as any)('vlsm.freeBlocks')}
+            </Typography>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+              {vlsmResult.freeBlocks.map((block) => (
+                <Chip
+                  key={block.networkAddress}
+                  label={`${block.networkAddress}/${block.cidr}`}
+                  variant="outlined"
+                  sx={{ fontFamily: 'monospace' }}
+                />
+              ))}
+            </Box>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VlsmCalculator;
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { HistoryEntry, HistoryRun, addHistoryEntry, parseHistory, serializeHistory } from '../utils/historyUtils';
+
+const STORAGE_KEY = 'calculationHistory';
+
+export const useCalculationHistory = () => {
+  const [entries, setEntries] = useState<HistoryEntry[]>(() => {
+    try {
+      return parseHistory(localStorage.getItem(STORAGE_KEY));
+    } catch (error) {
+      return [];
+    }
+  });
+  const [storageError, setStorageError] = useState(false);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, serializeHistory(entries));
+    } catch (error) {
+      // Private browsing or a full storage: the history still works for this session
+      setStorageError(true);
+    }
+  }, [entries]);
+
+  const updateEntries = (update: (current: HistoryEntry[]) => HistoryEntry[]) => {
+    setEntries(current => update(current));
+  };
+
+  const recordRun = (run: HistoryRun) => {
+    setEntries(current => addHistoryEntry(current, run));
+  };
+
+  return {
+    entries,
+    storageError,
+    updateEntries,
+    recordRun,
+  };
+};
+
+export default useCalculationHistory;
@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import { IpamWorkspace, emptyWorkspace } from '../utils/ipamUtils';
+import { loadWorkspace, saveWorkspace } from '../utils/ipamStorage';
+
+export const useIpamWorkspace = () => {
+  const [workspace, setWorkspace] = useState<IpamWorkspace>(emptyWorkspace);
+  const [loaded, setLoaded] = useState(false);
+  const [storageError, setStorageError] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+
+    loadWorkspace()
+      .then((stored) => {
+        if (active) {
+          setWorkspace(stored);
+          setLoaded(true);
+        }
+      })
+      .catch(() => {
+        // Private browsing or missing IndexedDB: the workspace still works for this session
+        if (active) {
+          setStorageError(true);
+          setLoaded(true);
+        }
+      });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const updateWorkspace = (next: IpamWorkspace) => {
+    setWorkspace(next);
+    saveWorkspace(next).catch(() => setStorageError(true));
+  };
+
+  return {
+    workspace,
+    loaded,
+    storageError,
+    updateWorkspace,
+  };
+};
+
+export default useIpamWorkspace;
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { QuizQuestionType, QuizScore, emptyQuizScore, parseQuizScore, recordQuizAnswer } from '../utils/quizUtils';
+
+const STORAGE_KEY = 'quizScore';
+
+export const useQuizScore = () => {
+  const [score, setScore] = useState<QuizScore>(() => {
+    try {
+      return parseQuizScore(localStorage.getItem(STORAGE_KEY));
+    } catch (error) {
+      return emptyQuizScore;
+    }
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(score));
+    } catch (error) {
+      // The score is only kept for this session when the storage is not available
+    }
+  }, [score]);
+
+  const recordAnswer = (type: QuizQuestionType, correct: boolean) => {
+    setScore(current => recordQuizAnswer(current, type, correct));
+  };
+
+  const resetScore = () => {
+    setScore(emptyQuizScore);
+  };
+
+  return {
+    score,
+    recordAnswer,
+    resetScore,
+  };
+};
+
+export default useQuizScore;
@@ -0,0 +1,77 @@
+import { parseAclTargets, calculateAclEntries, matchWildcard, AclEntry } from './aclUtils';
+import { ipToInt } from './ipUtils';
+
+// Checks every address of 10.0.0.0/24 against the entries and returns the ones matched
+const matchedHosts = (entries: AclEntry[]): number[] => {
+  const hosts: number[] = [];
+  for (let host = 0; host < 256; host++) {
+    if (entries.some(entry => matchWildcard(`10.0.0.${host}`, entry.address, entry.wildcard).matches)) {
+      hosts.push(host);
+    }
+  }
+  return hosts;
+};
+
+describe('parseAclTargets', () => {
+  test('reads addresses, prefixes and ranges', () => {
+    expect(parseAclTargets('10.0.0.1\n10.0.1.0/24, 10.0.2.5-10.0.2.9; bogus, 10.0.3.9-10.0.3.1')).toEqual({
+      ranges: [
+        { start: ipToInt('10.0.0.1'), end: ipToInt('10.0.0.1') },
+        { start: ipToInt('10.0.1.0'), end: ipToInt('10.0.1.255') },
+        { start: ipToInt('10.0.2.5'), end: ipToInt('10.0.2.9') }
+      ],
+      invalidEntries: ['bogus', '10.0.3.9-10.0.3.1']
+    });
+  });
+});
+
+describe('calculateAclEntries', () => {
+  test('uses a single entry for a prefix', () => {
+    const { ranges } = parseAclTargets('10.0.0.0/24');
+    expect(calculateAclEntries(ranges)).toEqual({
+      entries: [{ address: '10.0.0.0', wildcard: '0.0.0.255', matchCount: 256 }],
+      minimal: true
+    });
+  });
+
+  test('matches every odd host with one non-contiguous wildcard', () => {
+    const odd = Array.from({ length: 128 }, (_, index) => `10.0.0.${index * 2 + 1}`).join(',');
+    expect(calculateAclEntries(parseAclTargets(odd).ranges)).toEqual({
+      entries: [{ address: '10.0.0.1', wildcard: '0.0.0.254', matchCount: 128 }],
+      minimal: true
+    });
+  });
+
+  test('covers the usable hosts of a /24 with the fewest entries', () => {
+    const { entries, minimal } = calculateAclEntries(parseAclTargets('10.0.0.1-10.0.0.254').ranges);
+    expect(minimal).toBe(true);
+    expect(entries).toHaveLength(8);
+    expect(matchedHosts(entries)).toEqual(Array.from({ length: 254 }, (_, index) => index + 1));
+  });
+
+  test('matches exactly the requested addresses', () => {
+    const { entries, minimal } = calculateAclEntries(parseAclTargets('10.0.0.3, 10.0.0.7, 10.0.0.11-10.0.0.20, 10.0.0.64/27').ranges);
+    const expected = [3, 7].concat(
+      Array.from({ length: 10 }, (_, index) => index + 11),
+      Array.from({ length: 32 }, (_, index) => index + 64)
+    );
+    expect(minimal).toBe(true);
+    expect(matchedHosts(entries)).toEqual(expected);
+  });
+
+  test('flags inputs too large to prove minimal', () => {
+    const { entries, minimal } = calculateAclEntries(parseAclTargets('10.0.0.1-10.200.3.254').ranges);
+    expect(minimal).toBe(false);
+    expect(entries.length).toBeGreaterThan(0);
+  });
+});
+
+describe('matchWildcard', () => {
+  test('reports the bits that differ where the wildcard cares', () => {
+    const result = matchWildcard('10.0.0.6', '10.0.0.1', '0.0.0.254');
+    expect(result.matches).toBe(false);
+    expect(result.careMask).toBe('255.255.255.1');
+    expect(result.mismatchedBits).toEqual([31]);
+    expect(matchWildcard('10.0.0.7', '10.0.0.1', '0.0.0.254').matches).toBe(true);
+  });
+});
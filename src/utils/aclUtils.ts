@@ -0,0 +1,385 @@
+/**
+ * Utilities for Cisco-style ACL address/wildcard entries
+ */
+
+import {
+  ipToInt,
+  intToIp,
+  cidrToSubnetMask,
+  calculateWildcardMask,
+  generateBinaryAndOperation
+} from './ipUtils';
+import { IntRange, cidrToRange, parseCidr, rangesToCidrs } from './cidrUtils';
+import { parseIpRange } from './networkUtils';
+
+export interface AclEntry {
+  address: string;
+  wildcard: string;
+  matchCount: number;
+}
+
+export interface AclCalculation {
+  entries: AclEntry[];
+  // False when the input was too large to prove that no shorter list exists
+  minimal: boolean;
+}
+
+export interface WildcardMatchResult {
+  matches: boolean;
+  // Inverse of the wildcard: the bits that have to match
+  careMask: string;
+  ipOperation: ReturnType<typeof generateBinaryAndOperation>;
+  aclOperation: ReturnType<typeof generateBinaryAndOperation>;
+  // Positions (0 = most significant bit) where the address differs on a bit that has to match
+  mismatchedBits: number[];
+}
+
+interface WildcardCube {
+  address: number;
+  wildcard: number;
+}
+
+// Limits of the exact minimisation; past them the shortest list found so far is returned, marked as not minimal
+const MAX_PRIME_CUBES = 500;
+const MAX_CONSENSUS_STEPS = 10000;
+const MAX_COVER_REGIONS = 5000;
+const MAX_SEARCH_NODES = 5000;
+
+/**
+ * Counts the bits set in a 32-bit integer
+ */
+const countBits = (value: number): number => {
+  let count = 0;
+  for (let v = value >>> 0; v !== 0; v = v >>> 1) {
+    count += v & 1;
+  }
+  return count;
+};
+
+/**
+ * Parses addresses, CIDRs and start-end ranges (one per line or separated by commas)
+ */
+export const parseAclTargets = (text: string): { ranges: IntRange[]; invalidEntries: string[] } => {
+  const ranges: IntRange[] = [];
+  const invalidEntries: string[] = [];
+
+  text
+    .split(/[,;\n]/)
+    .map(entry => entry.trim())
+    .filter(entry => entry !== '')
+    .forEach(entry => {
+      const range = entry.indexOf('-') !== -1 ? parseIpRange(entry) : null;
+      const block = range ? null : parseCidr(entry);
+
+      if (range && ipToInt(range.startIp) <= ipToInt(range.endIp)) {
+        ranges.push({ start: ipToInt(range.startIp), end: ipToInt(range.endIp) });
+      } else if (block) {
+        ranges.push(cidrToRange(block));
+      } else {
+        invalidEntries.push(entry);
+      }
+    });
+
+  return { ranges, invalidEntries };
+};
+
+/**
+ * Merges entries with the same wildcard whose addresses differ in a single bit
+ * Merging two disjoint entries keeps the cover exact, so the result matches the same addresses;
+ * the merged list is short but not always minimal, and serves as the starting bound of the search
+ */
+const mergeCubes = (cubes: WildcardCube[]): WildcardCube[] => {
+  let current = cubes;
+  let merged = true;
+
+  while (merged) {
+    merged = false;
+    const byKey = new Map<string, WildcardCube>();
+    current.forEach(cube => byKey.set(`${cube.address}/${cube.wildcard}`, cube));
+
+    const used = new Set<string>();
+    const next: WildcardCube[] = [];
+
+    const sorted = current
+      .slice()
+      .sort((a, b) => a.wildcard - b.wildcard || a.address - b.address);
+
+    for (const cube of sorted) {
+      const key = `${cube.address}/${cube.wildcard}`;
+      if (used.has(key)) {
+        continue;
+      }
+      used.add(key);
+
+      // Looks for a partner differing in one bit that still has to match, lowest bit first
+      let partner: WildcardCube | null = null;
+      for (let bit = 0; bit < 32 && !partner; bit++) {
+        const flag = Math.pow(2, bit);
+        if ((cube.wildcard & flag) !== 0) {
+          continue;
+        }
+        const partnerAddress = (cube.address ^ flag) >>> 0;
+        const partnerKey = `${partnerAddress}/${cube.wildcard}`;
+        if (byKey.has(partnerKey) && !used.has(partnerKey)) {
+          used.add(partnerKey);
+          partner = {
+            address: Math.min(cube.address, partnerAddress),
+            wildcard: (cube.wildcard | flag) >>> 0
+          };
+        }
+      }
+
+      if (partner) {
+        next.push(partner);
+        merged = true;
+      } else {
+        next.push(cube);
+      }
+    }
+
+    current = next;
+  }
+
+  return current;
+};
+
+/**
+ * Whether every address matched by the inner entry is matched by the outer one
+ */
+const containsCube = (outer: WildcardCube, inner: WildcardCube): boolean => {
+  return ((inner.wildcard & ~outer.wildcard) >>> 0) === 0
+    && (((inner.address ^ outer.address) & ~outer.wildcard) >>> 0) === 0;
+};
+
+/**
+ * Consensus of two entries that conflict on exactly one compared bit: the entry matching
+ * across both of them with that bit ignored, or null when there is none
+ */
+const consensus = (a: WildcardCube, b: WildcardCube): WildcardCube | null => {
+  const conflict = ((a.address ^ b.address) & ~a.wildcard & ~b.wildcard) >>> 0;
+  if (conflict === 0 || (conflict & (conflict - 1)) !== 0) {
+    return null;
+  }
+
+  const wildcard = ((a.wildcard & b.wildcard) | conflict) >>> 0;
+  return {
+    address: (((a.address & ~a.wildcard) | (b.address & ~b.wildcard)) & ~wildcard) >>> 0,
+    wildcard
+  };
+};
+
+/**
+ * Lists the largest entries that only match addresses of the set (its prime implicants),
+ * by iterated consensus; returns null past the limits
+ */
+const primeCubes = (cubes: WildcardCube[]): WildcardCube[] | null => {
+  let primes: WildcardCube[] = [];
+  const queue = cubes.slice();
+  // Consensus keeps finding the same entries; each is only examined once
+  const seen = new Set<string>(cubes.map(cube => `${cube.address}/${cube.wildcard}`));
+
+  for (let steps = 0; queue.length > 0; steps++) {
+    if (steps > MAX_CONSENSUS_STEPS || primes.length > MAX_PRIME_CUBES) {
+      return null;
+    }
+
+    const cube = queue.shift() as WildcardCube;
+    if (primes.some(prime => containsCube(prime, cube))) {
+      continue;
+    }
+
+    primes = primes.filter(prime => !containsCube(cube, prime));
+    primes.forEach(prime => {
+      const merged = consensus(prime, cube);
+      if (merged && !seen.has(`${merged.address}/${merged.wildcard}`)) {
+        seen.add(`${merged.address}/${merged.wildcard}`);
+        queue.push(merged);
+      }
+    });
+    primes.push(cube);
+  }
+
+  return primes;
+};
+
+/**
+ * Removes an entry from another, as disjoint entries covering what is left
+ */
+const subtractCube = (cube: WildcardCube, cut: WildcardCube): WildcardCube[] => {
+  if (((cube.address ^ cut.address) & ~cube.wildcard & ~cut.wildcard) >>> 0) {
+    return [cube];
+  }
+
+  const pieces: WildcardCube[] = [];
+  let rest = cube;
+  for (let bit = 31; bit >= 0; bit--) {
+    const flag = (1 << bit) >>> 0;
+    if ((rest.wildcard & flag) !== 0 && (cut.wildcard & flag) === 0) {
+      const wildcard = (rest.wildcard & ~flag) >>> 0;
+      pieces.push({ address: ((rest.address & ~flag) | (~cut.address & flag)) >>> 0, wildcard });
+      rest = { address: ((rest.address & ~flag) | (cut.address & flag)) >>> 0, wildcard };
+    }
+  }
+  return pieces;
+};
+
+/**
+ * Addresses of both entries, or null when they have none in common
+ */
+const intersectCube = (a: WildcardCube, b: WildcardCube): WildcardCube | null => {
+  if (((a.address ^ b.address) & ~a.wildcard & ~b.wildcard) >>> 0) {
+    return null;
+  }
+  return {
+    address: ((a.address & ~a.wildcard) | (b.address & ~b.wildcard)) >>> 0,
+    wildcard: (a.wildcard & b.wildcard) >>> 0
+  };
+};
+
+/**
+ * Groups the addresses of the set by the primes matching them, as lists of prime indexes
+ * Groups matched by all the primes of another group are dropped, since covering that group
+ * covers them as well; returns null past the limits
+ */
+const coverRows = (cubes: WildcardCube[], primes: WildcardCube[]): number[][] | null => {
+  let regions = cubes.map(cube => ({ cube, primes: [] as number[] }));
+
+  for (let index = 0; index < primes.length; index++) {
+    const next: typeof regions = [];
+    regions.forEach(region => {
+      const inside = intersectCube(region.cube, primes[index]);
+      if (!inside) {
+        next.push(region);
+        return;
+      }
+      next.push({ cube: inside, primes: region.primes.concat(index) });
+      subtractCube(region.cube, primes[index]).forEach(cube => next.push({ cube, primes: region.primes }));
+    });
+
+    regions = next;
+    if (regions.length > MAX_COVER_REGIONS) {
+      return null;
+    }
+  }
+
+  const unique = new Map<string, number[]>();
+  regions.forEach(region => unique.set(region.primes.join(','), region.primes));
+
+  const rows: number[][] = [];
+  Array.from(unique.values())
+    .sort((a, b) => a.length - b.length)
+    .forEach(row => {
+      if (!rows.some(kept => kept.every(prime => row.indexOf(prime) !== -1))) {
+        rows.push(row);
+      }
+    });
+  return rows;
+};
+
+/**
+ * Finds the fewest primes covering every row, by branch and bound
+ * Each step covers the row with the fewest choices, trying the primes that cover the most rows first;
+ * the merged list is the first upper bound
+ */
+const findMinimalCover = (
+  rows: number[][],
+  primes: WildcardCube[],
+  upperBound: WildcardCube[]
+): { cover: WildcardCube[]; complete: boolean } => {
+  let best: number[] | null = null;
+  let bestLength = upperBound.length;
+  let nodes = 0;
+  let complete = true;
+
+  const search = (chosen: number[], uncovered: number[][]) => {
+    if (uncovered.length === 0) {
+      best = chosen;
+      bestLength = chosen.length;
+      return;
+    }
+    if (++nodes > MAX_SEARCH_NODES) {
+      complete = false;
+      return;
+    }
+
+    const sorted = uncovered.slice().sort((a, b) => a.length - b.length);
+
+    // Rows sharing no prime each need a prime of their own
+    const counted = new Set<number>();
+    let bound = 0;
+    sorted.forEach(row => {
+      if (!row.some(prime => counted.has(prime))) {
+        bound++;
+        row.forEach(prime => counted.add(prime));
+      }
+    });
+    if (chosen.length + bound >= bestLength) {
+      return;
+    }
+
+    const coverage = (prime: number) => uncovered.filter(row => row.indexOf(prime) !== -1).length;
+    const options = sorted[0].slice().sort((a, b) => coverage(b) - coverage(a));
+    for (let i = 0; i < options.length && complete; i++) {
+      search(chosen.concat(options[i]), uncovered.filter(row => row.indexOf(options[i]) === -1));
+    }
+  };
+
+  search([], rows);
+  const cover: WildcardCube[] = best ? (best as number[]).map(index => primes[index]) : upperBound;
+  return { cover, complete };
+};
+
+/**
+ * Computes the minimal list of address/wildcard entries matching exactly the given ranges
+ * Non-contiguous wildcards are produced when they reduce the number of entries (e.g. every odd host);
+ * entries may overlap, which ACLs allow
+ */
+export const calculateAclEntries = (ranges: IntRange[]): AclCalculation => {
+  const cubes = rangesToCidrs(ranges).map(block => ({
+    address: ipToInt(block.networkAddress),
+    wildcard: ipToInt(calculateWildcardMask(cidrToSubnetMask(block.cidr)))
+  }));
+
+  const merged = mergeCubes(cubes);
+  const primes = merged.length > 1 ? primeCubes(merged) : merged;
+  const rows = primes ? coverRows(cubes, primes) : null;
+  const result = primes && rows
+    ? findMinimalCover(rows, primes, merged)
+    : { cover: merged, complete: false };
+
+  return {
+    entries: result.cover
+      .slice()
+      .sort((a, b) => a.address - b.address)
+      .map(cube => ({
+        address: intToIp(cube.address),
+        wildcard: intToIp(cube.wildcard),
+        matchCount: Math.pow(2, countBits(cube.wildcard))
+      })),
+    minimal: result.complete
+  };
+};
+
+/**
+ * Tests whether an address matches an ACL address/wildcard pair, bit by bit
+ */
+export const matchWildcard = (ip: string, aclAddress: string, wildcard: string): WildcardMatchResult => {
+  const careMask = calculateWildcardMask(wildcard);
+  const ipOperation = generateBinaryAndOperation(ip, careMask);
+  const aclOperation = generateBinaryAndOperation(aclAddress, careMask);
+
+  const mismatchedBits: number[] = [];
+  for (let i = 0; i < 32; i++) {
+    if (ipOperation.resultBits[i] !== aclOperation.resultBits[i]) {
+      mismatchedBits.push(i);
+    }
+  }
+
+  return {
+    matches: mismatchedBits.length === 0,
+    careMask,
+    ipOperation,
+    aclOperation,
+    mismatchedBits
+  };
+};
@@ -0,0 +1,67 @@
+import { parseAddressInput, isValidSubnetMask, isValidWildcardMask } from './addressParser';
+
+describe('parseAddressInput', () => {
+  test('reads plain addresses and prefixes', () => {
+    expect(parseAddressInput(' 10.1.2.3 ')).toEqual({ version: 4, notation: 'plain', ip: '10.1.2.3', cidr: null });
+    expect(parseAddressInput('10.1.2.3/24')).toEqual({ version: 4, notation: 'cidr', ip: '10.1.2.3', cidr: 24 });
+  });
+
+  test('reads subnet and wildcard masks', () => {
+    expect(parseAddressInput('10.1.2.3 255.255.255.0')).toEqual({
+      version: 4, notation: 'mask', ip: '10.1.2.3', cidr: 24, source: '255.255.255.0'
+    });
+    expect(parseAddressInput('10.1.2.3 0.0.0.255')).toEqual({
+      version: 4, notation: 'wildcard', ip: '10.1.2.3', cidr: 24, source: '0.0.0.255'
+    });
+    expect(parseAddressInput('10.1.2.3 0.0.0.0')).toEqual({
+      version: 4, notation: 'wildcard', ip: '10.1.2.3', cidr: 32, source: '0.0.0.0'
+    });
+  });
+
+  test('reads hexadecimal and integer addresses', () => {
+    expect(parseAddressInput('0x0A010203/16')).toEqual({
+      version: 4, notation: 'hex', ip: '10.1.2.3', cidr: 16, source: '0x0A010203'
+    });
+    expect(parseAddressInput('167838211')).toEqual({
+      version: 4, notation: 'integer', ip: '10.1.2.3', cidr: null, source: '167838211'
+    });
+  });
+
+  test('reads ranges with their covering prefix', () => {
+    expect(parseAddressInput('10.1.2.0 - 10.1.2.127')).toEqual({
+      version: 4,
+      notation: 'range',
+      ip: '10.1.2.0',
+      cidr: 25,
+      rangeStart: '10.1.2.0',
+      rangeEnd: '10.1.2.127',
+      exactRange: true,
+      rangeBlockCount: 1
+    });
+    expect(parseAddressInput('10.1.2.1-10.1.2.6')).toMatchObject({ ip: '10.1.2.0', cidr: 29, exactRange: false, rangeBlockCount: 4 });
+  });
+
+  test('reads IPv6 addresses', () => {
+    expect(parseAddressInput('2001:db8::1/64')).toEqual({ version: 6, notation: 'ipv6', ip: '2001:db8::1', cidr: 64 });
+    expect(parseAddressInput('2001:db8::1')).toEqual({ version: 6, notation: 'ipv6', ip: '2001:db8::1', cidr: null });
+  });
+
+  test('rejects malformed input', () => {
+    expect(parseAddressInput('')).toBeNull();
+    expect(parseAddressInput('10.1.2.3/33')).toBeNull();
+    expect(parseAddressInput('10.1.2.3 255.0.255.0')).toBeNull();
+    expect(parseAddressInput('10.1.2.9-10.1.2.1')).toBeNull();
+    expect(parseAddressInput('4294967296')).toBeNull();
+    expect(parseAddressInput('2001:db8::1/129')).toBeNull();
+    expect(parseAddressInput('10.1.2.3 24 extra')).toBeNull();
+  });
+});
+
+describe('mask validation', () => {
+  test('accepts only contiguous masks', () => {
+    expect(isValidSubnetMask('255.255.254.0')).toBe(true);
+    expect(isValidSubnetMask('255.0.255.0')).toBe(false);
+    expect(isValidWildcardMask('0.0.1.255')).toBe(true);
+    expect(isValidWildcardMask('0.255.0.255')).toBe(false);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Parser for the different notations an address can be pasted in
+ */
+
+import {
+  isValidIP,
+  ipToInt,
+  intToIp,
+  cidrToSubnetMask,
+  subnetMaskToCidr,
+  calculateWildcardMask,
+  rangeToCidrs
+} from './ipUtils';
+import { isValidIPv6 } from './ipv6Utils';
+import { findSupernet } from './cidrUtils';
+
+export type AddressNotation =
+  | 'plain'
+  | 'cidr'
+  | 'mask'
+  | 'wildcard'
+  | 'hex'
+  | 'integer'
+  | 'range'
+  | 'ipv6';
+
+export interface ParsedAddress {
+  version: 4 | 6;
+  notation: AddressNotation;
+  ip: string;
+  cidr: number | null;
+  // Token that was interpreted (mask, wildcard, hex or integer value)
+  source?: string;
+  rangeStart?: string;
+  rangeEnd?: string;
+  // Whether the range is exactly one CIDR block, and how many blocks cover it otherwise
+  exactRange?: boolean;
+  rangeBlockCount?: number;
+}
+
+const MAX_IPV4_INT = 4294967295;
+
+/**
+ * Checks if a dotted quad is a contiguous subnet mask (ones followed by zeros)
+ */
+export const isValidSubnetMask = (mask: string): boolean => {
+  return isValidIP(mask) && cidrToSubnetMask(subnetMaskToCidr(mask)) === mask;
+};
+
+/**
+ * Checks if a dotted quad is a contiguous wildcard mask (zeros followed by ones)
+ */
+export const isValidWildcardMask = (wildcard: string): boolean => {
+  return isValidIP(wildcard) && isValidSubnetMask(calculateWildcardMask(wildcard));
+};
+
+/**
+ * Parses a prefix suffix such as "24"
+ */
+const parsePrefix = (value: string, max: number): number | null => {
+  if (!/^\d{1,3}$/.test(value)) {
+    return null;
+  }
+  const prefix = parseInt(value, 10);
+  return prefix <= max ? prefix : null;
+};
+
+/**
+ * Parses a hexadecimal (0x0A010203) or decimal (167838211) 32-bit address
+ */
+const parseNumericAddress = (value: string): { ip: string; notation: 'hex' | 'integer' } | null => {
+  if (/^0x[0-9a-f]{1,8}$/i.test(value)) {
+    return { ip: intToIp(parseInt(value.substring(2), 16)), notation: 'hex' };
+  }
+  if (/^\d{1,10}$/.test(value)) {
+    const int = parseInt(value, 10);
+    return int <= MAX_IPV4_INT ? { ip: intToIp(int), notation: 'integer' } : null;
+  }
+  return null;
+};
+
+/**
+ * Recognizes an address written as:
+ * 10.1.2.3, 10.1.2.3/24, 10.1.2.3 255.255.255.0, 10.1.2.3 0.0.0.255,
+ * 0x0A010203, 167838211, 10.1.2.0-10.1.2.127 or an IPv6 address with optional prefix
+ */
+export const parseAddressInput = (input: string): ParsedAddress | null => {
+  const value = input.trim();
+  if (!value) {
+    return null;
+  }
+
+  // IPv6, with or without a prefix length
+  const [ipv6Address, ipv6Prefix, ...ipv6Rest] = value.split('/');
+  if (ipv6Rest.length === 0 && ipv6Address.indexOf(':') !== -1 && isValidIPv6(ipv6Address)) {
+    const cidr = ipv6Prefix === undefined ? null : parsePrefix(ipv6Prefix.trim(), 128);
+    if (ipv6Prefix !== undefined && cidr === null) {
+      return null;
+    }
+    return { version: 6, notation: 'ipv6', ip: ipv6Address, cidr };
+  }
+
+  // Range written as start-end
+  const rangeParts = value.split(/\s*-\s*/);
+  if (rangeParts.length === 2) {
+    if (!isValidIP(rangeParts[0]) || !isValidIP(rangeParts[1])) {
+      return null;
+    }
+    const startInt = ipToInt(rangeParts[0]);
+    const endInt = ipToInt(rangeParts[1]);
+    if (startInt > endInt) {
+      return null;
+    }
+    const blocks = rangeToCidrs(startInt, endInt);
+    const covering = findSupernet(blocks);
+    return {
+      version: 4,
+      notation: 'range',
+      ip: covering.networkAddress,
+      cidr: covering.cidr,
+      rangeStart: rangeParts[0],
+      rangeEnd: rangeParts[1],
+      exactRange: blocks.length === 1,
+      rangeBlockCount: blocks.length
+    };
+  }
+
+  // Address followed by a prefix, a mask or a wildcard
+  const parts = value.split(/\s*\/\s*|\s+/);
+  if (parts.length > 2) {
+    return null;
+  }
+
+  const numeric = isValidIP(parts[0]) ? null : parseNumericAddress(parts[0]);
+  const ip = numeric ? numeric.ip : parts[0];
+  if (!isValidIP(ip)) {
+    return null;
+  }
+
+  if (parts.length === 1) {
+    return numeric
+      ? { version: 4, notation: numeric.notation, ip, cidr: null, source: parts[0] }
+      : { version: 4, notation: 'plain', ip, cidr: null };
+  }
+
+  const suffix = parts[1];
+  const prefix = parsePrefix(suffix, 32);
+  if (prefix !== null) {
+    return numeric
+      ? { version: 4, notation: numeric.notation, ip, cidr: prefix, source: parts[0] }
+      : { version: 4, notation: 'cidr', ip, cidr: prefix };
+  }
+
+  // 0.0.0.0 reads as the wildcard of a host (/32) rather than the mask of /0
+  if (isValidSubnetMask(suffix) && suffix !== '0.0.0.0') {
+    return { version: 4, notation: 'mask', ip, cidr: subnetMaskToCidr(suffix), source: suffix };
+  }
+
+  if (isValidWildcardMask(suffix)) {
+    return { version: 4, notation: 'wildcard', ip, cidr: subnetMaskToCidr(calculateWildcardMask(suffix)), source: suffix };
+  }
+
+  return null;
+};
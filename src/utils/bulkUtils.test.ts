@@ -0,0 +1,54 @@
+import { calculateBulk, sortBulkEntries, filterBulkEntries, MAX_BULK_LINES } from './bulkUtils';
+
+const list = [
+  '# inventory',
+  '10.0.0.0/24',
+  '',
+  '192.168.1.10, 255.255.255.192',
+  '172.16.0.1\t0.0.0.255',
+  '10.0.0.1',
+  '2001:db8::/32',
+  '10.0.0.1-10.0.0.9',
+  'not an address'
+].join('\n');
+
+describe('calculateBulk', () => {
+  test('calculates each line and reports why others failed', () => {
+    const { entries, truncated } = calculateBulk(list);
+    expect(truncated).toBe(false);
+    expect(entries.map(entry => [entry.lineNumber, entry.error])).toEqual([
+      [2, null],
+      [4, null],
+      [5, null],
+      [6, 'missingPrefix'],
+      [7, 'ipv6'],
+      [8, 'range'],
+      [9, 'invalidAddress']
+    ]);
+    expect(entries[1].result).toMatchObject({ networkAddress: '192.168.1.0', cidr: 26, usableHosts: 62 });
+    expect(entries[2].result).toMatchObject({ networkAddress: '172.16.0.0', cidr: 24 });
+    expect(entries[3].result).toBeNull();
+  });
+
+  test('stops after the line limit', () => {
+    const { entries, truncated } = calculateBulk(Array(MAX_BULK_LINES + 1).fill('10.0.0.0/8').join('\n'));
+    expect(entries).toHaveLength(MAX_BULK_LINES);
+    expect(truncated).toBe(true);
+  });
+});
+
+describe('sorting and filtering', () => {
+  const { entries } = calculateBulk(list);
+
+  test('sorts by a result column with failed lines last', () => {
+    expect(sortBulkEntries(entries, 'networkAddress').map(entry => entry.lineNumber)).toEqual([2, 5, 4, 6, 7, 8, 9]);
+    expect(sortBulkEntries(entries, 'usableHosts', true).map(entry => entry.lineNumber)).toEqual([2, 5, 4, 6, 7, 8, 9]);
+    expect(sortBulkEntries(entries, 'lineNumber', true).map(entry => entry.lineNumber)).toEqual([9, 8, 7, 6, 5, 4, 2]);
+  });
+
+  test('filters by status and by text in the input or the addresses', () => {
+    expect(filterBulkEntries(entries, '', 'invalid').map(entry => entry.lineNumber)).toEqual([6, 7, 8, 9]);
+    expect(filterBulkEntries(entries, '192.168.1.63', 'all').map(entry => entry.lineNumber)).toEqual([4]);
+    expect(filterBulkEntries(entries, '10.0.0', 'valid').map(entry => entry.lineNumber)).toEqual([2]);
+  });
+});
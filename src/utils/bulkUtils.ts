@@ -0,0 +1,130 @@
+/**
+ * Calculation of many networks at once, from a list with one address per line
+ */
+
+import { IPResult, calculateIPInfo, ipToInt } from './ipUtils';
+import { parseAddressInput } from './addressParser';
+
+export type BulkLineError = 'invalidAddress' | 'missingPrefix' | 'ipv6' | 'range';
+
+export interface BulkEntry {
+  // Line of the input, counting from 1
+  lineNumber: number;
+  input: string;
+  result: IPResult | null;
+  error: BulkLineError | null;
+}
+
+// Result columns holding a dotted-quad address
+type BulkAddressKey = 'networkAddress' | 'subnetMask' | 'broadcastAddress' | 'firstValidHost' | 'lastValidHost';
+
+export type BulkSortKey = 'lineNumber' | 'input' | 'usableHosts' | BulkAddressKey;
+
+export type BulkStatusFilter = 'all' | 'valid' | 'invalid';
+
+// Lines read from one list, enough for a large inventory while keeping the table responsive
+export const MAX_BULK_LINES = 5000;
+
+/**
+ * Reads one line: an address with a prefix, a mask or a wildcard
+ * Commas, semicolons and tabs separate the fields as well as spaces, so CSV columns can be pasted directly
+ */
+const calculateLine = (input: string, lineNumber: number): BulkEntry => {
+  const parsed = parseAddressInput(input.replace(/[,;\t]+/g, ' '));
+  let error: BulkLineError | null = null;
+
+  if (!parsed) {
+    error = 'invalidAddress';
+  } else if (parsed.version === 6) {
+    error = 'ipv6';
+  } else if (parsed.notation === 'range') {
+    error = 'range';
+  } else if (parsed.cidr === null) {
+    error = 'missingPrefix';
+  }
+
+  return {
+    lineNumber,
+    input,
+    result: parsed && !error && parsed.cidr !== null ? calculateIPInfo(parsed.ip, parsed.cidr) : null,
+    error
+  };
+};
+
+/**
+ * Calculates every non-empty line of a list; lines starting with # are comments
+ */
+export const calculateBulk = (text: string): { entries: BulkEntry[]; truncated: boolean } => {
+  const entries: BulkEntry[] = [];
+  let truncated = false;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const input = line.trim();
+    if (!input || input.startsWith('#')) {
+      return;
+    }
+    if (entries.length >= MAX_BULK_LINES) {
+      truncated = true;
+      return;
+    }
+    entries.push(calculateLine(input, index + 1));
+  });
+
+  return { entries, truncated };
+};
+
+/**
+ * Sorts entries by a column; lines that could not be calculated stay at the end for the result columns
+ */
+export const sortBulkEntries = (entries: BulkEntry[], key: BulkSortKey, descending = false): BulkEntry[] => {
+  const direction = descending ? -1 : 1;
+
+  const value = (entry: BulkEntry): number | null => {
+    if (key === 'lineNumber') {
+      return entry.lineNumber;
+    }
+    if (!entry.result) {
+      return null;
+    }
+    return key === 'usableHosts' ? entry.result.usableHosts : ipToInt(entry.result[key as BulkAddressKey]);
+  };
+
+  return entries.slice().sort((a, b) => {
+    if (key === 'input') {
+      return direction * a.input.localeCompare(b.input) || a.lineNumber - b.lineNumber;
+    }
+    const first = value(a);
+    const second = value(b);
+    if (first === null || second === null) {
+      return (first === null ? 1 : 0) - (second === null ? 1 : 0) || a.lineNumber - b.lineNumber;
+    }
+    return direction * (first - second) || a.lineNumber - b.lineNumber;
+  });
+};
+
+/**
+ * Keeps the entries whose input or addresses contain the query
+ */
+export const filterBulkEntries = (entries: BulkEntry[], query: string, status: BulkStatusFilter): BulkEntry[] => {
+  const text = query.trim().toLowerCase();
+
+  return entries.filter(entry => {
+    if ((status === 'valid' && !entry.result) || (status === 'invalid' && entry.result)) {
+      return false;
+    }
+    if (!text) {
+      return true;
+    }
+    const fields = [entry.input];
+    if (entry.result) {
+      fields.push(
+        `${entry.result.networkAddress}/${entry.result.cidr}`,
+        entry.result.subnetMask,
+        entry.result.broadcastAddress,
+        entry.result.firstValidHost,
+        entry.result.lastValidHost
+      );
+    }
+    return fields.some(field => field.toLowerCase().indexOf(text) !== -1);
+  });
+};
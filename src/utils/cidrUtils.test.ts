@@ -0,0 +1,174 @@
+import {
+  parseCidr,
+  parseCidrList,
+  mergeRanges,
+  findSupernet,
+  summarizeCidrs,
+  applyCidrSetOperation,
+  containsCidrs,
+  findCidrConflicts,
+  findFreeSpace
+} from './cidrUtils';
+import { ipToInt } from './ipUtils';
+
+const blocks = (...values: string[]) => values.map(value => parseCidr(value)!);
+const format = (list: { networkAddress: string; cidr: number }[]) => list.map(block => `${block.networkAddress}/${block.cidr}`);
+
+describe('parseCidr', () => {
+  test('reads prefix lengths, dotted masks and bare addresses', () => {
+    expect(parseCidr('10.0.0.0/8')).toEqual({ networkAddress: '10.0.0.0', cidr: 8 });
+    expect(parseCidr(' 10.0.0.0 / 8 ')).toEqual({ networkAddress: '10.0.0.0', cidr: 8 });
+    expect(parseCidr('172.16.0.0 255.240.0.0')).toEqual({ networkAddress: '172.16.0.0', cidr: 12 });
+    expect(parseCidr('192.0.2.7')).toEqual({ networkAddress: '192.0.2.7', cidr: 32 });
+  });
+
+  test('clears the host bits', () => {
+    expect(parseCidr('10.1.2.3/8')).toEqual({ networkAddress: '10.0.0.0', cidr: 8 });
+  });
+
+  test('rejects invalid prefixes and non-contiguous masks', () => {
+    expect(parseCidr('10.0.0.0/33')).toBeNull();
+    expect(parseCidr('10.0.0.0 255.0.255.0')).toBeNull();
+    expect(parseCidr('10.0.0/8')).toBeNull();
+    expect(parseCidr('10.0.0.0/8/2')).toBeNull();
+  });
+
+  test('parses lists and reports invalid entries', () => {
+    expect(parseCidrList('10.0.0.0/24, 10.0.1.0/24\nnope; 10.0.2.0/99')).toEqual({
+      blocks: [{ networkAddress: '10.0.0.0', cidr: 24 }, { networkAddress: '10.0.1.0', cidr: 24 }],
+      invalidEntries: ['nope', '10.0.2.0/99']
+    });
+  });
+});
+
+describe('summarization', () => {
+  test('merges ranges that overlap or touch', () => {
+    expect(mergeRanges([{ start: 10, end: 20 }, { start: 0, end: 4 }, { start: 5, end: 7 }, { start: 15, end: 30 }])).toEqual([
+      { start: 0, end: 7 },
+      { start: 10, end: 30 }
+    ]);
+  });
+
+  test('aggregates adjacent prefixes into the minimal exact list', () => {
+    const result = summarizeCidrs(blocks('192.168.0.0/24', '192.168.1.0/24', '192.168.2.0/24', '192.168.3.0/25'));
+    expect(format(result.summarized)).toEqual(['192.168.0.0/23', '192.168.2.0/24', '192.168.3.0/25']);
+    expect(result.supernet).toEqual({ networkAddress: '192.168.0.0', cidr: 22 });
+    expect(result.inputAddresses).toBe(896);
+    expect(result.extraAddresses).toBe(1024 - 896);
+  });
+
+  test('absorbs prefixes contained in others', () => {
+    const result = summarizeCidrs(blocks('10.0.0.0/16', '10.0.5.0/24', '10.1.0.0/16'));
+    expect(format(result.summarized)).toEqual(['10.0.0.0/15']);
+    expect(result.extraAddresses).toBe(0);
+  });
+
+  test('finds the smallest covering supernet', () => {
+    expect(findSupernet(blocks('10.0.0.0/24', '10.0.3.0/24'))).toEqual({ networkAddress: '10.0.0.0', cidr: 22 });
+    expect(findSupernet(blocks('10.0.0.0/8', '192.168.0.0/16'))).toEqual({ networkAddress: '0.0.0.0', cidr: 0 });
+  });
+});
+
+describe('set operations', () => {
+  const first = blocks('10.0.0.0/23');
+  const second = blocks('10.0.1.0/24', '10.0.2.0/24');
+
+  test('union merges both lists', () => {
+    expect(format(applyCidrSetOperation('union', first, second))).toEqual(['10.0.0.0/23', '10.0.2.0/24']);
+  });
+
+  test('intersect keeps the shared addresses', () => {
+    expect(format(applyCidrSetOperation('intersect', first, second))).toEqual(['10.0.1.0/24']);
+  });
+
+  test('exclude removes the second list from the first', () => {
+    expect(format(applyCidrSetOperation('exclude', blocks('10.0.0.0/16'), blocks('10.0.0.0/24', '10.0.5.0/24', '10.0.255.0/24')))).toEqual([
+      '10.0.1.0/24',
+      '10.0.2.0/23',
+      '10.0.4.0/24',
+      '10.0.6.0/23',
+      '10.0.8.0/21',
+      '10.0.16.0/20',
+      '10.0.32.0/19',
+      '10.0.64.0/18',
+      '10.0.128.0/18',
+      '10.0.192.0/19',
+      '10.0.224.0/20',
+      '10.0.240.0/21',
+      '10.0.248.0/22',
+      '10.0.252.0/23',
+      '10.0.254.0/24'
+    ]);
+  });
+
+  test('symmetric difference keeps what only one list covers', () => {
+    expect(format(applyCidrSetOperation('symmetricDifference', first, second))).toEqual(['10.0.0.0/24', '10.0.2.0/24']);
+  });
+
+  test('checks containment', () => {
+    expect(containsCidrs(blocks('10.0.0.0/22'), second)).toBe(true);
+    expect(containsCidrs(first, second)).toBe(false);
+  });
+});
+
+describe('findCidrConflicts', () => {
+  test('reports duplicates and nested prefixes with their overlap', () => {
+    const conflicts = findCidrConflicts(blocks('10.0.1.0/24', '10.0.0.0/16', '192.168.0.0/24', '10.0.1.0/24'));
+    expect(conflicts).toEqual([
+      {
+        first: { networkAddress: '10.0.0.0', cidr: 16 },
+        second: { networkAddress: '10.0.1.0', cidr: 24 },
+        firstIndex: 1,
+        secondIndex: 0,
+        type: 'contains',
+        overlapStart: '10.0.1.0',
+        overlapEnd: '10.0.1.255'
+      },
+      {
+        first: { networkAddress: '10.0.0.0', cidr: 16 },
+        second: { networkAddress: '10.0.1.0', cidr: 24 },
+        firstIndex: 1,
+        secondIndex: 3,
+        type: 'contains',
+        overlapStart: '10.0.1.0',
+        overlapEnd: '10.0.1.255'
+      },
+      {
+        first: { networkAddress: '10.0.1.0', cidr: 24 },
+        second: { networkAddress: '10.0.1.0', cidr: 24 },
+        firstIndex: 0,
+        secondIndex: 3,
+        type: 'duplicate',
+        overlapStart: '10.0.1.0',
+        overlapEnd: '10.0.1.255'
+      }
+    ]);
+  });
+
+  test('returns nothing for disjoint or adjacent prefixes', () => {
+    expect(findCidrConflicts(blocks('10.0.0.0/25', '10.0.0.128/25', '10.0.1.0/24'))).toEqual([]);
+  });
+});
+
+describe('findFreeSpace', () => {
+  test('lists the free blocks of a parent grouped by size', () => {
+    const result = findFreeSpace(parseCidr('192.168.0.0/24')!, blocks('192.168.0.0/26', '192.168.0.128/27', '10.0.0.0/8'));
+    expect(format(result.freeBlocks)).toEqual(['192.168.0.64/26', '192.168.0.160/27', '192.168.0.192/26']);
+    expect(result.groups.map(group => [group.cidr, format(group.blocks)])).toEqual([
+      [26, ['192.168.0.64/26', '192.168.0.192/26']],
+      [27, ['192.168.0.160/27']]
+    ]);
+    expect(result.largestFreeRange).toEqual({ start: ipToInt('192.168.0.160'), end: ipToInt('192.168.0.255') });
+    expect(result.totalAddresses).toBe(256);
+    expect(result.usedAddresses).toBe(96);
+    expect(result.freeAddresses).toBe(160);
+    expect(format(result.outsideParent)).toEqual(['10.0.0.0/8']);
+  });
+
+  test('reports a fully used parent', () => {
+    const result = findFreeSpace(parseCidr('10.0.0.0/24')!, blocks('10.0.0.0/25', '10.0.0.128/25'));
+    expect(result.freeBlocks).toEqual([]);
+    expect(result.largestFreeRange).toBeNull();
+    expect(result.freeAddresses).toBe(0);
+  });
+});
@@ -0,0 +1,396 @@
+/**
+ * Utilities for working with lists of IPv4 CIDR blocks
+ */
+
+import {
+  CidrBlock,
+  Subnet,
+  isValidIP,
+  ipToInt,
+  intToIp,
+  cidrToSubnetMask,
+  subnetMaskToCidr,
+  cidrSize,
+  rangeToCidrs
+} from './ipUtils';
+
+/**
+ * Inclusive range of 32-bit integers
+ */
+export interface IntRange {
+  start: number;
+  end: number;
+}
+
+export interface SummaryResult {
+  summarized: CidrBlock[];
+  supernet: CidrBlock;
+  inputAddresses: number;
+  supernetAddresses: number;
+  extraAddresses: number;
+}
+
+/**
+ * Parses one prefix written as "10.0.0.0/8", "10.0.0.0 255.0.0.0" or a bare address (/32)
+ * Host bits are cleared, so "10.1.2.3/8" becomes 10.0.0.0/8
+ */
+export const parseCidr = (value: string): CidrBlock | null => {
+  const parts = value.trim().split(/\s*\/\s*|\s+/);
+  if (parts.length === 0 || parts.length > 2 || !isValidIP(parts[0])) {
+    return null;
+  }
+
+  let cidr = 32;
+  if (parts.length === 2) {
+    if (/^\d{1,2}$/.test(parts[1])) {
+      cidr = parseInt(parts[1], 10);
+    } else if (isValidIP(parts[1]) && cidrToSubnetMask(subnetMaskToCidr(parts[1])) === parts[1]) {
+      cidr = subnetMaskToCidr(parts[1]);
+    } else {
+      return null;
+    }
+  }
+
+  if (cidr < 0 || cidr > 32) {
+    return null;
+  }
+
+  const networkInt = (ipToInt(parts[0]) & ipToInt(cidrToSubnetMask(cidr))) >>> 0;
+  return { networkAddress: intToIp(networkInt), cidr };
+};
+
+/**
+ * Parses a pasted list of prefixes separated by commas, semicolons or new lines
+ */
+export const parseCidrList = (text: string): { blocks: CidrBlock[]; invalidEntries: string[] } => {
+  const blocks: CidrBlock[] = [];
+  const invalidEntries: string[] = [];
+
+  text
+    .split(/[,;\n]/)
+    .map(entry => entry.trim())
+    .filter(entry => entry !== '')
+    .forEach(entry => {
+      const block = parseCidr(entry);
+      if (block) {
+        blocks.push(block);
+      } else {
+        invalidEntries.push(entry);
+      }
+    });
+
+  return { blocks, invalidEntries };
+};
+
+/**
+ * Converts a CIDR block to its inclusive integer range
+ */
+export const cidrToRange = (block: CidrBlock): IntRange => {
+  const start = ipToInt(block.networkAddress);
+  return { start, end: start + cidrSize(block.cidr) - 1 };
+};
+
+/**
+ * Formats a CIDR block as "a.b.c.d/n"
+ */
+export const formatCidr = (block: CidrBlock): string => {
+  return `${block.networkAddress}/${block.cidr}`;
+};
+
+/**
+ * Sorts ranges and merges the ones that overlap or touch
+ */
+export const mergeRanges = (ranges: IntRange[]): IntRange[] => {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start || a.end - b.end);
+  const merged: IntRange[] = [];
+
+  sorted.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  });
+
+  return merged;
+};
+
+/**
+ * Converts a list of ranges into the minimal list of CIDR blocks covering them exactly
+ */
+export const rangesToCidrs = (ranges: IntRange[]): CidrBlock[] => {
+  return mergeRanges(ranges).reduce<CidrBlock[]>(
+    (blocks, range) => blocks.concat(rangeToCidrs(range.start, range.end)),
+    []
+  );
+};
+
+/**
+ * Returns the smallest single block that contains every given block
+ */
+export const findSupernet = (blocks: CidrBlock[]): CidrBlock => {
+  const ranges = blocks.map(cidrToRange);
+  const lowest = Math.min(...ranges.map(range => range.start));
+  const highest = Math.max(...ranges.map(range => range.end));
+
+  // Shortens the mask until the lowest and highest addresses share the same network
+  let cidr = 32;
+  while (cidr > 0) {
+    const mask = ipToInt(cidrToSubnetMask(cidr));
+    if (((lowest & mask) >>> 0) === ((highest & mask) >>> 0)) {
+      break;
+    }
+    cidr--;
+  }
+
+  const networkInt = (lowest & ipToInt(cidrToSubnetMask(cidr))) >>> 0;
+  return { networkAddress: intToIp(networkInt), cidr };
+};
+
+/**
+ * Aggregates a list of prefixes into the minimal exact set of CIDRs and the single covering supernet
+ */
+export const summarizeCidrs = (blocks: CidrBlock[]): SummaryResult => {
+  const merged = mergeRanges(blocks.map(cidrToRange));
+  const summarized = rangesToCidrs(merged);
+  const supernet = findSupernet(blocks);
+  const inputAddresses = merged.reduce((sum, range) => sum + range.end - range.start + 1, 0);
+  const supernetAddresses = cidrSize(supernet.cidr);
+
+  return {
+    summarized,
+    supernet,
+    inputAddresses,
+    supernetAddresses,
+    extraAddresses: supernetAddresses - inputAddresses
+  };
+};
+
+export type CidrConflictType = 'duplicate' | 'contains';
+
+/**
+ * Pair of prefixes sharing addresses; `first` is always the larger (or earlier duplicate) one
+ */
+export interface CidrConflict {
+  first: CidrBlock;
+  second: CidrBlock;
+  firstIndex: number;
+  secondIndex: number;
+  type: CidrConflictType;
+  overlapStart: string;
+  overlapEnd: string;
+}
+
+/**
+ * Free blocks of one prefix length
+ */
+export interface FreeBlockGroup {
+  cidr: number;
+  blocks: CidrBlock[];
+}
+
+export interface FreeSpaceResult {
+  freeBlocks: CidrBlock[];
+  // Grouped by prefix length, largest blocks first
+  groups: FreeBlockGroup[];
+  // Largest run of free addresses, which may span several CIDRs
+  largestFreeRange: IntRange | null;
+  totalAddresses: number;
+  usedAddresses: number;
+  freeAddresses: number;
+  // Used prefixes that are not entirely inside the parent
+  outsideParent: CidrBlock[];
+}
+
+export type CidrSetOperation = 'union' | 'intersect' | 'exclude' | 'symmetricDifference';
+
+/**
+ * Removes every range in `removed` from `ranges`
+ */
+export const subtractRanges = (ranges: IntRange[], removed: IntRange[]): IntRange[] => {
+  const cuts = mergeRanges(removed);
+  const result: IntRange[] = [];
+
+  mergeRanges(ranges).forEach(range => {
+    let start = range.start;
+    cuts.forEach(cut => {
+      if (cut.end < start || cut.start > range.end) {
+        return;
+      }
+      if (cut.start > start) {
+        result.push({ start, end: cut.start - 1 });
+      }
+      start = Math.max(start, cut.end + 1);
+    });
+    if (start <= range.end) {
+      result.push({ start, end: range.end });
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Returns the parts covered by both lists of ranges
+ */
+export const intersectRanges = (first: IntRange[], second: IntRange[]): IntRange[] => {
+  const a = mergeRanges(first);
+  const b = mergeRanges(second);
+  const result: IntRange[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    const start = Math.max(a[i].start, b[j].start);
+    const end = Math.min(a[i].end, b[j].end);
+    if (start <= end) {
+      result.push({ start, end });
+    }
+    if (a[i].end < b[j].end) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Merges both lists into the minimal list of CIDRs covering either of them
+ */
+export const unionCidrs = (first: CidrBlock[], second: CidrBlock[]): CidrBlock[] => {
+  return rangesToCidrs(first.concat(second).map(cidrToRange));
+};
+
+/**
+ * Returns the CIDRs covered by both lists
+ */
+export const intersectCidrs = (first: CidrBlock[], second: CidrBlock[]): CidrBlock[] => {
+  return rangesToCidrs(intersectRanges(first.map(cidrToRange), second.map(cidrToRange)));
+};
+
+/**
+ * Removes the second list from the first (e.g. 10.0.0.0/16 minus three /24s)
+ */
+export const excludeCidrs = (first: CidrBlock[], second: CidrBlock[]): CidrBlock[] => {
+  return rangesToCidrs(subtractRanges(first.map(cidrToRange), second.map(cidrToRange)));
+};
+
+/**
+ * Returns the CIDRs covered by exactly one of the lists
+ */
+export const symmetricDifferenceCidrs = (first: CidrBlock[], second: CidrBlock[]): CidrBlock[] => {
+  return unionCidrs(excludeCidrs(first, second), excludeCidrs(second, first));
+};
+
+/**
+ * Checks whether every address of the second list is covered by the first
+ */
+export const containsCidrs = (first: CidrBlock[], second: CidrBlock[]): boolean => {
+  return subtractRanges(second.map(cidrToRange), first.map(cidrToRange)).length === 0;
+};
+
+/**
+ * Applies a set operation to two lists of CIDRs and returns the normalized result
+ */
+export const applyCidrSetOperation = (
+  operation: CidrSetOperation,
+  first: CidrBlock[],
+  second: CidrBlock[]
+): CidrBlock[] => {
+  switch (operation) {
+    case 'union':
+      return unionCidrs(first, second);
+    case 'intersect':
+      return intersectCidrs(first, second);
+    case 'exclude':
+      return excludeCidrs(first, second);
+    case 'symmetricDifference':
+      return symmetricDifferenceCidrs(first, second);
+    default:
+      return [];
+  }
+};
+
+/**
+ * Converts rows produced by generateSubnets into plain CIDR blocks
+ */
+export const subnetsToCidrs = (subnets: Subnet[]): CidrBlock[] => {
+  return subnets.map(subnet => ({ networkAddress: subnet.networkAddress, cidr: subnet.cidr }));
+};
+
+/**
+ * Finds every pair of prefixes that overlap
+ * Aligned CIDR blocks can only be identical or nested, so each pair is either a duplicate or a containment
+ */
+export const findCidrConflicts = (blocks: CidrBlock[]): CidrConflict[] => {
+  const entries = blocks
+    .map((block, index) => ({ block, index, range: cidrToRange(block) }))
+    .sort((a, b) => a.range.start - b.range.start || b.range.end - a.range.end || a.index - b.index);
+
+  const conflicts: CidrConflict[] = [];
+
+  entries.forEach((outer, i) => {
+    for (let j = i + 1; j < entries.length && entries[j].range.start <= outer.range.end; j++) {
+      const inner = entries[j];
+      const isDuplicate = inner.range.start === outer.range.start && inner.range.end === outer.range.end;
+
+      conflicts.push({
+        first: outer.block,
+        second: inner.block,
+        firstIndex: outer.index,
+        secondIndex: inner.index,
+        type: isDuplicate ? 'duplicate' : 'contains',
+        overlapStart: intToIp(inner.range.start),
+        overlapEnd: intToIp(Math.min(outer.range.end, inner.range.end))
+      });
+    }
+  });
+
+  return conflicts;
+};
+
+/**
+ * Lists the unallocated space of a parent prefix as minimal CIDRs, given the prefixes in use
+ */
+export const findFreeSpace = (parent: CidrBlock, used: CidrBlock[]): FreeSpaceResult => {
+  const parentRange = cidrToRange(parent);
+  const usedRanges = used.map(cidrToRange);
+  const freeRanges = subtractRanges([parentRange], usedRanges);
+  const freeBlocks = rangesToCidrs(freeRanges);
+
+  const groups: FreeBlockGroup[] = [];
+  freeBlocks
+    .slice()
+    .sort((a, b) => a.cidr - b.cidr || ipToInt(a.networkAddress) - ipToInt(b.networkAddress))
+    .forEach(block => {
+      const last = groups[groups.length - 1];
+      if (last && last.cidr === block.cidr) {
+        last.blocks.push(block);
+      } else {
+        groups.push({ cidr: block.cidr, blocks: [block] });
+      }
+    });
+
+  const largestFreeRange = freeRanges.reduce<IntRange | null>(
+    (largest, range) => (!largest || range.end - range.start > largest.end - largest.start ? range : largest),
+    null
+  );
+
+  const totalAddresses = cidrSize(parent.cidr);
+  const freeAddresses = freeRanges.reduce((sum, range) => sum + range.end - range.start + 1, 0);
+
+  return {
+    freeBlocks,
+    groups,
+    largestFreeRange,
+    totalAddresses,
+    usedAddresses: totalAddresses - freeAddresses,
+    freeAddresses,
+    outsideParent: used.filter((block, index) =>
+      usedRanges[index].start < parentRange.start || usedRanges[index].end > parentRange.end
+    )
+  };
+};
@@ -0,0 +1,125 @@
+import {
+  defaultDhcpScope,
+  getPoolRanges,
+  countPoolAddresses,
+  validateDhcpScope,
+  generateDhcpConfig,
+  DhcpScope
+} from './dhcpUtils';
+import { calculateIPInfo } from './ipUtils';
+
+const result = calculateIPInfo('192.168.1.0', 24);
+
+const scope: DhcpScope = {
+  poolStart: '192.168.1.100',
+  poolEnd: '192.168.1.200',
+  excludedStart: '192.168.1.150',
+  excludedEnd: '192.168.1.159',
+  gateway: '192.168.1.1',
+  dnsServers: ['192.168.1.1', '9.9.9.9'],
+  domainName: 'lan.example',
+  leaseTime: 43200
+};
+
+describe('pool bounds', () => {
+  test('proposes the gateway on the first host and a few static addresses after it', () => {
+    const proposed = defaultDhcpScope(result);
+    expect(proposed).toMatchObject({
+      poolStart: '192.168.1.1',
+      poolEnd: '192.168.1.254',
+      excludedStart: '192.168.1.2',
+      excludedEnd: '192.168.1.11',
+      gateway: '192.168.1.1',
+      leaseTime: 86400
+    });
+    expect(getPoolRanges(proposed)).toEqual([{ start: '192.168.1.12', end: '192.168.1.254' }]);
+    expect(countPoolAddresses(getPoolRanges(proposed))).toBe(243);
+  });
+
+  test('excludes nothing when the network has no room for static addresses', () => {
+    const proposed = defaultDhcpScope(calculateIPInfo('10.0.0.0', 30));
+    expect(proposed.excludedStart).toBe('');
+    expect(proposed.excludedEnd).toBe('');
+    expect(getPoolRanges(proposed)).toEqual([{ start: '10.0.0.2', end: '10.0.0.2' }]);
+  });
+
+  test('splits the pool around an excluded range and the gateway', () => {
+    const ranges = getPoolRanges(scope);
+    expect(ranges).toEqual([
+      { start: '192.168.1.100', end: '192.168.1.149' },
+      { start: '192.168.1.160', end: '192.168.1.200' }
+    ]);
+    expect(countPoolAddresses(ranges)).toBe(91);
+    expect(getPoolRanges({ ...scope, excludedStart: '', excludedEnd: '', gateway: '192.168.1.120' })).toEqual([
+      { start: '192.168.1.100', end: '192.168.1.119' },
+      { start: '192.168.1.121', end: '192.168.1.200' }
+    ]);
+  });
+
+  test('reports the first problem with the scope', () => {
+    expect(validateDhcpScope(result, scope)).toBeNull();
+    expect(validateDhcpScope(result, { ...scope, poolStart: '192.168.1.201' })).toBe('invalidPool');
+    expect(validateDhcpScope(result, { ...scope, poolEnd: '192.168.1.255' })).toBe('poolOutside');
+    expect(validateDhcpScope(result, { ...scope, excludedEnd: '' })).toBe('invalidExcluded');
+    expect(validateDhcpScope(result, { ...scope, excludedStart: '192.168.1.160' })).toBe('invalidExcluded');
+    expect(validateDhcpScope(result, { ...scope, gateway: '192.168.2.1' })).toBe('gatewayOutside');
+    expect(validateDhcpScope(result, { ...scope, dnsServers: ['resolver'] })).toBe('invalidDnsServer');
+    expect(validateDhcpScope(result, { ...scope, leaseTime: 0 })).toBe('invalidLeaseTime');
+    expect(validateDhcpScope(result, { ...scope, excludedStart: '192.168.1.100', excludedEnd: '192.168.1.200' })).toBe('emptyPool');
+  });
+});
+
+describe('generateDhcpConfig', () => {
+  test('writes an ISC dhcpd subnet declaration', () => {
+    expect(generateDhcpConfig('iscDhcpd', result, scope)).toBe([
+      'subnet 192.168.1.0 netmask 255.255.255.0 {',
+      '  range 192.168.1.100 192.168.1.149;',
+      '  range 192.168.1.160 192.168.1.200;',
+      '  option routers 192.168.1.1;',
+      '  option domain-name-servers 192.168.1.1, 9.9.9.9;',
+      '  option domain-name "lan.example";',
+      '  option subnet-mask 255.255.255.0;',
+      '  option broadcast-address 192.168.1.255;',
+      '  default-lease-time 43200;',
+      '  max-lease-time 86400;',
+      '}',
+      ''
+    ].join('\n'));
+  });
+
+  test('writes a Kea subnet with one pool per range', () => {
+    expect(JSON.parse(generateDhcpConfig('kea', result, scope))).toEqual({
+      Dhcp4: {
+        'valid-lifetime': 43200,
+        subnet4: [
+          {
+            id: 1,
+            subnet: '192.168.1.0/24',
+            pools: [{ pool: '192.168.1.100 - 192.168.1.149' }, { pool: '192.168.1.160 - 192.168.1.200' }],
+            'option-data': [
+              { name: 'routers', data: '192.168.1.1' },
+              { name: 'domain-name-servers', data: '192.168.1.1, 9.9.9.9' },
+              { name: 'domain-name', data: 'lan.example' }
+            ]
+          }
+        ]
+      }
+    });
+  });
+
+  test('writes dnsmasq ranges with the lease time in its own units', () => {
+    expect(generateDhcpConfig('dnsmasq', result, scope)).toBe([
+      'dhcp-range=192.168.1.100,192.168.1.149,255.255.255.0,12h',
+      'dhcp-range=192.168.1.160,192.168.1.200,255.255.255.0,12h',
+      'dhcp-option=option:router,192.168.1.1',
+      'dhcp-option=option:dns-server,192.168.1.1,9.9.9.9',
+      'domain=lan.example',
+      ''
+    ].join('\n'));
+    const minimal = { ...scope, excludedStart: '', excludedEnd: '', dnsServers: [], domainName: '' };
+    expect(generateDhcpConfig('dnsmasq', result, { ...minimal, leaseTime: 2700 })).toBe(
+      'dhcp-range=192.168.1.100,192.168.1.200,255.255.255.0,45m\ndhcp-option=option:router,192.168.1.1\n'
+    );
+    expect(generateDhcpConfig('dnsmasq', result, { ...minimal, leaseTime: 90 })).toContain(',255.255.255.0,90\n');
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * DHCP scope configuration for ISC dhcpd, Kea and dnsmasq
+ */
+
+import { IPResult, ipToInt, intToIp, isValidIP } from './ipUtils';
+
+export type DhcpServerFormat = 'iscDhcpd' | 'kea' | 'dnsmasq';
+
+export const dhcpServerFormats: DhcpServerFormat[] = ['iscDhcpd', 'kea', 'dnsmasq'];
+
+export interface DhcpScope {
+  poolStart: string;
+  poolEnd: string;
+  // Addresses kept for static assignment; both empty when nothing is excluded
+  excludedStart: string;
+  excludedEnd: string;
+  gateway: string;
+  dnsServers: string[];
+  domainName: string;
+  // Seconds
+  leaseTime: number;
+}
+
+export interface AddressRange {
+  start: string;
+  end: string;
+}
+
+export type DhcpScopeError =
+  | 'invalidPool'
+  | 'poolOutside'
+  | 'invalidExcluded'
+  | 'gatewayOutside'
+  | 'invalidDnsServer'
+  | 'invalidLeaseTime'
+  | 'emptyPool';
+
+export const DEFAULT_LEASE_TIME = 86400;
+// Addresses after the gateway kept out of the pool by default, for servers and network devices
+export const DEFAULT_STATIC_ADDRESSES = 10;
+
+/**
+ * Proposes a scope for a network: gateway on the first host, a few static addresses after it, the rest leased
+ */
+export const defaultDhcpScope = (result: Pick<IPResult, 'firstValidHost' | 'lastValidHost'>): DhcpScope => {
+  const first = ipToInt(result.firstValidHost);
+  const last = ipToInt(result.lastValidHost);
+  const staticEnd = Math.min(first + DEFAULT_STATIC_ADDRESSES, last - 1);
+  const hasStatic = staticEnd > first;
+
+  return {
+    poolStart: result.firstValidHost,
+    poolEnd: result.lastValidHost,
+    excludedStart: hasStatic ? intToIp(first + 1) : '',
+    excludedEnd: hasStatic ? intToIp(staticEnd) : '',
+    gateway: result.firstValidHost,
+    dnsServers: [],
+    domainName: '',
+    leaseTime: DEFAULT_LEASE_TIME
+  };
+};
+
+/**
+ * Splits the pool into the ranges left after removing the excluded range and the gateway
+ */
+export const getPoolRanges = (scope: DhcpScope): AddressRange[] => {
+  let ranges = [{ start: ipToInt(scope.poolStart), end: ipToInt(scope.poolEnd) }];
+
+  const remove = (start: number, end: number) => {
+    const remaining: { start: number; end: number }[] = [];
+    ranges.forEach(range => {
+      if (end < range.start || start > range.end) {
+        remaining.push(range);
+        return;
+      }
+      if (start > range.start) {
+        remaining.push({ start: range.start, end: start - 1 });
+      }
+      if (end < range.end) {
+        remaining.push({ start: end + 1, end: range.end });
+      }
+    });
+    ranges = remaining;
+  };
+
+  if (scope.excludedStart && scope.excludedEnd) {
+    remove(ipToInt(scope.excludedStart), ipToInt(scope.excludedEnd));
+  }
+  remove(ipToInt(scope.gateway), ipToInt(scope.gateway));
+
+  return ranges.map(range => ({ start: intToIp(range.start), end: intToIp(range.end) }));
+};
+
+/**
+ * Checks a scope against the usable hosts of the network, returning the first problem found
+ */
+export const validateDhcpScope = (result: IPResult, scope: DhcpScope): DhcpScopeError | null => {
+  const first = ipToInt(result.firstValidHost);
+  const last = ipToInt(result.lastValidHost);
+  const isUsable = (ip: string) => isValidIP(ip) && ipToInt(ip) >= first && ipToInt(ip) <= last;
+
+  if (!isValidIP(scope.poolStart) || !isValidIP(scope.poolEnd) || ipToInt(scope.poolStart) > ipToInt(scope.poolEnd)) {
+    return 'invalidPool';
+  }
+  if (!isUsable(scope.poolStart) || !isUsable(scope.poolEnd)) {
+    return 'poolOutside';
+  }
+  if ((scope.excludedStart || scope.excludedEnd) && (
+    !isUsable(scope.excludedStart) || !isUsable(scope.excludedEnd) || ipToInt(scope.excludedStart) > ipToInt(scope.excludedEnd)
+  )) {
+    return 'invalidExcluded';
+  }
+  if (!isUsable(scope.gateway)) {
+    return 'gatewayOutside';
+  }
+  if (scope.dnsServers.some(server => !isValidIP(server))) {
+    return 'invalidDnsServer';
+  }
+  if (!Number.isInteger(scope.leaseTime) || scope.leaseTime <= 0) {
+    return 'invalidLeaseTime';
+  }
+  if (getPoolRanges(scope).length === 0) {
+    return 'emptyPool';
+  }
+  return null;
+};
+
+/**
+ * Counts the addresses handed out by the pool
+ */
+export const countPoolAddresses = (ranges: AddressRange[]): number => {
+  return ranges.reduce((total, range) => total + ipToInt(range.end) - ipToInt(range.start) + 1, 0);
+};
+
+const iscDhcpd = (result: IPResult, scope: DhcpScope, ranges: AddressRange[]): string => {
+  const lines = [`subnet ${result.networkAddress} netmask ${result.subnetMask} {`];
+  ranges.forEach(range => lines.push(`  range ${range.start} ${range.end};`));
+  lines.push(`  option routers ${scope.gateway};`);
+  if (scope.dnsServers.length > 0) {
+    lines.push(`  option domain-name-servers ${scope.dnsServers.join(', ')};`);
+  }
+  if (scope.domainName) {
+    lines.push(`  option domain-name "${scope.domainName}";`);
+  }
+  lines.push(
+    `  option subnet-mask ${result.subnetMask};`,
+    `  option broadcast-address ${result.broadcastAddress};`,
+    `  default-lease-time ${scope.leaseTime};`,
+    `  max-lease-time ${scope.leaseTime * 2};`,
+    '}'
+  );
+  return lines.join('\n') + '\n';
+};
+
+const kea = (result: IPResult, scope: DhcpScope, ranges: AddressRange[]): string => {
+  const optionData = [{ name: 'routers', data: scope.gateway }];
+  if (scope.dnsServers.length > 0) {
+    optionData.push({ name: 'domain-name-servers', data: scope.dnsServers.join(', ') });
+  }
+  if (scope.domainName) {
+    optionData.push({ name: 'domain-name', data: scope.domainName });
+  }
+
+  const config = {
+    Dhcp4: {
+      'valid-lifetime': scope.leaseTime,
+      subnet4: [
+        {
+          id: 1,
+          subnet: `${result.networkAddress}/${result.cidr}`,
+          pools: ranges.map(range => ({ pool: `${range.start} - ${range.end}` })),
+          'option-data': optionData
+        }
+      ]
+    }
+  };
+  return JSON.stringify(config, null, 2) + '\n';
+};
+
+// dnsmasq reads lease times such as 45m, 12h or a number of seconds
+const dnsmasqLeaseTime = (seconds: number): string => {
+  if (seconds % 3600 === 0) {
+    return `${seconds / 3600}h`;
+  }
+  return seconds % 60 === 0 ? `${seconds / 60}m` : String(seconds);
+};
+
+const dnsmasq = (result: IPResult, scope: DhcpScope, ranges: AddressRange[]): string => {
+  const lines = ranges.map(range =>
+    `dhcp-range=${range.start},${range.end},${result.subnetMask},${dnsmasqLeaseTime(scope.leaseTime)}`);
+  lines.push(`dhcp-option=option:router,${scope.gateway}`);
+  if (scope.dnsServers.length > 0) {
+    lines.push(`dhcp-option=option:dns-server,${scope.dnsServers.join(',')}`);
+  }
+  if (scope.domainName) {
+    lines.push(`domain=${scope.domainName}`);
+  }
+  return lines.join('\n') + '\n';
+};
+
+const generators: { [format in DhcpServerFormat]: (result: IPResult, scope: DhcpScope, ranges: AddressRange[]) => string } = {
+  iscDhcpd,
+  kea,
+  dnsmasq
+};
+
+/**
+ * Generates the scope configuration for a DHCP server; the scope should be validated first
+ */
+export const generateDhcpConfig = (format: DhcpServerFormat, result: IPResult, scope: DhcpScope): string => {
+  return generators[format](result, scope, getPoolRanges(scope));
+};
@@ -0,0 +1,115 @@
+import { TextEncoder, TextDecoder } from 'util';
+import { toCsv, toJson, toMarkdown, toXlsx, createZip, crc32, downloadFile, ExportTable } from './exportUtils';
+
+const table: ExportTable = {
+  columns: [
+    { key: 'network', header: 'Network' },
+    { key: 'hosts', header: 'Hosts' },
+    { key: 'note', header: 'Note' }
+  ],
+  rows: [
+    ['10.0.0.0/26', 62, 'Servers, floor 1'],
+    ['10.0.0.64/26', 62, 'Says "hi"'],
+    ['10.0.0.128/25', 126, 'a|b\nc']
+  ]
+};
+
+// jsdom does not provide the encoders the XLSX export relies on
+Object.assign(global, { TextEncoder, TextDecoder });
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+const text = (data: Uint8Array) => new TextDecoder().decode(data);
+
+describe('text formats', () => {
+  test('CSV quotes fields holding separators, quotes or line breaks', () => {
+    expect(toCsv(table)).toBe([
+      'Network,Hosts,Note',
+      '10.0.0.0/26,62,"Servers, floor 1"',
+      '10.0.0.64/26,62,"Says ""hi"""',
+      '10.0.0.128/25,126,"a|b\nc"',
+      ''
+    ].join('\n'));
+    expect(toCsv({ columns: [{ key: 'note', header: 'Note' }], rows: [['one\rtwo'], ['plain']] })).toBe('Note\n"one\rtwo"\nplain\n');
+  });
+
+  test('JSON keys the records by column and keeps numbers numeric', () => {
+    expect(JSON.parse(toJson(table))[0]).toEqual({ network: '10.0.0.0/26', hosts: 62, note: 'Servers, floor 1' });
+  });
+
+  test('Markdown escapes pipes and flattens line breaks', () => {
+    expect(toMarkdown(table)).toBe([
+      '| Network | Hosts | Note |',
+      '| --- | --- | --- |',
+      '| 10.0.0.0/26 | 62 | Servers, floor 1 |',
+      '| 10.0.0.64/26 | 62 | Says "hi" |',
+      '| 10.0.0.128/25 | 126 | a\\|b c |',
+      ''
+    ].join('\n'));
+  });
+});
+
+describe('ZIP and XLSX', () => {
+  test('computes the CRC-32 check value', () => {
+    expect(crc32(bytes('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+
+  test('lays out the local headers, the central directory and its end record', () => {
+    const archive = createZip([{ name: 'a.txt', content: 'hello' }, { name: 'b.txt', content: '' }]);
+    const view = new DataView(archive.buffer);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(Array.from(archive.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    expect(view.getUint16(8, true)).toBe(0);
+    expect(view.getUint32(14, true)).toBe(crc32(bytes('hello')));
+    expect(view.getUint32(18, true)).toBe(5);
+    expect(view.getUint32(22, true)).toBe(5);
+    expect(view.getUint16(26, true)).toBe(5);
+    expect(text(archive.slice(30, 35))).toBe('a.txt');
+    expect(text(archive.slice(35, 40))).toBe('hello');
+    expect(view.getUint32(40, true)).toBe(0x04034b50);
+
+    const end = archive.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 8, true)).toBe(2);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralSize = view.getUint32(end + 12, true);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(centralOffset).toBe(40 + 30 + 5);
+    expect(centralOffset + centralSize).toBe(end);
+
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+    expect(view.getUint32(centralOffset + 42, true)).toBe(0);
+    const second = centralOffset + 46 + 5;
+    expect(view.getUint32(second, true)).toBe(0x02014b50);
+    expect(view.getUint32(second + 42, true)).toBe(40);
+  });
+
+  test('stores the sheet with numeric and escaped text cells', () => {
+    const content = text(toXlsx({ columns: [{ key: 'a', header: 'A & B' }], rows: [[24], ['<x>']] }, 'Plan: 10.0.0.0/8'));
+    expect(content).toContain('[Content_Types].xml');
+    expect(content).toContain('<sheet name="Plan  10.0.0.0 8" sheetId="1" r:id="rId1"/>');
+    expect(content).toContain('<c r="A1" t="inlineStr"><is><t xml:space="preserve">A &amp; B</t></is></c>');
+    expect(content).toContain('<c r="A2"><v>24</v></c>');
+    expect(content).toContain('<t xml:space="preserve">&lt;x&gt;</t>');
+  });
+});
+
+describe('downloadFile', () => {
+  test('revokes the object URL only after the click has been handled', () => {
+    jest.useFakeTimers();
+    const createObjectURL = jest.fn(() => 'blob:plan');
+    const revokeObjectURL = jest.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const click = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => undefined);
+
+    downloadFile('a,b\n', 'text/csv', 'plan.csv');
+    expect(click).toHaveBeenCalledTimes(1);
+    expect(revokeObjectURL).not.toHaveBeenCalled();
+    jest.runAllTimers();
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:plan');
+
+    click.mockRestore();
+    jest.useRealTimers();
+  });
+});
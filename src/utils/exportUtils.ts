@@ -0,0 +1,274 @@
+/**
+ * Export of tables to CSV, JSON, Markdown and XLSX files
+ */
+
+export type ExportFormat = 'csv' | 'json' | 'markdown' | 'xlsx';
+
+export const exportFormats: ExportFormat[] = ['csv', 'json', 'markdown', 'xlsx'];
+
+export type ExportValue = string | number;
+
+export interface ExportColumn {
+  // Stable property name used by the JSON export
+  key: string;
+  // Localized title used by the other formats
+  header: string;
+}
+
+export interface ExportTable {
+  columns: ExportColumn[];
+  rows: ExportValue[][];
+}
+
+const fileExtensions: { [format in ExportFormat]: string } = {
+  csv: 'csv',
+  json: 'json',
+  markdown: 'md',
+  xlsx: 'xlsx'
+};
+
+const mimeTypes: { [format in ExportFormat]: string } = {
+  csv: 'text/csv',
+  json: 'application/json',
+  markdown: 'text/markdown',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+/**
+ * Quotes a CSV field when needed
+ */
+const csvField = (value: ExportValue): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (table: ExportTable): string => {
+  return [table.columns.map(column => column.header)]
+    .concat(table.rows.map(row => row.map(String)))
+    .map(row => row.map(csvField).join(','))
+    .join('\n') + '\n';
+};
+
+export const toJson = (table: ExportTable): string => {
+  const records = table.rows.map(row => {
+    const record: { [key: string]: ExportValue } = {};
+    table.columns.forEach((column, index) => {
+      record[column.key] = row[index];
+    });
+    return record;
+  });
+  return JSON.stringify(records, null, 2) + '\n';
+};
+
+/**
+ * Escapes the characters that would break a Markdown table cell
+ */
+const markdownCell = (value: ExportValue): string => {
+  return String(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+};
+
+export const toMarkdown = (table: ExportTable): string => {
+  const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  return [
+    line(table.columns.map(column => markdownCell(column.header))),
+    line(table.columns.map(() => '---')),
+    ...table.rows.map(row => line(row.map(markdownCell)))
+  ].join('\n') + '\n';
+};
+
+const xmlEscape = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+/**
+ * Spreadsheet column name: 0 is A, 25 is Z, 26 is AA
+ */
+const columnName = (index: number): string => {
+  let name = '';
+  for (let value = index + 1; value > 0; value = Math.floor((value - 1) / 26)) {
+    name = String.fromCharCode(65 + ((value - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const sheetXml = (table: ExportTable): string => {
+  const rows = [table.columns.map(column => column.header as ExportValue)].concat(table.rows);
+  const rowsXml = rows.map((row, rowIndex) => {
+    const cells = row.map((value, columnIndex) => {
+      const reference = `${columnName(columnIndex)}${rowIndex + 1}`;
+      // Numbers stay numeric so that the spreadsheet can sum and sort them
+      return typeof value === 'number' && isFinite(value)
+        ? `<c r="${reference}"><v>${value}</v></c>`
+        : `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${xmlEscape(String(value))}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + `<sheetData>${rowsXml.join('')}</sheetData></worksheet>`;
+};
+
+// Lookup table of the CRC-32 used by ZIP archives
+const CRC_TABLE = (() => {
+  const table: number[] = [];
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table.push(c >>> 0);
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Packs files into a ZIP archive without compression (method "stored"), which is all an XLSX reader needs
+ */
+export const createZip = (files: { name: string; content: string }[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  const header = (size: number, fill: (view: DataView) => void): Uint8Array => {
+    const bytes = new Uint8Array(size);
+    fill(new DataView(bytes.buffer));
+    return bytes;
+  };
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    // Fields shared by the local and central headers: version, UTF-8 flag, method, time, date, CRC, sizes, name length
+    const common = (view: DataView, at: number) => {
+      view.setUint16(at, 20, true);
+      view.setUint16(at + 2, 0x0800, true);
+      view.setUint16(at + 4, 0, true);
+      view.setUint16(at + 6, 0, true);
+      view.setUint16(at + 8, 0x21, true);
+      view.setUint32(at + 10, crc, true);
+      view.setUint32(at + 14, data.length, true);
+      view.setUint32(at + 18, data.length, true);
+      view.setUint16(at + 22, name.length, true);
+    };
+
+    localParts.push(header(30, view => {
+      view.setUint32(0, 0x04034b50, true);
+      common(view, 4);
+    }), name, data);
+
+    centralParts.push(header(46, view => {
+      view.setUint32(0, 0x02014b50, true);
+      view.setUint16(4, 20, true);
+      common(view, 6);
+      view.setUint32(42, offset, true);
+    }), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((total, part) => total + part.length, 0);
+  const end = header(22, view => {
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, files.length, true);
+    view.setUint16(10, files.length, true);
+    view.setUint32(12, centralSize, true);
+    view.setUint32(16, offset, true);
+  });
+
+  const parts = localParts.concat(centralParts, [end]);
+  const archive = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    archive.set(part, position);
+    position += part.length;
+  });
+  return archive;
+};
+
+/**
+ * Builds a workbook with a single sheet
+ */
+export const toXlsx = (table: ExportTable, sheetName = 'Sheet1'): Uint8Array => {
+  // Sheet names are limited to 31 characters and cannot contain []:*?/\
+  const name = xmlEscape(sheetName.replace(/[[\]:*?/\\]/g, ' ').substring(0, 31));
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+        + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+        + '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>'
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+        + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets>`
+        + '</workbook>'
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+        + '</Relationships>'
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: sheetXml(table)
+    }
+  ]);
+};
+
+/**
+ * Saves content as a file through a temporary link
+ */
+export const downloadFile = (content: string | Uint8Array, mimeType: string, fileName: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download only after the click handler returns, so the URL must outlive it
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Saves a table as a file in the selected format; the extension is added to the file name
+ */
+export const downloadTable = (table: ExportTable, format: ExportFormat, fileName: string) => {
+  const content = format === 'csv' ? toCsv(table)
+    : format === 'json' ? toJson(table)
+    : format === 'markdown' ? toMarkdown(table)
+    : toXlsx(table, fileName);
+
+  downloadFile(content, mimeTypes[format], `${fileName}.${fileExtensions[format]}`);
+};
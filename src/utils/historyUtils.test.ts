@@ -0,0 +1,126 @@
+import {
+  addHistoryEntry,
+  updateHistoryEntry,
+  removeHistoryEntry,
+  clearHistory,
+  sortHistory,
+  searchHistory,
+  getSweepSize,
+  serializeHistory,
+  parseHistory,
+  HistoryRun,
+  HistoryEntry,
+  MAX_HISTORY_ENTRIES
+} from './historyUtils';
+
+const run = (ip: string, cidr = 24): HistoryRun => ({
+  kind: 'calculation',
+  ip,
+  cidr,
+  subnetCount: null,
+  ports: [],
+  openPorts: [],
+  startIp: null,
+  endIp: null,
+  hostsUp: null,
+  responseTime: null
+});
+
+const sweep: HistoryRun = { ...run('10.0.0.0'), kind: 'sweep', startIp: '10.0.0.1', endIp: '10.0.0.254', hostsUp: 12 };
+
+const at = (minute: number) => new Date(Date.UTC(2024, 0, 1, 12, minute));
+
+describe('addHistoryEntry', () => {
+  test('adds runs at the top', () => {
+    let entries = addHistoryEntry([], run('10.0.0.0'), at(0));
+    entries = addHistoryEntry(entries, run('192.168.1.0'), at(1));
+    expect(entries.map(entry => entry.ip)).toEqual(['192.168.1.0', '10.0.0.0']);
+    expect(entries[0].timestamp).toBe('2024-01-01T12:01:00.000Z');
+  });
+
+  test('moves a repeated run up and keeps its label and pin', () => {
+    let entries = addHistoryEntry([], run('10.0.0.0'), at(0));
+    const id = entries[0].id;
+    entries = updateHistoryEntry(entries, id, { label: 'Office', pinned: true });
+    entries = addHistoryEntry(entries, run('192.168.1.0'), at(1));
+    entries = addHistoryEntry(entries, run('10.0.0.0'), at(2));
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ id, label: 'Office', pinned: true, timestamp: '2024-01-01T12:02:00.000Z' });
+    expect(addHistoryEntry(entries, run('10.0.0.0', 25), at(3))).toHaveLength(3);
+  });
+
+  test('drops the oldest unpinned entries past the limit', () => {
+    let entries = addHistoryEntry([], run('10.0.0.0', 8), at(0));
+    entries = updateHistoryEntry(entries, entries[0].id, { pinned: true });
+    for (let i = 0; i <= MAX_HISTORY_ENTRIES; i++) {
+      entries = addHistoryEntry(entries, run(`10.0.${Math.floor(i / 256)}.${i % 256}`, 32), at(1));
+    }
+    expect(entries).toHaveLength(MAX_HISTORY_ENTRIES + 1);
+    expect(entries.some(entry => entry.ip === '10.0.0.0' && entry.cidr === 32)).toBe(false);
+    expect(entries.some(entry => entry.pinned)).toBe(true);
+  });
+});
+
+describe('managing entries', () => {
+  let entries: HistoryEntry[] = [];
+  entries = addHistoryEntry(entries, run('10.0.0.0'), at(0));
+  entries = addHistoryEntry(entries, sweep, at(1));
+  entries = addHistoryEntry(entries, run('172.16.0.0', 12), at(2));
+  entries = updateHistoryEntry(entries, entries[2].id, { label: 'Branch office', pinned: true });
+
+  test('keeps favourites first, then the most recent', () => {
+    expect(sortHistory(entries).map(entry => entry.ip)).toEqual(['10.0.0.0', '172.16.0.0', '10.0.0.0']);
+    expect(sortHistory(entries)[2].kind).toBe('sweep');
+  });
+
+  test('searches addresses, ranges and labels', () => {
+    expect(searchHistory(entries, 'branch').map(entry => entry.ip)).toEqual(['10.0.0.0']);
+    expect(searchHistory(entries, '10.0.0.254')).toEqual([entries[1]]);
+    expect(searchHistory(entries, '', true)).toEqual([entries[2]]);
+  });
+
+  test('clears and removes entries', () => {
+    expect(clearHistory(entries)).toEqual([entries[2]]);
+    expect(removeHistoryEntry(entries, entries[0].id)).toEqual(entries.slice(1));
+  });
+
+  test('counts the addresses of a sweep', () => {
+    expect(getSweepSize(sweep)).toBe(254);
+    expect(getSweepSize(run('10.0.0.0'))).toBe(0);
+  });
+
+  test('reads back a stored history and skips invalid entries', () => {
+    expect(parseHistory(serializeHistory(entries))).toEqual(entries);
+    const stored = JSON.stringify({
+      version: 1,
+      entries: [
+        { id: 'a', kind: 'traceroute', ip: '10.0.0.1', cidr: 32, timestamp: '2024-01-01T00:00:00.000Z' },
+        { id: 'b', kind: 'ping', ip: '10.0.0.1', cidr: 32, timestamp: '2024-01-01T00:00:00.000Z', ports: [22, 'x'] },
+        { id: 'c', kind: 'calculation', ip: '10.0.0.256', cidr: 24, timestamp: '2024-01-01T00:00:00.000Z' },
+        { id: 'd', kind: 'calculation', ip: '10.0.0.0', cidr: 33, timestamp: '2024-01-01T00:00:00.000Z' },
+        { id: 'e', kind: 'calculation', ip: '2001:db8::', cidr: 129, timestamp: '2024-01-01T00:00:00.000Z' },
+        { id: 'f', kind: 'calculation', ip: '10.0.0.0', cidr: 8.5, timestamp: '2024-01-01T00:00:00.000Z' },
+        null,
+        { id: 'g', kind: 'calculation', ip: '2001:db8::', cidr: 48, timestamp: '2024-01-01T00:00:00.000Z' }
+      ]
+    });
+    expect(parseHistory(stored)).toEqual([{
+      ...run('10.0.0.1', 32),
+      kind: 'ping',
+      id: 'b',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      ports: [22],
+      label: '',
+      pinned: false
+    }, {
+      ...run('2001:db8::', 48),
+      id: 'g',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      label: '',
+      pinned: false
+    }]);
+    expect(parseHistory(null)).toEqual([]);
+    expect(parseHistory('{"version":2,"entries":[]}')).toEqual([]);
+    expect(parseHistory('[1]')).toEqual([]);
+  });
+});
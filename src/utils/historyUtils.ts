@@ -0,0 +1,211 @@
+/**
+ * History of calculations and tool runs, with favourites that are kept when the history is cleared
+ */
+
+import { ipToInt, isValidIP } from './ipUtils';
+import { isValidIPv6 } from './ipv6Utils';
+
+export const HISTORY_VERSION = 1;
+
+// Unpinned entries kept, the oldest being dropped first
+export const MAX_HISTORY_ENTRIES = 200;
+
+export type HistoryKind = 'calculation' | 'ping' | 'ports' | 'sweep';
+
+// What a calculation or a tool run recorded, before it gets an identity in the history
+export interface HistoryRun {
+  kind: HistoryKind;
+  // Calculated address, which the tools run against
+  ip: string;
+  cidr: number;
+  // Number of generated subnets, calculations only
+  subnetCount: number | null;
+  // Checked ports and the open ones, port scans only
+  ports: number[];
+  openPorts: number[];
+  // Swept range, sweeps only
+  startIp: string | null;
+  endIp: string | null;
+  hostsUp: number | null;
+  // Round-trip time in ms, null when the host did not reply; pings only
+  responseTime: number | null;
+}
+
+// Run reported by the network tools, which do not know the prefix or the subnets of the calculation
+export type ToolRun = Omit<HistoryRun, 'cidr' | 'subnetCount'>;
+
+export interface HistoryEntry extends HistoryRun {
+  id: string;
+  // ISO date of the last run
+  timestamp: string;
+  label: string;
+  pinned: boolean;
+}
+
+/**
+ * Generates an identifier for history entries
+ */
+const createId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+};
+
+/**
+ * Whether two runs repeat the same calculation or tool run, whatever they found
+ */
+const isSameRun = (a: HistoryRun, b: HistoryRun): boolean => {
+  return a.kind === b.kind
+    && a.ip === b.ip
+    && a.cidr === b.cidr
+    && a.subnetCount === b.subnetCount
+    && a.startIp === b.startIp
+    && a.endIp === b.endIp
+    && a.ports.join(',') === b.ports.join(',');
+};
+
+/**
+ * Adds a run at the top of the history; running the same thing again moves its entry up and keeps its label and pin
+ */
+export const addHistoryEntry = (entries: HistoryEntry[], run: HistoryRun, now: Date = new Date()): HistoryEntry[] => {
+  const existing = entries.find(entry => isSameRun(entry, run));
+  const entry: HistoryEntry = {
+    ...run,
+    id: existing ? existing.id : createId(),
+    timestamp: now.toISOString(),
+    label: existing ? existing.label : '',
+    pinned: existing ? existing.pinned : false
+  };
+
+  let unpinned = 0;
+  return [entry].concat(entries.filter(item => item !== existing)).filter(item => {
+    if (item.pinned) {
+      return true;
+    }
+    unpinned++;
+    return unpinned <= MAX_HISTORY_ENTRIES;
+  });
+};
+
+export const updateHistoryEntry = (
+  entries: HistoryEntry[],
+  id: string,
+  changes: Partial<Pick<HistoryEntry, 'label' | 'pinned'>>
+): HistoryEntry[] => {
+  return entries.map(entry => (entry.id === id ? { ...entry, ...changes } : entry));
+};
+
+export const removeHistoryEntry = (entries: HistoryEntry[], id: string): HistoryEntry[] => {
+  return entries.filter(entry => entry.id !== id);
+};
+
+/**
+ * Removes everything except the favourites
+ */
+export const clearHistory = (entries: HistoryEntry[]): HistoryEntry[] => {
+  return entries.filter(entry => entry.pinned);
+};
+
+/**
+ * Favourites first, then the most recent runs
+ */
+export const sortHistory = (entries: HistoryEntry[]): HistoryEntry[] => {
+  return entries.slice().sort((a, b) => {
+    if (a.pinned !== b.pinned) {
+      return a.pinned ? -1 : 1;
+    }
+    return b.timestamp.localeCompare(a.timestamp);
+  });
+};
+
+/**
+ * Keeps the entries whose addresses, ports or label contain the query
+ */
+export const searchHistory = (entries: HistoryEntry[], query: string, pinnedOnly = false): HistoryEntry[] => {
+  const text = query.trim().toLowerCase();
+
+  return entries.filter(entry => {
+    if (pinnedOnly && !entry.pinned) {
+      return false;
+    }
+    if (!text) {
+      return true;
+    }
+    const fields = [`${entry.ip}/${entry.cidr}`, entry.label, entry.startIp || '', entry.endIp || '', entry.ports.join(' ')];
+    return fields.some(field => field.toLowerCase().indexOf(text) !== -1);
+  });
+};
+
+/**
+ * Number of addresses in the range of a sweep
+ */
+export const getSweepSize = (entry: HistoryRun): number => {
+  return entry.startIp && entry.endIp ? ipToInt(entry.endIp) - ipToInt(entry.startIp) + 1 : 0;
+};
+
+export const serializeHistory = (entries: HistoryEntry[]): string => {
+  return JSON.stringify({ version: HISTORY_VERSION, entries });
+};
+
+const historyKinds: HistoryKind[] = ['calculation', 'ping', 'ports', 'sweep'];
+
+type JsonObject = { [key: string]: unknown };
+
+const isObject = (value: unknown): value is JsonObject => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isHistoryKind = (value: unknown): value is HistoryKind => historyKinds.some(kind => kind === value);
+
+const readNumber = (value: unknown): number | null => (typeof value === 'number' && isFinite(value) ? value : null);
+
+const readNumbers = (value: unknown): number[] => {
+  return Array.isArray(value) ? value.filter((item): item is number => readNumber(item) !== null) : [];
+};
+
+/**
+ * Whether the prefix length fits the address family of the address
+ */
+const isValidPrefix = (ip: string, cidr: number): boolean => {
+  const maxCidr = isValidIP(ip) ? 32 : isValidIPv6(ip) ? 128 : -1;
+  return Number.isInteger(cidr) && cidr >= 0 && cidr <= maxCidr;
+};
+
+/**
+ * Reads a stored history; entries that cannot be understood are left out
+ */
+export const parseHistory = (text: string | null): HistoryEntry[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text || '');
+  } catch (error) {
+    return [];
+  }
+
+  if (!isObject(data) || data.version !== HISTORY_VERSION || !Array.isArray(data.entries)) {
+    return [];
+  }
+
+  const entries: HistoryEntry[] = [];
+  for (const item of data.entries as unknown[]) {
+    if (!isObject(item) || typeof item.id !== 'string' || !isHistoryKind(item.kind) || typeof item.ip !== 'string'
+      || typeof item.cidr !== 'number' || !isValidPrefix(item.ip, item.cidr) || typeof item.timestamp !== 'string') {
+      continue;
+    }
+    entries.push({
+      id: item.id,
+      kind: item.kind,
+      ip: item.ip,
+      cidr: item.cidr,
+      subnetCount: readNumber(item.subnetCount),
+      ports: readNumbers(item.ports),
+      openPorts: readNumbers(item.openPorts),
+      startIp: typeof item.startIp === 'string' ? item.startIp : null,
+      endIp: typeof item.endIp === 'string' ? item.endIp : null,
+      hostsUp: readNumber(item.hostsUp),
+      responseTime: readNumber(item.responseTime),
+      timestamp: item.timestamp,
+      label: typeof item.label === 'string' ? item.label : '',
+      pinned: item.pinned === true
+    });
+  }
+  return entries;
+};
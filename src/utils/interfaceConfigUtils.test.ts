@@ -0,0 +1,167 @@
+import {
+  generateInterfaceConfig,
+  validateInterfaceConfig,
+  suggestHostAddress,
+  getGatewayAddress,
+  toInterfaceNetwork,
+  InterfaceConfigOptions
+} from './interfaceConfigUtils';
+import { calculateIPInfo, generateSubnets } from './ipUtils';
+
+const network = toInterfaceNetwork(calculateIPInfo('192.168.10.0', 24));
+
+const gatewayOptions: InterfaceConfigOptions = {
+  interfaceName: 'GigabitEthernet0/1',
+  role: 'gateway',
+  gateway: '192.168.10.1',
+  address: '',
+  dnsServers: ['1.1.1.1', '8.8.8.8'],
+  description: 'Office LAN'
+};
+
+const hostOptions: InterfaceConfigOptions = {
+  interfaceName: 'eth0',
+  role: 'host',
+  gateway: '192.168.10.1',
+  address: '192.168.10.2',
+  dnsServers: ['1.1.1.1', '8.8.8.8'],
+  description: ''
+};
+
+describe('gateway and host addresses', () => {
+  test('reads results and subnet rows alike', () => {
+    expect(network).toEqual({ networkAddress: '192.168.10.0', cidr: 24, firstHost: '192.168.10.1', lastHost: '192.168.10.254' });
+    const subnet = generateSubnets('10.0.0.0', 24, 4).subnets[1];
+    expect(toInterfaceNetwork(subnet)).toEqual({ networkAddress: '10.0.0.64', cidr: 26, firstHost: '10.0.0.65', lastHost: '10.0.0.126' });
+  });
+
+  test('places the gateway on the first, last or a chosen address', () => {
+    expect(getGatewayAddress(network, 'first', '')).toBe('192.168.10.1');
+    expect(getGatewayAddress(network, 'last', '')).toBe('192.168.10.254');
+    expect(getGatewayAddress(network, 'custom', ' 192.168.10.100 ')).toBe('192.168.10.100');
+  });
+
+  test('suggests a host address beside the gateway', () => {
+    expect(suggestHostAddress(network, '192.168.10.1')).toBe('192.168.10.2');
+    expect(suggestHostAddress(network, '192.168.10.254')).toBe('192.168.10.1');
+    const link = toInterfaceNetwork(calculateIPInfo('10.0.0.0', 31));
+    expect(suggestHostAddress(link, '10.0.0.0')).toBe('10.0.0.1');
+    const host = toInterfaceNetwork(calculateIPInfo('10.0.0.1', 32));
+    expect(suggestHostAddress(host, '10.0.0.1')).toBeNull();
+  });
+
+  test('reports the first problem with the options', () => {
+    expect(validateInterfaceConfig(network, gatewayOptions)).toBeNull();
+    expect(validateInterfaceConfig(network, hostOptions)).toBeNull();
+    expect(validateInterfaceConfig(network, { ...hostOptions, interfaceName: ' ' })).toBe('missingInterface');
+    expect(validateInterfaceConfig(network, { ...hostOptions, gateway: '192.168.10.255' })).toBe('gatewayOutside');
+    expect(validateInterfaceConfig(network, { ...hostOptions, address: '192.168.11.2' })).toBe('addressOutside');
+    expect(validateInterfaceConfig(network, { ...hostOptions, address: '192.168.10.1' })).toBe('addressIsGateway');
+    expect(validateInterfaceConfig(network, { ...hostOptions, dnsServers: ['dns.example'] })).toBe('invalidDnsServer');
+  });
+});
+
+describe('generateInterfaceConfig', () => {
+  test('Cisco IOS uses the dotted mask and a default route only for hosts', () => {
+    expect(generateInterfaceConfig('ciscoIos', network, gatewayOptions)).toBe([
+      'interface GigabitEthernet0/1',
+      ' description Office LAN',
+      ' ip address 192.168.10.1 255.255.255.0',
+      ' no shutdown',
+      '!',
+      'ip name-server 1.1.1.1 8.8.8.8',
+      ''
+    ].join('\n'));
+    expect(generateInterfaceConfig('ciscoIos', network, { ...hostOptions, interfaceName: 'Vlan10' })).toContain(
+      ' ip address 192.168.10.2 255.255.255.0\n no shutdown\n!\nip route 0.0.0.0 0.0.0.0 192.168.10.1\n'
+    );
+  });
+
+  test('Junos uses the prefix length and the interface unit', () => {
+    expect(generateInterfaceConfig('junos', network, { ...hostOptions, interfaceName: 'ge-0/0/1.100', description: 'Users' })).toBe([
+      'set interfaces ge-0/0/1 unit 100 description "Users"',
+      'set interfaces ge-0/0/1 unit 100 family inet address 192.168.10.2/24',
+      'set routing-options static route 0.0.0.0/0 next-hop 192.168.10.1',
+      'set system name-server 1.1.1.1',
+      'set system name-server 8.8.8.8',
+      ''
+    ].join('\n'));
+  });
+
+  test('MikroTik adds the network and the route', () => {
+    expect(generateInterfaceConfig('mikrotik', network, { ...hostOptions, interfaceName: 'ether2' })).toBe([
+      '/ip address',
+      'add address=192.168.10.2/24 interface=ether2 network=192.168.10.0',
+      '/ip route',
+      'add dst-address=0.0.0.0/0 gateway=192.168.10.1',
+      '/ip dns',
+      'set servers=1.1.1.1,8.8.8.8',
+      ''
+    ].join('\n'));
+  });
+
+  test('netplan routes through the gateway', () => {
+    expect(generateInterfaceConfig('netplan', network, hostOptions)).toBe([
+      '# /etc/netplan/01-netcfg.yaml',
+      'network:',
+      '  version: 2',
+      '  ethernets:',
+      '    eth0:',
+      '      addresses:',
+      '        - 192.168.10.2/24',
+      '      routes:',
+      '        - to: default',
+      '          via: 192.168.10.1',
+      '      nameservers:',
+      '        addresses: [1.1.1.1, 8.8.8.8]',
+      ''
+    ].join('\n'));
+  });
+
+  test('/etc/network/interfaces and systemd-networkd name the gateway', () => {
+    expect(generateInterfaceConfig('debianInterfaces', network, hostOptions)).toBe([
+      '# /etc/network/interfaces',
+      'auto eth0',
+      'iface eth0 inet static',
+      '    address 192.168.10.2/24',
+      '    gateway 192.168.10.1',
+      '    dns-nameservers 1.1.1.1 8.8.8.8',
+      ''
+    ].join('\n'));
+    expect(generateInterfaceConfig('systemdNetworkd', network, hostOptions)).toBe([
+      '# /etc/systemd/network/10-eth0.network',
+      '[Match]',
+      'Name=eth0',
+      '',
+      '[Network]',
+      'Address=192.168.10.2/24',
+      'Gateway=192.168.10.1',
+      'DNS=1.1.1.1',
+      'DNS=8.8.8.8',
+      ''
+    ].join('\n'));
+  });
+
+  test('netsh uses the dotted mask and orders the DNS servers', () => {
+    expect(generateInterfaceConfig('windowsNetsh', network, { ...hostOptions, interfaceName: 'Ethernet' })).toBe([
+      'netsh interface ipv4 set address name="Ethernet" static 192.168.10.2 255.255.255.0 192.168.10.1',
+      'netsh interface ipv4 set dnsservers name="Ethernet" static 1.1.1.1 primary',
+      'netsh interface ipv4 add dnsservers name="Ethernet" 8.8.8.8 index=2',
+      ''
+    ].join('\n'));
+  });
+
+  test('leaves the gateway out when the device carries it', () => {
+    const config = generateInterfaceConfig('systemdNetworkd', toInterfaceNetwork(calculateIPInfo('10.0.0.0', 30)), {
+      ...gatewayOptions,
+      interfaceName: 'eth1',
+      gateway: '10.0.0.2',
+      dnsServers: []
+    });
+    expect(config).toContain('Description=Office LAN\nAddress=10.0.0.2/30\n');
+    expect(config).not.toContain('Gateway=');
+    expect(generateInterfaceConfig('windowsNetsh', network, { ...gatewayOptions, interfaceName: 'LAN', dnsServers: [] })).toBe(
+      'netsh interface ipv4 set address name="LAN" static 192.168.10.1 255.255.255.0\n'
+    );
+  });
+});
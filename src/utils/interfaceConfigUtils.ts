@@ -0,0 +1,267 @@
+/**
+ * Interface configuration snippets for routers and hosts
+ */
+
+import { IPResult, Subnet, CidrBlock, cidrToSubnetMask, ipToInt, intToIp, isValidIP } from './ipUtils';
+
+export type ConfigPlatform =
+  | 'ciscoIos'
+  | 'junos'
+  | 'mikrotik'
+  | 'netplan'
+  | 'debianInterfaces'
+  | 'systemdNetworkd'
+  | 'windowsNetsh';
+
+export const configPlatforms: ConfigPlatform[] = [
+  'ciscoIos',
+  'junos',
+  'mikrotik',
+  'netplan',
+  'debianInterfaces',
+  'systemdNetworkd',
+  'windowsNetsh'
+];
+
+// The device either owns the gateway address or is a host that routes through it
+export type InterfaceRole = 'gateway' | 'host';
+
+// Which usable address of the subnet is the gateway
+export type GatewayChoice = 'first' | 'last' | 'custom';
+
+export interface InterfaceNetwork extends CidrBlock {
+  firstHost: string;
+  lastHost: string;
+}
+
+export interface InterfaceConfigOptions {
+  interfaceName: string;
+  role: InterfaceRole;
+  gateway: string;
+  // Address of the device when it is a host
+  address: string;
+  dnsServers: string[];
+  description: string;
+}
+
+export type InterfaceConfigError =
+  | 'missingInterface'
+  | 'gatewayOutside'
+  | 'addressOutside'
+  | 'addressIsGateway'
+  | 'invalidDnsServer';
+
+export const defaultInterfaceNames: { [platform in ConfigPlatform]: string } = {
+  ciscoIos: 'GigabitEthernet0/0',
+  junos: 'ge-0/0/0',
+  mikrotik: 'ether1',
+  netplan: 'eth0',
+  debianInterfaces: 'eth0',
+  systemdNetworkd: 'eth0',
+  windowsNetsh: 'Ethernet'
+};
+
+// Routers usually carry the gateway address, servers and workstations use it
+export const defaultRoles: { [platform in ConfigPlatform]: InterfaceRole } = {
+  ciscoIos: 'gateway',
+  junos: 'gateway',
+  mikrotik: 'gateway',
+  netplan: 'host',
+  debianInterfaces: 'host',
+  systemdNetworkd: 'host',
+  windowsNetsh: 'host'
+};
+
+/**
+ * Reads the addresses needed for an interface from a calculator result or a generated subnet
+ */
+export const toInterfaceNetwork = (source: IPResult | Subnet): InterfaceNetwork => {
+  return 'firstValidHost' in source
+    ? { networkAddress: source.networkAddress, cidr: source.cidr, firstHost: source.firstValidHost, lastHost: source.lastValidHost }
+    : { networkAddress: source.networkAddress, cidr: source.cidr, firstHost: source.firstHost, lastHost: source.lastHost };
+};
+
+export const getGatewayAddress = (network: InterfaceNetwork, choice: GatewayChoice, custom: string): string => {
+  if (choice === 'custom') {
+    return custom.trim();
+  }
+  return choice === 'first' ? network.firstHost : network.lastHost;
+};
+
+const isUsableAddress = (network: InterfaceNetwork, ip: string): boolean => {
+  if (!isValidIP(ip)) {
+    return false;
+  }
+  const value = ipToInt(ip);
+  return value >= ipToInt(network.firstHost) && value <= ipToInt(network.lastHost);
+};
+
+/**
+ * Proposes a host address next to the gateway: the first usable one, or the second when the gateway takes the first
+ * Returns null when the subnet has no address besides the gateway
+ */
+export const suggestHostAddress = (network: InterfaceNetwork, gateway: string): string | null => {
+  const first = ipToInt(network.firstHost);
+  const last = ipToInt(network.lastHost);
+  const candidate = gateway === network.firstHost ? first + 1 : first;
+  return candidate <= last && intToIp(candidate) !== gateway ? intToIp(candidate) : null;
+};
+
+/**
+ * Checks the options against the subnet, returning the first problem found
+ */
+export const validateInterfaceConfig = (network: InterfaceNetwork, options: InterfaceConfigOptions): InterfaceConfigError | null => {
+  if (!options.interfaceName.trim()) {
+    return 'missingInterface';
+  }
+  if (!isUsableAddress(network, options.gateway)) {
+    return 'gatewayOutside';
+  }
+  if (options.role === 'host') {
+    if (!isUsableAddress(network, options.address)) {
+      return 'addressOutside';
+    }
+    if (options.address === options.gateway) {
+      return 'addressIsGateway';
+    }
+  }
+  if (options.dnsServers.some(server => !isValidIP(server))) {
+    return 'invalidDnsServer';
+  }
+  return null;
+};
+
+const ciscoIos = (network: InterfaceNetwork, options: InterfaceConfigOptions, address: string, gateway: string | null): string[] => {
+  const lines = [`interface ${options.interfaceName}`];
+  if (options.description) {
+    lines.push(` description ${options.description}`);
+  }
+  lines.push(` ip address ${address} ${cidrToSubnetMask(network.cidr)}`, ' no shutdown', '!');
+  if (gateway) {
+    lines.push(`ip route 0.0.0.0 0.0.0.0 ${gateway}`);
+  }
+  if (options.dnsServers.length > 0) {
+    lines.push(`ip name-server ${options.dnsServers.join(' ')}`);
+  }
+  return lines;
+};
+
+const junos = (network: InterfaceNetwork, options: InterfaceConfigOptions, address: string, gateway: string | null): string[] => {
+  // "ge-0/0/0.100" is unit 100 of ge-0/0/0
+  const [name, unit = '0'] = options.interfaceName.split('.');
+  const lines: string[] = [];
+  if (options.description) {
+    lines.push(`set interfaces ${name} unit ${unit} description "${options.description}"`);
+  }
+  lines.push(`set interfaces ${name} unit ${unit} family inet address ${address}/${network.cidr}`);
+  if (gateway) {
+    lines.push(`set routing-options static route 0.0.0.0/0 next-hop ${gateway}`);
+  }
+  options.dnsServers.forEach(server => lines.push(`set system name-server ${server}`));
+  return lines;
+};
+
+const mikrotik = (network: InterfaceNetwork, options: InterfaceConfigOptions, address: string, gateway: string | null): string[] => {
+  const comment = options.description ? ` comment="${options.description}"` : '';
+  const lines = [
+    '/ip address',
+    `add address=${address}/${network.cidr} interface=${options.interfaceName} network=${network.networkAddress}${comment}`
+  ];
+  if (gateway) {
+    lines.push('/ip route', `add dst-address=0.0.0.0/0 gateway=${gateway}`);
+  }
+  if (options.dnsServers.length > 0) {
+    lines.push('/ip dns', `set servers=${options.dnsServers.join(',')}`);
+  }
+  return lines;
+};
+
+const netplan = (network: InterfaceNetwork, options: InterfaceConfigOptions, address: string, gateway: string | null): string[] => {
+  const lines = [
+    '# /etc/netplan/01-netcfg.yaml',
+    'network:',
+    '  version: 2',
+    '  ethernets:',
+    `    ${options.interfaceName}:`,
+    '      addresses:',
+    `        - ${address}/${network.cidr}`
+  ];
+  if (gateway) {
+    lines.push('      routes:', '        - to: default', `          via: ${gateway}`);
+  }
+  if (options.dnsServers.length > 0) {
+    lines.push('      nameservers:', `        addresses: [${options.dnsServers.join(', ')}]`);
+  }
+  return lines;
+};
+
+const debianInterfaces = (network: InterfaceNetwork, options: InterfaceConfigOptions, address: string, gateway: string | null): string[] => {
+  const lines = [
+    '# /etc/network/interfaces',
+    `auto ${options.interfaceName}`,
+    `iface ${options.interfaceName} inet static`,
+    `    address ${address}/${network.cidr}`
+  ];
+  if (gateway) {
+    lines.push(`    gateway ${gateway}`);
+  }
+  if (options.dnsServers.length > 0) {
+    // Read by the resolvconf package
+    lines.push(`    dns-nameservers ${options.dnsServers.join(' ')}`);
+  }
+  return lines;
+};
+
+const systemdNetworkd = (network: InterfaceNetwork, options: InterfaceConfigOptions, address: string, gateway: string | null): string[] => {
+  const lines = [
+    `# /etc/systemd/network/10-${options.interfaceName}.network`,
+    '[Match]',
+    `Name=${options.interfaceName}`,
+    '',
+    '[Network]'
+  ];
+  if (options.description) {
+    lines.push(`Description=${options.description}`);
+  }
+  lines.push(`Address=${address}/${network.cidr}`);
+  if (gateway) {
+    lines.push(`Gateway=${gateway}`);
+  }
+  options.dnsServers.forEach(server => lines.push(`DNS=${server}`));
+  return lines;
+};
+
+const windowsNetsh = (network: InterfaceNetwork, options: InterfaceConfigOptions, address: string, gateway: string | null): string[] => {
+  const name = `name="${options.interfaceName}"`;
+  const lines = [
+    `netsh interface ipv4 set address ${name} static ${address} ${cidrToSubnetMask(network.cidr)}${gateway ? ` ${gateway}` : ''}`
+  ];
+  options.dnsServers.forEach((server, index) => {
+    lines.push(index === 0
+      ? `netsh interface ipv4 set dnsservers ${name} static ${server} primary`
+      : `netsh interface ipv4 add dnsservers ${name} ${server} index=${index + 1}`);
+  });
+  return lines;
+};
+
+const generators: {
+  [platform in ConfigPlatform]: (network: InterfaceNetwork, options: InterfaceConfigOptions, address: string, gateway: string | null) => string[]
+} = {
+  ciscoIos,
+  junos,
+  mikrotik,
+  netplan,
+  debianInterfaces,
+  systemdNetworkd,
+  windowsNetsh
+};
+
+/**
+ * Generates the configuration of one interface
+ * A gateway carries the gateway address itself; a host gets its own address and a default route through the gateway
+ */
+export const generateInterfaceConfig = (platform: ConfigPlatform, network: InterfaceNetwork, options: InterfaceConfigOptions): string => {
+  const address = options.role === 'gateway' ? options.gateway : options.address;
+  const gateway = options.role === 'host' ? options.gateway : null;
+  return generators[platform](network, options, address, gateway).join('\n') + '\n';
+};
@@ -0,0 +1,120 @@
+import {
+  isValidIP,
+  ipToInt,
+  intToIp,
+  cidrToSubnetMask,
+  subnetMaskToCidr,
+  calculateIPInfo,
+  generateSubnets,
+  rangeToCidrs
+} from './ipUtils';
+
+describe('address conversions', () => {
+  test('round-trips addresses through 32-bit integers', () => {
+    expect(ipToInt('192.168.1.10')).toBe(3232235786);
+    expect(ipToInt('255.255.255.255')).toBe(4294967295);
+    expect(intToIp(3232235786)).toBe('192.168.1.10');
+    expect(intToIp(0)).toBe('0.0.0.0');
+  });
+
+  test('rejects malformed addresses', () => {
+    expect(isValidIP('10.0.0.1')).toBe(true);
+    expect(isValidIP('256.0.0.1')).toBe(false);
+    expect(isValidIP('10.0.0')).toBe(false);
+    expect(isValidIP('10.0.0.1/24')).toBe(false);
+  });
+
+  test('converts between prefix lengths and masks, including /0 and /32', () => {
+    expect(cidrToSubnetMask(0)).toBe('0.0.0.0');
+    expect(cidrToSubnetMask(20)).toBe('255.255.240.0');
+    expect(cidrToSubnetMask(32)).toBe('255.255.255.255');
+    expect(subnetMaskToCidr('255.255.255.192')).toBe(26);
+    expect(subnetMaskToCidr('255.255.255.255')).toBe(32);
+  });
+});
+
+describe('calculateIPInfo', () => {
+  test('calculates a /24', () => {
+    const info = calculateIPInfo('192.168.1.77', 24);
+    expect(info.networkAddress).toBe('192.168.1.0');
+    expect(info.broadcastAddress).toBe('192.168.1.255');
+    expect(info.firstValidHost).toBe('192.168.1.1');
+    expect(info.lastValidHost).toBe('192.168.1.254');
+    expect(info.wildcardMask).toBe('0.0.0.255');
+    expect(info.totalHosts).toBe(256);
+    expect(info.usableHosts).toBe(254);
+  });
+
+  test('uses both addresses of a /31 point-to-point link (RFC 3021)', () => {
+    const info = calculateIPInfo('10.0.0.5', 31);
+    expect(info.networkAddress).toBe('10.0.0.4');
+    expect(info.broadcastAddress).toBe('10.0.0.5');
+    expect(info.firstValidHost).toBe('10.0.0.4');
+    expect(info.lastValidHost).toBe('10.0.0.5');
+    expect(info.usableHosts).toBe(2);
+  });
+
+  test('treats a /32 as a single host route', () => {
+    const info = calculateIPInfo('10.0.0.5', 32);
+    expect(info.networkAddress).toBe('10.0.0.5');
+    expect(info.broadcastAddress).toBe('10.0.0.5');
+    expect(info.firstValidHost).toBe('10.0.0.5');
+    expect(info.lastValidHost).toBe('10.0.0.5');
+    expect(info.subnetMask).toBe('255.255.255.255');
+    expect(info.usableHosts).toBe(1);
+  });
+
+  test('covers the whole address space with /0', () => {
+    const info = calculateIPInfo('203.0.113.9', 0);
+    expect(info.networkAddress).toBe('0.0.0.0');
+    expect(info.broadcastAddress).toBe('255.255.255.255');
+    expect(info.totalHosts).toBe(4294967296);
+  });
+});
+
+describe('generateSubnets', () => {
+  test('splits a network into equal subnets', () => {
+    const { subnets, truncated } = generateSubnets('192.168.1.77', 24, 3);
+    expect(truncated).toBe(false);
+    expect(subnets.map(subnet => `${subnet.networkAddress}/${subnet.cidr}`)).toEqual([
+      '192.168.1.0/26',
+      '192.168.1.64/26',
+      '192.168.1.128/26'
+    ]);
+    expect(subnets[1]).toEqual({
+      id: 2,
+      networkAddress: '192.168.1.64',
+      broadcastAddress: '192.168.1.127',
+      firstHost: '192.168.1.65',
+      lastHost: '192.168.1.126',
+      cidr: 26,
+      usableHosts: 62
+    });
+  });
+
+  test('flags a network too small for the requested count', () => {
+    const { subnets, truncated } = generateSubnets('10.0.0.0', 30, 8);
+    expect(truncated).toBe(true);
+    expect(subnets).toHaveLength(4);
+    expect(subnets[3]).toMatchObject({ networkAddress: '10.0.0.3', cidr: 32, usableHosts: 1 });
+  });
+});
+
+describe('rangeToCidrs', () => {
+  test('splits a range into the fewest aligned blocks', () => {
+    expect(rangeToCidrs(ipToInt('10.0.0.5'), ipToInt('10.0.0.20'))).toEqual([
+      { networkAddress: '10.0.0.5', cidr: 32 },
+      { networkAddress: '10.0.0.6', cidr: 31 },
+      { networkAddress: '10.0.0.8', cidr: 29 },
+      { networkAddress: '10.0.0.16', cidr: 30 },
+      { networkAddress: '10.0.0.20', cidr: 32 }
+    ]);
+  });
+
+  test('returns a single block for an aligned range', () => {
+    expect(rangeToCidrs(ipToInt('172.16.0.0'), ipToInt('172.31.255.255'))).toEqual([
+      { networkAddress: '172.16.0.0', cidr: 12 }
+    ]);
+    expect(rangeToCidrs(0, 4294967295)).toEqual([{ networkAddress: '0.0.0.0', cidr: 0 }]);
+  });
+});
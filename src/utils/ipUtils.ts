@@ -2,7 +2,10 @@
  * Utilities for IP and subnet calculations
  */
 
+import { specialPurposeBlocks, publicAddressBlock, SpecialPurposeBlock } from './specialAddresses';
+
 export interface IPResult {
+  version: 4;
   networkAddress: string;
   broadcastAddress: string;
   firstValidHost: string;
@@ -17,6 +20,12 @@ export interface IPResult {
   wildcardMask: string;
   subnetBits: number;
   hostBits: number;
+  classification: SpecialPurposeBlock;
+}
+
+export interface CidrBlock {
+  networkAddress: string;
+  cidr: number;
 }
 
 export interface Subnet {
@@ -29,6 +38,12 @@ export interface Subnet {
   usableHosts: number;
 }
 
+export interface SubnetSplit {
+  subnets: Subnet[];
+  // Set when the network cannot hold the requested number of subnets, even with /32 subnets
+  truncated: boolean;
+}
+
 /**
  * Validates if the IP address is valid
  */
@@ -64,10 +79,34 @@ export const intToIp = (int: number): string => {
  * Converts CIDR to subnet mask
  */
 export const cidrToSubnetMask = (cidr: number): string => {
-  const mask = ~(0xffffffff >>> cidr) >>> 0;
+  // Shift counts are taken modulo 32, so /32 has to be handled explicitly
+  const mask = cidr >= 32 ? 0xffffffff : ~(0xffffffff >>> cidr) >>> 0;
   return intToIp(mask);
 };
 
+/**
+ * Returns the number of addresses in a block with the given CIDR
+ */
+export const cidrSize = (cidr: number): number => {
+  return Math.pow(2, 32 - cidr);
+};
+
+/**
+ * Returns the usable host range of a network
+ * /31 point-to-point links use both addresses (RFC 3021) and /32 is a single host route
+ */
+export const calculateHostRange = (networkInt: number, cidr: number): {
+  firstHostInt: number,
+  lastHostInt: number,
+  usableHosts: number
+} => {
+  const size = cidrSize(cidr);
+  if (cidr >= 31) {
+    return { firstHostInt: networkInt, lastHostInt: networkInt + size - 1, usableHosts: size };
+  }
+  return { firstHostInt: networkInt + 1, lastHostInt: networkInt + size - 2, usableHosts: size - 2 };
+};
+
 /**
  * Converts subnet mask to CIDR
  */
@@ -129,8 +168,6 @@ export const generateBinaryAndOperation = (ip: string, subnetMask: string): {
   const networkBits = subnetMaskToCidr(subnetMask);
   
   return { ipBits, maskBits, resultBits, networkBits };
-  
-  return { ipBits, maskBits, resultBits, networkBits };
 };
 
 /**
@@ -180,6 +217,25 @@ export const calculateWildcardMask = (subnetMask: string): string => {
   return intToIp(wildcardInt);
 };
 
+/**
+ * Finds the most specific special-purpose block (IANA registry) containing the address
+ */
+export const classifyIPv4 = (ip: string): SpecialPurposeBlock => {
+  const ipInt = ipToInt(ip);
+  const matches = specialPurposeBlocks.filter(block => {
+    const maskInt = ipToInt(cidrToSubnetMask(block.cidr));
+    return ((ipInt & maskInt) >>> 0) === ipToInt(block.networkAddress);
+  });
+  return matches.sort((a, b) => b.cidr - a.cidr)[0] || publicAddressBlock;
+};
+
+/**
+ * Checks if the address belongs to a local network (private, CGNAT, loopback or link-local)
+ */
+export const isLocalIPv4 = (ip: string): boolean => {
+  return ['private', 'sharedAddressSpace', 'loopback', 'linkLocal'].includes(classifyIPv4(ip).category);
+};
+
 /**
  * Calculates all information for an IP address and subnet mask
  */
@@ -187,16 +243,17 @@ export const calculateIPInfo = (ip: string, cidr: number): IPResult => {
   const subnetMask = cidrToSubnetMask(cidr);
   const networkAddress = calculateNetworkAddress(ip, subnetMask);
   const broadcastAddress = calculateBroadcastAddress(ip, subnetMask);
-  const firstValidHost = calculateFirstHost(networkAddress);
-  const lastValidHost = calculateLastHost(broadcastAddress);
-  const totalHosts = Math.pow(2, 32 - cidr);
-  const usableHosts = totalHosts > 2 ? totalHosts - 2 : 0;
+  const { firstHostInt, lastHostInt, usableHosts } = calculateHostRange(ipToInt(networkAddress), cidr);
+  const firstValidHost = intToIp(firstHostInt);
+  const lastValidHost = intToIp(lastHostInt);
+  const totalHosts = cidrSize(cidr);
   const binarySubnetMask = ipToBinary(subnetMask);
   const binaryIpAddress = ipToBinary(ip);
   const binaryNetworkAddress = ipToBinary(networkAddress);
   const wildcardMask = calculateWildcardMask(subnetMask);
 
   return {
+    version: 4,
     networkAddress,
     broadcastAddress,
     firstValidHost,
@@ -210,17 +267,18 @@ export const calculateIPInfo = (ip: string, cidr: number): IPResult => {
     binaryNetworkAddress,
     wildcardMask,
     subnetBits: cidr - (cidr <= 8 ? 0 : cidr <= 16 ? 8 : cidr <= 24 ? 16 : 24),
-    hostBits: 32 - cidr
+    hostBits: 32 - cidr,
+    classification: classifyIPv4(ip)
   };
 };
 
 /**
  * Generates subnets from an IP address and subnet mask
  */
-export const generateSubnets = (ip: string, cidr: number, subnetCount: number): Subnet[] => {
+export const generateSubnets = (ip: string, cidr: number, subnetCount: number): SubnetSplit => {
   // Calculates the new CIDR for the subnets
   const bitsNeeded = Math.ceil(Math.log2(subnetCount));
-  const newCidr = Math.min(cidr + bitsNeeded, 30); // Limited to 30 to allow at least 2 hosts
+  const newCidr = Math.min(cidr + bitsNeeded, 32);
   
   // Calcula o endereço de rede do IP original
   const subnetMask = cidrToSubnetMask(cidr);
@@ -238,17 +296,43 @@ export const generateSubnets = (ip: string, cidr: number, subnetCount: number):
     const subnetStartInt = networkInt + (i * subnetSize);
     const subnetStart = intToIp(subnetStartInt);
     const subnetEnd = intToIp(subnetStartInt + subnetSize - 1);
+    const { firstHostInt, lastHostInt, usableHosts } = calculateHostRange(subnetStartInt, newCidr);
     
     subnets.push({
       id: i + 1,
       networkAddress: subnetStart,
       broadcastAddress: subnetEnd,
-      firstHost: intToIp(subnetStartInt + 1),
-      lastHost: intToIp(subnetStartInt + subnetSize - 2),
+      firstHost: intToIp(firstHostInt),
+      lastHost: intToIp(lastHostInt),
       cidr: newCidr,
-      usableHosts: subnetSize - 2
+      usableHosts
     });
   }
   
-  return subnets;
+  return { subnets, truncated: subnets.length < subnetCount };
+};
+
+/**
+ * Splits an inclusive range of 32-bit integers into the minimal list of CIDR blocks
+ */
+export const rangeToCidrs = (startInt: number, endInt: number): CidrBlock[] => {
+  const blocks: CidrBlock[] = [];
+  let current = startInt;
+
+  while (current <= endInt) {
+    // Grows the block while it stays aligned on its own size and inside the range
+    let cidr = 32;
+    while (
+      cidr > 0 &&
+      current % cidrSize(cidr - 1) === 0 &&
+      current + cidrSize(cidr - 1) - 1 <= endInt
+    ) {
+      cidr--;
+    }
+
+    blocks.push({ networkAddress: intToIp(current), cidr });
+    current += cidrSize(cidr);
+  }
+
+  return blocks;
 };
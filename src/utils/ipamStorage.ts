@@ -0,0 +1,91 @@
+/**
+ * IndexedDB persistence for the IPAM workspace
+ */
+
+import { IpamWorkspace, IpamPool, IpamAllocation, IPAM_WORKSPACE_VERSION } from './ipamUtils';
+
+const DATABASE_NAME = 'ipcalc-network';
+const DATABASE_VERSION = 1;
+const POOLS_STORE = 'ipamPools';
+const ALLOCATIONS_STORE = 'ipamAllocations';
+
+/**
+ * Opens the database, creating the object stores on first use
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(POOLS_STORE)) {
+        db.createObjectStore(POOLS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(ALLOCATIONS_STORE)) {
+        db.createObjectStore(ALLOCATIONS_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Loads the stored workspace (empty when nothing has been saved yet)
+ */
+export const loadWorkspace = async (): Promise<IpamWorkspace> => {
+  const db = await openDatabase();
+
+  try {
+    const transaction = db.transaction([POOLS_STORE, ALLOCATIONS_STORE], 'readonly');
+    const [pools, allocations] = await Promise.all([
+      requestToPromise(transaction.objectStore(POOLS_STORE).getAll() as IDBRequest<IpamPool[]>),
+      requestToPromise(transaction.objectStore(ALLOCATIONS_STORE).getAll() as IDBRequest<IpamAllocation[]>)
+    ]);
+
+    return { version: IPAM_WORKSPACE_VERSION, pools, allocations };
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Replaces the stored workspace with the given one in a single transaction
+ */
+export const saveWorkspace = async (workspace: IpamWorkspace): Promise<void> => {
+  const db = await openDatabase();
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([POOLS_STORE, ALLOCATIONS_STORE], 'readwrite');
+      const poolsStore = transaction.objectStore(POOLS_STORE);
+      const allocationsStore = transaction.objectStore(ALLOCATIONS_STORE);
+
+      poolsStore.clear();
+      allocationsStore.clear();
+      workspace.pools.forEach(pool => poolsStore.put(pool));
+      workspace.allocations.forEach(allocation => allocationsStore.put(allocation));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,103 @@
+import {
+  emptyWorkspace,
+  addPool,
+  allocateSubnet,
+  allocateNextFree,
+  findNextFreeBlock,
+  getPoolUtilization,
+  removePool,
+  serializeWorkspace,
+  parseWorkspace,
+  IpamWorkspace
+} from './ipamUtils';
+import { parseCidr } from './cidrUtils';
+
+const details = { name: 'Users', vlan: 10, owner: 'NetOps', notes: '' };
+const block = (value: string) => parseCidr(value)!;
+
+const createWorkspace = (): IpamWorkspace => {
+  let workspace = addPool(emptyWorkspace, block('10.0.0.0/24'), 'Office').workspace;
+  const poolId = workspace.pools[0].id;
+  workspace = allocateSubnet(workspace, poolId, block('10.0.0.0/26'), details).workspace;
+  workspace = allocateSubnet(workspace, poolId, block('10.0.0.128/27'), details).workspace;
+  return workspace;
+};
+
+describe('workspace operations', () => {
+  test('rejects overlapping pools', () => {
+    const workspace = createWorkspace();
+    expect(addPool(workspace, block('10.0.0.128/25'), 'Lab')).toEqual({ workspace, error: 'poolOverlaps' });
+    expect(addPool(workspace, block('10.0.1.0/24'), '').workspace.pools[1].name).toBe('10.0.1.0/24');
+  });
+
+  test('rejects allocations outside the pool or overlapping others', () => {
+    const workspace = createWorkspace();
+    const poolId = workspace.pools[0].id;
+    expect(allocateSubnet(workspace, poolId, block('10.0.1.0/26'), details).error).toBe('outsidePool');
+    expect(allocateSubnet(workspace, poolId, block('10.0.0.32/27'), details).error).toBe('overlapsAllocation');
+    expect(allocateSubnet(workspace, 'missing', block('10.0.0.64/26'), details).error).toBe('outsidePool');
+  });
+
+  test('finds the lowest aligned free block', () => {
+    const workspace = createWorkspace();
+    const pool = workspace.pools[0];
+    expect(findNextFreeBlock(workspace, pool, 26)).toEqual({ networkAddress: '10.0.0.64', cidr: 26 });
+    expect(findNextFreeBlock(workspace, pool, 27)).toEqual({ networkAddress: '10.0.0.64', cidr: 27 });
+    expect(findNextFreeBlock(workspace, pool, 25)).toBeNull();
+    expect(findNextFreeBlock(workspace, pool, 23)).toBeNull();
+
+    const filled = allocateNextFree(workspace, pool.id, 26, details).workspace;
+    expect(findNextFreeBlock(filled, pool, 26)).toEqual({ networkAddress: '10.0.0.192', cidr: 26 });
+    expect(allocateNextFree(filled, pool.id, 25, details).error).toBe('noFreeBlock');
+  });
+
+  test('reports pool utilization', () => {
+    const workspace = createWorkspace();
+    expect(getPoolUtilization(workspace, workspace.pools[0])).toEqual({
+      allocatedAddresses: 96,
+      totalAddresses: 256,
+      freeAddresses: 160,
+      percent: 37.5
+    });
+  });
+
+  test('removes a pool with its allocations', () => {
+    const workspace = createWorkspace();
+    expect(removePool(workspace, workspace.pools[0].id)).toEqual(emptyWorkspace);
+  });
+});
+
+describe('parseWorkspace', () => {
+  const document = (pools: object[], allocations: object[]) => JSON.stringify({ version: 1, pools, allocations });
+  const pool = { id: 'p1', name: 'Office', description: '', networkAddress: '10.0.0.0', cidr: 24 };
+  const allocation = { id: 'a1', poolId: 'p1', name: 'Users', vlan: null, owner: '', notes: '', networkAddress: '10.0.0.0', cidr: 26 };
+
+  test('reads back a serialized workspace', () => {
+    const workspace = createWorkspace();
+    expect(parseWorkspace(serializeWorkspace(workspace))).toEqual({ workspace });
+  });
+
+  test('rejects malformed files', () => {
+    const invalid = { workspace: null, error: 'invalidFile' };
+    expect(parseWorkspace('{')).toEqual(invalid);
+    expect(parseWorkspace(JSON.stringify({ version: 2, pools: [], allocations: [] }))).toEqual(invalid);
+    expect(parseWorkspace(document([{ ...pool, networkAddress: '10.0.0.1' }], []))).toEqual(invalid);
+    expect(parseWorkspace(document([pool], [{ ...allocation, poolId: 'p2' }]))).toEqual(invalid);
+    expect(parseWorkspace(document([pool], [{ ...allocation, cidr: '26' }]))).toEqual(invalid);
+  });
+
+  test('rejects content that breaks the workspace rules', () => {
+    expect(parseWorkspace(document([pool], [{ ...allocation, id: 'p1' }]))).toEqual({
+      workspace: null, error: 'duplicateId', entry: 'p1'
+    });
+    expect(parseWorkspace(document([pool, { ...pool, id: 'p2', networkAddress: '10.0.0.128', cidr: 25 }], []))).toEqual({
+      workspace: null, error: 'poolOverlaps', entry: '10.0.0.128/25'
+    });
+    expect(parseWorkspace(document([pool], [{ ...allocation, networkAddress: '10.0.0.0', cidr: 23 }]))).toEqual({
+      workspace: null, error: 'outsidePool', entry: '10.0.0.0/23'
+    });
+    expect(parseWorkspace(document([pool], [allocation, { ...allocation, id: 'a2', networkAddress: '10.0.0.32', cidr: 27 }]))).toEqual({
+      workspace: null, error: 'overlapsAllocation', entry: '10.0.0.32/27'
+    });
+  });
+});
@@ -0,0 +1,353 @@
+/**
+ * IP address management workspace: parent pools and the subnets allocated from them
+ */
+
+import { CidrBlock, ipToInt, intToIp, cidrSize } from './ipUtils';
+import { IntRange, cidrToRange, mergeRanges, parseCidr } from './cidrUtils';
+
+export const IPAM_WORKSPACE_VERSION = 1;
+
+export interface IpamPool extends CidrBlock {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface IpamAllocationDetails {
+  name: string;
+  vlan: number | null;
+  owner: string;
+  notes: string;
+}
+
+export interface IpamAllocation extends CidrBlock, IpamAllocationDetails {
+  id: string;
+  poolId: string;
+}
+
+export interface IpamWorkspace {
+  version: number;
+  pools: IpamPool[];
+  allocations: IpamAllocation[];
+}
+
+export type IpamError = 'poolOverlaps' | 'outsidePool' | 'overlapsAllocation' | 'noFreeBlock';
+
+// Operations return the new workspace, or the unchanged one along with the reason
+export interface IpamChange {
+  workspace: IpamWorkspace;
+  error?: IpamError;
+}
+
+export type IpamImportError = 'invalidFile' | 'duplicateId' | 'poolOverlaps' | 'outsidePool' | 'overlapsAllocation';
+
+// An imported workspace, or the reason it was rejected and the entry at fault
+export interface IpamImport {
+  workspace: IpamWorkspace | null;
+  error?: IpamImportError;
+  entry?: string;
+}
+
+export interface PoolUtilization {
+  allocatedAddresses: number;
+  totalAddresses: number;
+  freeAddresses: number;
+  percent: number;
+}
+
+export const emptyWorkspace: IpamWorkspace = {
+  version: IPAM_WORKSPACE_VERSION,
+  pools: [],
+  allocations: []
+};
+
+/**
+ * Generates an identifier for pools and allocations
+ */
+const createId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+};
+
+const rangesOverlap = (a: IntRange, b: IntRange): boolean => a.start <= b.end && b.start <= a.end;
+
+/**
+ * Allocations of a pool ordered by address
+ */
+export const getPoolAllocations = (workspace: IpamWorkspace, poolId: string): IpamAllocation[] => {
+  return workspace.allocations
+    .filter(allocation => allocation.poolId === poolId)
+    .sort((a, b) => ipToInt(a.networkAddress) - ipToInt(b.networkAddress));
+};
+
+/**
+ * Adds a parent pool; pools may not overlap each other
+ */
+export const addPool = (
+  workspace: IpamWorkspace,
+  block: CidrBlock,
+  name: string,
+  description: string = ''
+): IpamChange => {
+  const range = cidrToRange(block);
+  if (workspace.pools.some(pool => rangesOverlap(cidrToRange(pool), range))) {
+    return { workspace, error: 'poolOverlaps' };
+  }
+
+  const pool: IpamPool = {
+    id: createId(),
+    name: name.trim() || `${block.networkAddress}/${block.cidr}`,
+    description: description.trim(),
+    networkAddress: block.networkAddress,
+    cidr: block.cidr
+  };
+
+  return { workspace: { ...workspace, pools: workspace.pools.concat(pool) } };
+};
+
+/**
+ * Removes a pool together with its allocations
+ */
+export const removePool = (workspace: IpamWorkspace, poolId: string): IpamWorkspace => {
+  return {
+    ...workspace,
+    pools: workspace.pools.filter(pool => pool.id !== poolId),
+    allocations: workspace.allocations.filter(allocation => allocation.poolId !== poolId)
+  };
+};
+
+/**
+ * Allocates a specific subnet inside a pool
+ */
+export const allocateSubnet = (
+  workspace: IpamWorkspace,
+  poolId: string,
+  block: CidrBlock,
+  details: IpamAllocationDetails
+): IpamChange => {
+  const pool = workspace.pools.find(item => item.id === poolId);
+  if (!pool) {
+    return { workspace, error: 'outsidePool' };
+  }
+
+  const poolRange = cidrToRange(pool);
+  const range = cidrToRange(block);
+  if (range.start < poolRange.start || range.end > poolRange.end) {
+    return { workspace, error: 'outsidePool' };
+  }
+
+  if (getPoolAllocations(workspace, poolId).some(allocation => rangesOverlap(cidrToRange(allocation), range))) {
+    return { workspace, error: 'overlapsAllocation' };
+  }
+
+  const allocation: IpamAllocation = {
+    id: createId(),
+    poolId,
+    networkAddress: block.networkAddress,
+    cidr: block.cidr,
+    name: details.name.trim(),
+    vlan: details.vlan,
+    owner: details.owner.trim(),
+    notes: details.notes.trim()
+  };
+
+  return { workspace: { ...workspace, allocations: workspace.allocations.concat(allocation) } };
+};
+
+/**
+ * Finds the lowest aligned block of the given prefix length that is free in a pool
+ */
+export const findNextFreeBlock = (workspace: IpamWorkspace, pool: IpamPool, cidr: number): CidrBlock | null => {
+  if (cidr < pool.cidr || cidr > 32) {
+    return null;
+  }
+
+  const poolRange = cidrToRange(pool);
+  const used = mergeRanges(getPoolAllocations(workspace, pool.id).map(cidrToRange));
+  const size = cidrSize(cidr);
+  let start = poolRange.start;
+
+  for (const range of used) {
+    if (start + size - 1 < range.start) {
+      break;
+    }
+    if (range.end >= start) {
+      // Skips past the allocation and realigns to the block size
+      start = Math.ceil((range.end + 1) / size) * size;
+    }
+  }
+
+  if (start + size - 1 > poolRange.end) {
+    return null;
+  }
+
+  return { networkAddress: intToIp(start), cidr };
+};
+
+/**
+ * Allocates the next free block of the given prefix length in a pool
+ */
+export const allocateNextFree = (
+  workspace: IpamWorkspace,
+  poolId: string,
+  cidr: number,
+  details: IpamAllocationDetails
+): IpamChange => {
+  const pool = workspace.pools.find(item => item.id === poolId);
+  const block = pool ? findNextFreeBlock(workspace, pool, cidr) : null;
+  if (!block) {
+    return { workspace, error: 'noFreeBlock' };
+  }
+  return allocateSubnet(workspace, poolId, block, details);
+};
+
+/**
+ * Removes an allocation
+ */
+export const removeAllocation = (workspace: IpamWorkspace, allocationId: string): IpamWorkspace => {
+  return {
+    ...workspace,
+    allocations: workspace.allocations.filter(allocation => allocation.id !== allocationId)
+  };
+};
+
+/**
+ * Share of a pool's addresses that is allocated
+ */
+export const getPoolUtilization = (workspace: IpamWorkspace, pool: IpamPool): PoolUtilization => {
+  const totalAddresses = cidrSize(pool.cidr);
+  const allocatedAddresses = getPoolAllocations(workspace, pool.id)
+    .reduce((sum, allocation) => sum + cidrSize(allocation.cidr), 0);
+
+  return {
+    allocatedAddresses,
+    totalAddresses,
+    freeAddresses: totalAddresses - allocatedAddresses,
+    percent: (allocatedAddresses / totalAddresses) * 100
+  };
+};
+
+/**
+ * Serializes the workspace as a versioned JSON document
+ */
+export const serializeWorkspace = (workspace: IpamWorkspace): string => {
+  return JSON.stringify({
+    version: IPAM_WORKSPACE_VERSION,
+    exportedAt: new Date().toISOString(),
+    pools: workspace.pools,
+    allocations: workspace.allocations
+  }, null, 2);
+};
+
+type JsonObject = { [key: string]: unknown };
+
+const isObject = (value: unknown): value is JsonObject => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Reads a block stored in a workspace, accepting it only if it is a valid network address
+ */
+const readBlock = (item: JsonObject): CidrBlock | null => {
+  if (typeof item.networkAddress !== 'string' || typeof item.cidr !== 'number') {
+    return null;
+  }
+  const block = parseCidr(`${item.networkAddress}/${item.cidr}`);
+  return block && block.networkAddress === item.networkAddress ? block : null;
+};
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const formatBlock = (block: CidrBlock): string => `${block.networkAddress}/${block.cidr}`;
+
+/**
+ * Checks the rules the workspace operations enforce: unique ids, pools apart from each other,
+ * and allocations inside their pool without overlapping each other
+ */
+const validateWorkspace = (workspace: IpamWorkspace): IpamImport => {
+  const ids = new Set<string>();
+  for (const item of [...workspace.pools, ...workspace.allocations]) {
+    if (ids.has(item.id)) {
+      return { workspace: null, error: 'duplicateId', entry: item.id };
+    }
+    ids.add(item.id);
+  }
+
+  for (let i = 0; i < workspace.pools.length; i++) {
+    const range = cidrToRange(workspace.pools[i]);
+    if (workspace.pools.slice(0, i).some(pool => rangesOverlap(cidrToRange(pool), range))) {
+      return { workspace: null, error: 'poolOverlaps', entry: formatBlock(workspace.pools[i]) };
+    }
+  }
+
+  for (const pool of workspace.pools) {
+    const poolRange = cidrToRange(pool);
+    const allocations = getPoolAllocations(workspace, pool.id);
+
+    for (let i = 0; i < allocations.length; i++) {
+      const range = cidrToRange(allocations[i]);
+      if (range.start < poolRange.start || range.end > poolRange.end) {
+        return { workspace: null, error: 'outsidePool', entry: formatBlock(allocations[i]) };
+      }
+      // Ordered by address, so an overlap always involves the previous allocation
+      if (i > 0 && rangesOverlap(cidrToRange(allocations[i - 1]), range)) {
+        return { workspace: null, error: 'overlapsAllocation', entry: formatBlock(allocations[i]) };
+      }
+    }
+  }
+
+  return { workspace };
+};
+
+/**
+ * Parses an exported workspace
+ * Unknown versions and malformed content are rejected as an invalid file; content breaking
+ * the workspace rules is rejected with the entry at fault
+ */
+export const parseWorkspace = (text: string): IpamImport => {
+  const invalid: IpamImport = { workspace: null, error: 'invalidFile' };
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return invalid;
+  }
+
+  if (!isObject(data) || data.version !== IPAM_WORKSPACE_VERSION || !Array.isArray(data.pools) || !Array.isArray(data.allocations)) {
+    return invalid;
+  }
+
+  const pools: IpamPool[] = [];
+  for (const item of data.pools as unknown[]) {
+    if (!isObject(item)) {
+      return invalid;
+    }
+    const block = readBlock(item);
+    if (!block || typeof item.id !== 'string') {
+      return invalid;
+    }
+    pools.push({ ...block, id: item.id, name: readString(item.name), description: readString(item.description) });
+  }
+
+  const allocations: IpamAllocation[] = [];
+  for (const item of data.allocations as unknown[]) {
+    if (!isObject(item)) {
+      return invalid;
+    }
+    const block = readBlock(item);
+    const poolId = item.poolId;
+    if (!block || typeof item.id !== 'string' || typeof poolId !== 'string' || !pools.some(pool => pool.id === poolId)) {
+      return invalid;
+    }
+    allocations.push({
+      ...block,
+      id: item.id,
+      poolId,
+      name: readString(item.name),
+      vlan: typeof item.vlan === 'number' ? item.vlan : null,
+      owner: readString(item.owner),
+      notes: readString(item.notes)
+    });
+  }
+
+  return validateWorkspace({ version: IPAM_WORKSPACE_VERSION, pools, allocations });
+};
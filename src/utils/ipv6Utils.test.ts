@@ -0,0 +1,91 @@
+import {
+  isValidIPv6,
+  compressIPv6,
+  expandIPv6,
+  getIPv6AddressType,
+  calculateIPv6Info,
+  generateIPv6Subnets
+} from './ipv6Utils';
+
+describe('isValidIPv6', () => {
+  test('accepts compressed, expanded and dotted forms', () => {
+    expect(isValidIPv6('2001:db8::1')).toBe(true);
+    expect(isValidIPv6('2001:0db8:0000:0000:0000:0000:0000:0001')).toBe(true);
+    expect(isValidIPv6('::')).toBe(true);
+    expect(isValidIPv6('::ffff:192.0.2.1')).toBe(true);
+  });
+
+  test('rejects malformed addresses', () => {
+    expect(isValidIPv6('2001:db8::1::2')).toBe(false);
+    expect(isValidIPv6('2001:db8:0:0:0:0:0:0:1')).toBe(false);
+    expect(isValidIPv6('2001:db8::g')).toBe(false);
+    expect(isValidIPv6('::ffff:300.0.2.1')).toBe(false);
+    expect(isValidIPv6('10.0.0.1')).toBe(false);
+  });
+});
+
+describe('compressIPv6', () => {
+  test('replaces the longest run of zero groups (RFC 5952)', () => {
+    expect(compressIPv6('2001:0db8:0000:0000:0001:0000:0000:0001')).toBe('2001:db8::1:0:0:1');
+    expect(compressIPv6('2001:db8:0:0:0:1:0:0')).toBe('2001:db8::1:0:0');
+    expect(compressIPv6('0:0:0:0:0:0:0:0')).toBe('::');
+    expect(compressIPv6('0:0:0:0:0:0:0:1')).toBe('::1');
+  });
+
+  test('does not shorten a single zero group', () => {
+    expect(compressIPv6('2001:db8:0:1:1:1:1:1')).toBe('2001:db8:0:1:1:1:1:1');
+  });
+
+  test('prints IPv4-mapped addresses with a dotted IPv4 part (RFC 5952 section 5)', () => {
+    expect(compressIPv6('::ffff:c000:201')).toBe('::ffff:192.0.2.1');
+    expect(compressIPv6('0:0:0:0:0:ffff:0a00:0001')).toBe('::ffff:10.0.0.1');
+  });
+
+  test('expands to eight four-digit groups', () => {
+    expect(expandIPv6('2001:db8::1')).toBe('2001:0db8:0000:0000:0000:0000:0000:0001');
+    expect(expandIPv6('::ffff:192.0.2.1')).toBe('0000:0000:0000:0000:0000:ffff:c000:0201');
+  });
+});
+
+describe('getIPv6AddressType', () => {
+  test('classifies the special ranges', () => {
+    expect(getIPv6AddressType('::')).toBe('unspecified');
+    expect(getIPv6AddressType('::1')).toBe('loopback');
+    expect(getIPv6AddressType('::ffff:192.0.2.1')).toBe('ipv4Mapped');
+    expect(getIPv6AddressType('fe80::1')).toBe('linkLocal');
+    expect(getIPv6AddressType('fd12:3456::1')).toBe('uniqueLocal');
+    expect(getIPv6AddressType('ff02::1')).toBe('multicast');
+    expect(getIPv6AddressType('2001:db8::1')).toBe('documentation');
+    expect(getIPv6AddressType('2606:4700::1111')).toBe('globalUnicast');
+  });
+});
+
+describe('calculateIPv6Info', () => {
+  test('calculates a /64', () => {
+    const info = calculateIPv6Info('2001:db8:abcd:12::1', 64);
+    expect(info.networkAddress).toBe('2001:db8:abcd:12::');
+    expect(info.lastAddress).toBe('2001:db8:abcd:12:ffff:ffff:ffff:ffff');
+    expect(info.totalAddresses).toBe(BigInt(1) << BigInt(64));
+    expect(info.interfaceBits).toBe(64);
+  });
+
+  test('keeps the dotted form for IPv4-mapped prefixes', () => {
+    const info = calculateIPv6Info('::ffff:192.0.2.1', 120);
+    expect(info.compressedAddress).toBe('::ffff:192.0.2.1');
+    expect(info.networkAddress).toBe('::ffff:192.0.2.0');
+    expect(info.lastAddress).toBe('::ffff:192.0.2.255');
+  });
+});
+
+describe('generateIPv6Subnets', () => {
+  test('divides a prefix into equal subnets', () => {
+    const subnets = generateIPv6Subnets('2001:db8::', 48, 4);
+    expect(subnets.map(subnet => `${subnet.networkAddress}/${subnet.cidr}`)).toEqual([
+      '2001:db8::/50',
+      '2001:db8:0:4000::/50',
+      '2001:db8:0:8000::/50',
+      '2001:db8:0:c000::/50'
+    ]);
+    expect(subnets[0].lastAddress).toBe('2001:db8:0:3fff:ffff:ffff:ffff:ffff');
+  });
+});
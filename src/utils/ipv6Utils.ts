@@ -0,0 +1,273 @@
+/**
+ * Utilities for IPv6 address and prefix calculations
+ */
+
+export type IPv6AddressType =
+  | 'unspecified'
+  | 'loopback'
+  | 'ipv4Mapped'
+  | 'linkLocal'
+  | 'uniqueLocal'
+  | 'multicast'
+  | 'documentation'
+  | 'teredo'
+  | '6to4'
+  | 'globalUnicast'
+  | 'reserved';
+
+export interface IPv6Result {
+  version: 6;
+  address: string;
+  compressedAddress: string;
+  expandedAddress: string;
+  networkAddress: string;
+  expandedNetworkAddress: string;
+  lastAddress: string;
+  totalAddresses: bigint;
+  cidr: number;
+  prefixBits: number;
+  interfaceBits: number;
+  addressType: IPv6AddressType;
+}
+
+export interface IPv6Subnet {
+  id: number;
+  networkAddress: string;
+  lastAddress: string;
+  cidr: number;
+  totalAddresses: bigint;
+}
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const HEXTET_MASK = BigInt(0xffff);
+const MAX_IPV6 = (ONE << BigInt(128)) - ONE;
+
+/**
+ * Splits an IPv6 address into its eight 16-bit groups, or returns null if it is malformed
+ */
+const parseHextets = (ip: string): number[] | null => {
+  let address = ip.trim();
+  if (!address || /[^0-9a-fA-F:.]/.test(address)) {
+    return null;
+  }
+
+  // A trailing dotted quad (e.g. ::ffff:192.0.2.1) stands for the last two groups
+  if (address.indexOf('.') !== -1) {
+    const lastColon = address.lastIndexOf(':');
+    const octets = address.substring(lastColon + 1).split('.');
+    if (octets.length !== 4 || octets.some(o => !/^\d{1,3}$/.test(o) || parseInt(o, 10) > 255)) {
+      return null;
+    }
+    const values = octets.map(o => parseInt(o, 10));
+    const high = ((values[0] << 8) | values[1]).toString(16);
+    const low = ((values[2] << 8) | values[3]).toString(16);
+    address = `${address.substring(0, lastColon + 1)}${high}:${low}`;
+  }
+
+  const doubleColon = address.indexOf('::');
+  if (doubleColon !== address.lastIndexOf('::')) {
+    return null;
+  }
+
+  const toGroups = (part: string): number[] | null => {
+    if (part === '') {
+      return [];
+    }
+    const groups = part.split(':');
+    if (groups.some(g => !/^[0-9a-fA-F]{1,4}$/.test(g))) {
+      return null;
+    }
+    return groups.map(g => parseInt(g, 16));
+  };
+
+  if (doubleColon === -1) {
+    const groups = toGroups(address);
+    return groups && groups.length === 8 ? groups : null;
+  }
+
+  const head = toGroups(address.substring(0, doubleColon));
+  const tail = toGroups(address.substring(doubleColon + 2));
+  if (!head || !tail || head.length + tail.length > 7) {
+    return null;
+  }
+
+  const zeros = new Array(8 - head.length - tail.length).fill(0);
+  return [...head, ...zeros, ...tail];
+};
+
+/**
+ * Validates if the IPv6 address is valid
+ */
+export const isValidIPv6 = (ip: string): boolean => {
+  return parseHextets(ip) !== null;
+};
+
+/**
+ * Converts an IPv6 address to a 128-bit BigInt
+ */
+export const ipv6ToBigInt = (ip: string): bigint => {
+  const hextets = parseHextets(ip);
+  if (!hextets) {
+    throw new Error(`Invalid IPv6 address: ${ip}`);
+  }
+  return hextets.reduce((acc, hextet) => (acc << BigInt(16)) | BigInt(hextet), ZERO);
+};
+
+/**
+ * Converts a 128-bit BigInt to its eight 16-bit groups
+ */
+const bigIntToHextets = (value: bigint): number[] => {
+  const hextets: number[] = [];
+  for (let i = 7; i >= 0; i--) {
+    hextets.push(Number((value >> BigInt(i * 16)) & HEXTET_MASK));
+  }
+  return hextets;
+};
+
+/**
+ * Converts a 128-bit BigInt to a fully expanded IPv6 address
+ */
+export const bigIntToExpandedIpv6 = (value: bigint): string => {
+  return bigIntToHextets(value)
+    .map(h => h.toString(16).padStart(4, '0'))
+    .join(':');
+};
+
+/**
+ * Converts a 128-bit BigInt to a compressed IPv6 address (RFC 5952)
+ * IPv4-mapped addresses keep their last 32 bits in dotted form (RFC 5952 section 5)
+ */
+export const bigIntToIpv6 = (value: bigint): string => {
+  const hextets = bigIntToHextets(value);
+
+  if (hextets.slice(0, 5).every(h => h === 0) && hextets[5] === 0xffff) {
+    const octets = [hextets[6] >> 8, hextets[6] & 0xff, hextets[7] >> 8, hextets[7] & 0xff];
+    return `::ffff:${octets.join('.')}`;
+  }
+
+  // Finds the longest run of zero groups (at least two) to replace with "::"
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < 8; i++) {
+    if (hextets[i] !== 0) continue;
+    let j = i;
+    while (j < 8 && hextets[j] === 0) j++;
+    if (j - i > bestLength && j - i > 1) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const groups = hextets.map(h => h.toString(16));
+  if (bestStart === -1) {
+    return groups.join(':');
+  }
+
+  const head = groups.slice(0, bestStart).join(':');
+  const tail = groups.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+};
+
+/**
+ * Returns the compressed form of an IPv6 address
+ */
+export const compressIPv6 = (ip: string): string => {
+  return bigIntToIpv6(ipv6ToBigInt(ip));
+};
+
+/**
+ * Returns the fully expanded form of an IPv6 address
+ */
+export const expandIPv6 = (ip: string): string => {
+  return bigIntToExpandedIpv6(ipv6ToBigInt(ip));
+};
+
+/**
+ * Converts a prefix length to a 128-bit mask
+ */
+export const prefixToIPv6Mask = (prefix: number): bigint => {
+  return MAX_IPV6 ^ (MAX_IPV6 >> BigInt(prefix));
+};
+
+/**
+ * Checks whether an address falls inside a prefix
+ */
+const inPrefix = (value: bigint, prefix: string, length: number): boolean => {
+  const mask = prefixToIPv6Mask(length);
+  return (value & mask) === (ipv6ToBigInt(prefix) & mask);
+};
+
+/**
+ * Determines the type of an IPv6 address
+ */
+export const getIPv6AddressType = (ip: string): IPv6AddressType => {
+  const value = ipv6ToBigInt(ip);
+
+  if (value === ZERO) return 'unspecified';
+  if (value === ONE) return 'loopback';
+  if (inPrefix(value, '::ffff:0:0', 96)) return 'ipv4Mapped';
+  if (inPrefix(value, 'fe80::', 10)) return 'linkLocal';
+  if (inPrefix(value, 'fc00::', 7)) return 'uniqueLocal';
+  if (inPrefix(value, 'ff00::', 8)) return 'multicast';
+  if (inPrefix(value, '2001:db8::', 32)) return 'documentation';
+  if (inPrefix(value, '2001::', 32)) return 'teredo';
+  if (inPrefix(value, '2002::', 16)) return '6to4';
+  if (inPrefix(value, '2000::', 3)) return 'globalUnicast';
+  return 'reserved';
+};
+
+/**
+ * Calculates all information for an IPv6 address and prefix length
+ */
+export const calculateIPv6Info = (ip: string, cidr: number): IPv6Result => {
+  const value = ipv6ToBigInt(ip);
+  const mask = prefixToIPv6Mask(cidr);
+  const networkInt = value & mask;
+  const lastInt = networkInt | (MAX_IPV6 ^ mask);
+
+  return {
+    version: 6,
+    address: ip,
+    compressedAddress: bigIntToIpv6(value),
+    expandedAddress: bigIntToExpandedIpv6(value),
+    networkAddress: bigIntToIpv6(networkInt),
+    expandedNetworkAddress: bigIntToExpandedIpv6(networkInt),
+    lastAddress: bigIntToIpv6(lastInt),
+    totalAddresses: ONE << BigInt(128 - cidr),
+    cidr,
+    prefixBits: cidr,
+    interfaceBits: 128 - cidr,
+    addressType: getIPv6AddressType(ip)
+  };
+};
+
+/**
+ * Generates equal-sized IPv6 subnets from an address and prefix length
+ */
+export const generateIPv6Subnets = (ip: string, cidr: number, subnetCount: number): IPv6Subnet[] => {
+  // Calculates the new prefix length for the subnets
+  const bitsNeeded = Math.ceil(Math.log2(subnetCount));
+  const newCidr = Math.min(cidr + bitsNeeded, 128);
+
+  const networkInt = ipv6ToBigInt(ip) & prefixToIPv6Mask(cidr);
+  const subnetSize = ONE << BigInt(128 - newCidr);
+  const actualSubnetCount = Math.pow(2, newCidr - cidr);
+
+  const subnets: IPv6Subnet[] = [];
+
+  for (let i = 0; i < actualSubnetCount && i < subnetCount; i++) {
+    const subnetStartInt = networkInt + BigInt(i) * subnetSize;
+
+    subnets.push({
+      id: i + 1,
+      networkAddress: bigIntToIpv6(subnetStartInt),
+      lastAddress: bigIntToIpv6(subnetStartInt + subnetSize - ONE),
+      cidr: newCidr,
+      totalAddresses: subnetSize
+    });
+  }
+
+  return subnets;
+};
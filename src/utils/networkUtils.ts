@@ -2,7 +2,16 @@
  * Network utilities for functions like ping and port checking
  */
 
-import { ipToInt, intToIp } from './ipUtils';
+import {
+  ipToInt,
+  intToIp,
+  isValidIP,
+  isLocalIPv4,
+  cidrToSubnetMask,
+  calculateHostRange,
+  rangeToCidrs,
+  CidrBlock
+} from './ipUtils';
 
 /**
  * Interface for ping result
@@ -121,9 +130,9 @@ export const checkPort = async (ip: string, port: number, protocol: 'TCP' | 'UDP
     // For demonstration purposes, let's consider some common behaviours:
     // - Well-known ports (< 1024) have a higher chance of being open on servers
     // - Common service ports (80, 443, 22, 21, etc) have a higher chance of being open
-    // - Local IPs (127.0.0.1, 192.168.x.x) are more likely to have open ports
+    // - Local IPs (loopback, RFC 1918, CGNAT, link-local) are more likely to have open ports
     
-    const isLocalIp = ip === '127.0.0.1' || ip.startsWith('192.168.') || ip.startsWith('10.') || ip.startsWith('172.');
+    const isLocalIp = isLocalIPv4(ip);
     const isWellKnownPort = port < 1024;
     const isCommonPort = [80, 443, 22, 21, 25, 53, 3306, 3389, 8080, 8443].includes(port);
     
@@ -199,6 +208,39 @@ export const calculateIpRange = (startIp: string, endIp: string): string[] => {
   return ips;
 };
 
+/**
+ * Parses a range written as "start-end" (spaces around the dash are allowed)
+ * @param range - Range string such as 10.0.0.5-10.0.0.200
+ */
+export const parseIpRange = (range: string): { startIp: string; endIp: string } | null => {
+  const parts = range.split('-').map(part => part.trim());
+  if (parts.length !== 2 || !isValidIP(parts[0]) || !isValidIP(parts[1])) {
+    return null;
+  }
+  return { startIp: parts[0], endIp: parts[1] };
+};
+
+/**
+ * Converts a range of IPs into the minimal list of CIDR blocks covering it exactly
+ * @param startIp - Starting IP of the range, or a "start-end" string when endIp is omitted
+ * @param endIp - Ending IP of the range
+ */
+export const calculateRangeCidrs = (startIp: string, endIp?: string): CidrBlock[] => {
+  const range = endIp === undefined ? parseIpRange(startIp) : { startIp, endIp };
+  if (!range) {
+    return [];
+  }
+
+  const startIpInt = ipToInt(range.startIp);
+  const endIpInt = ipToInt(range.endIp);
+
+  if (startIpInt > endIpInt) {
+    return [];
+  }
+
+  return rangeToCidrs(startIpInt, endIpInt);
+};
+
 /**
  * Generates a list of IP addresses within the same subnet
  * @param networkIp - Network IP address
@@ -208,22 +250,21 @@ export const calculateIpRange = (startIp: string, endIp: string): string[] => {
 export const generateIpsInSubnet = (networkIp: string, cidr: number, limit = 100): string[] => {
   try {
     // Calculates the subnet mask in integer format
-    const mask = ~(0xffffffff >>> cidr) >>> 0;
+    const mask = ipToInt(cidrToSubnetMask(cidr));
     
     // Converts the IP to integer
     const ipInt = ipToInt(networkIp);
     
     // Calculates the network address (applying the mask)
-    const networkInt = ipInt & mask;
+    const networkInt = (ipInt & mask) >>> 0;
     
-    // Calculates the broadcast address
-    const broadcastInt = networkInt | (~mask >>> 0);
+    // Usable range (both addresses of a /31, the single address of a /32)
+    const { firstHostInt, lastHostInt } = calculateHostRange(networkInt, cidr);
     
     // Array to store the IPs
     const ips: string[] = [];
     
-    // Adds usable IPs (starts from the first valid host, which is networkInt + 1)
-    for (let i = networkInt + 1; i < broadcastInt && ips.length < limit; i++) {
+    for (let i = firstHostInt; i <= lastHostInt && ips.length < limit; i++) {
       ips.push(intToIp(i));
     }
     
@@ -0,0 +1,145 @@
+import {
+  generateQuestion,
+  gradeAnswer,
+  recordQuizAnswer,
+  parseQuizScore,
+  emptyQuizScore,
+  quizDifficulties,
+  quizQuestionTypes,
+  QuizQuestion
+} from './quizUtils';
+import { calculateIPInfo, ipToInt } from './ipUtils';
+import { allocateVlsm } from './vlsmUtils';
+
+// Deterministic generator, so that failures can be reproduced
+const seeded = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+};
+
+describe('generateQuestion', () => {
+  test('asks only the types and prefixes of each difficulty', () => {
+    const random = seeded(1);
+    for (let i = 0; i < 200; i++) {
+      const easy = generateQuestion('easy', 'any', random);
+      expect(['network', 'broadcast', 'hostRange', 'subnetCount']).toContain(easy.type);
+      expect(Number(easy.values.cidr)).toBeGreaterThanOrEqual(24);
+      expect(generateQuestion('medium', 'any', random).type).not.toBe('vlsmFit');
+    }
+  });
+
+  test('expects the calculator results for address questions', () => {
+    const random = seeded(2);
+    quizDifficulties.forEach(difficulty => {
+      for (let i = 0; i < 50; i++) {
+        const question = generateQuestion(difficulty, 'hostRange', random);
+        const info = calculateIPInfo(String(question.values.ip), Number(question.values.cidr));
+        expect(question.fields.map(field => field.expected)).toEqual([info.firstValidHost, info.lastValidHost]);
+      }
+    });
+  });
+
+  test('places the address inside the expected subnet', () => {
+    const random = seeded(3);
+    for (let i = 0; i < 100; i++) {
+      const question = generateQuestion('hard', 'containingSubnet', random);
+      const size = Math.pow(2, 32 - Number(question.values.cidr)) / Number(question.values.count);
+      const start = ipToInt(question.fields[0].expected);
+      const address = ipToInt(String(question.values.address));
+      expect(address).toBeGreaterThanOrEqual(start);
+      expect(address).toBeLessThan(start + size);
+    }
+  });
+
+  test('answers VLSM questions the way the allocator does', () => {
+    const random = seeded(4);
+    const answers = new Set<string>();
+    for (let i = 0; i < 100; i++) {
+      const question = generateQuestion('hard', 'vlsmFit', random);
+      const parent = calculateIPInfo(String(question.values.network), Number(question.values.cidr));
+      const hosts = String(question.values.hosts).split(', ').map(Number);
+      const result = allocateVlsm(parent, hosts.map((count, index) => ({ name: `#${index + 1}`, hosts: count })));
+      expect(question.fields[0].expected).toBe(result.error ? 'no' : 'yes');
+      answers.add(question.fields[0].expected);
+    }
+    expect(Array.from(answers).sort()).toEqual(['no', 'yes']);
+  });
+
+  test('explains each question type', () => {
+    const random = seeded(5);
+    quizQuestionTypes.forEach(type => {
+      expect(generateQuestion('hard', type, random).explanation.length).toBeGreaterThan(0);
+    });
+  });
+});
+
+describe('gradeAnswer', () => {
+  const question: QuizQuestion = {
+    type: 'subnetCount',
+    difficulty: 'easy',
+    values: { network: '10.0.0.0', cidr: 16, count: 3 },
+    fields: [
+      { key: 'prefix', kind: 'prefix', expected: '18' },
+      { key: 'hostsPerSubnet', kind: 'number', expected: '16382' }
+    ],
+    explanation: []
+  };
+
+  test('accepts answers written in different ways', () => {
+    expect(gradeAnswer(question, { prefix: '/18', hostsPerSubnet: '16,382' }).correct).toBe(true);
+    expect(gradeAnswer(question, { prefix: ' 18 ', hostsPerSubnet: '16 382' }).correct).toBe(true);
+  });
+
+  test('reports each wrong field', () => {
+    expect(gradeAnswer(question, { prefix: '17', hostsPerSubnet: '16382' })).toEqual({
+      correct: false,
+      fields: [
+        { key: 'prefix', expected: '18', given: '17', correct: false },
+        { key: 'hostsPerSubnet', expected: '16382', given: '16382', correct: true }
+      ]
+    });
+  });
+
+  test('compares addresses by value', () => {
+    const network: QuizQuestion = { ...question, fields: [{ key: 'networkAddress', kind: 'address', expected: '10.1.0.0' }] };
+    expect(gradeAnswer(network, { networkAddress: '10.1.0.0' }).correct).toBe(true);
+    expect(gradeAnswer(network, { networkAddress: '10.1.0.1' }).correct).toBe(false);
+    expect(gradeAnswer(network, {}).correct).toBe(false);
+  });
+});
+
+describe('quiz score', () => {
+  test('counts answers, streaks and results by type', () => {
+    let score = recordQuizAnswer(emptyQuizScore, 'network', true);
+    score = recordQuizAnswer(score, 'network', true);
+    score = recordQuizAnswer(score, 'vlsmFit', false);
+    score = recordQuizAnswer(score, 'broadcast', true);
+    expect(score).toEqual({
+      answered: 4,
+      correct: 3,
+      streak: 1,
+      bestStreak: 2,
+      byType: {
+        network: { answered: 2, correct: 2 },
+        vlsmFit: { answered: 1, correct: 0 },
+        broadcast: { answered: 1, correct: 1 }
+      }
+    });
+    expect(parseQuizScore(JSON.stringify(score))).toEqual(score);
+  });
+
+  test('starts again from zero when the stored score cannot be read', () => {
+    expect(parseQuizScore(null)).toEqual(emptyQuizScore);
+    expect(parseQuizScore('{')).toEqual(emptyQuizScore);
+    expect(parseQuizScore('{"answered":-3,"correct":"2","byType":{"ports":{"answered":1}}}')).toEqual(emptyQuizScore);
+    expect(parseQuizScore('[4,2]')).toEqual(emptyQuizScore);
+    expect(parseQuizScore('{"answered":4,"byType":{"network":3,"broadcast":{"answered":2,"correct":1}}}')).toEqual({
+      ...emptyQuizScore,
+      answered: 4,
+      byType: { broadcast: { answered: 2, correct: 1 } }
+    });
+  });
+});
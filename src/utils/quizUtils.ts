@@ -0,0 +1,346 @@
+/**
+ * Subnetting practice: random problems graded against the calculator itself
+ */
+
+import { calculateIPInfo, generateSubnets, intToIp, ipToInt, isValidIP, cidrSize } from './ipUtils';
+import { allocateVlsm, cidrForHosts } from './vlsmUtils';
+
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
+export type QuizQuestionType = 'network' | 'broadcast' | 'hostRange' | 'subnetCount' | 'containingSubnet' | 'vlsmFit';
+
+export const quizDifficulties: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+
+export const quizQuestionTypes: QuizQuestionType[] = [
+  'network',
+  'broadcast',
+  'hostRange',
+  'subnetCount',
+  'containingSubnet',
+  'vlsmFit'
+];
+
+// How an answer is read: addresses and numbers are compared by value, not as text
+export type QuizFieldKind = 'address' | 'prefix' | 'number' | 'yesNo';
+
+export interface QuizField {
+  key: string;
+  kind: QuizFieldKind;
+  expected: string;
+}
+
+// One line of the explanation, a translation key and the values it refers to
+export interface QuizStep {
+  key: string;
+  values: { [name: string]: string | number };
+}
+
+export interface QuizQuestion {
+  type: QuizQuestionType;
+  difficulty: QuizDifficulty;
+  // Values shown in the question text
+  values: { [name: string]: string | number };
+  fields: QuizField[];
+  explanation: QuizStep[];
+}
+
+export interface QuizFieldResult {
+  key: string;
+  expected: string;
+  given: string;
+  correct: boolean;
+}
+
+export interface QuizGrade {
+  correct: boolean;
+  fields: QuizFieldResult[];
+}
+
+export interface QuizScore {
+  answered: number;
+  correct: number;
+  streak: number;
+  bestStreak: number;
+  byType: { [type: string]: { answered: number; correct: number } };
+}
+
+export const emptyQuizScore: QuizScore = {
+  answered: 0,
+  correct: 0,
+  streak: 0,
+  bestStreak: 0,
+  byType: {}
+};
+
+// Shortest prefix asked and the kinds of questions at each level
+const difficultySettings: { [difficulty in QuizDifficulty]: { minCidr: number; types: QuizQuestionType[] } } = {
+  easy: { minCidr: 24, types: ['network', 'broadcast', 'hostRange', 'subnetCount'] },
+  medium: { minCidr: 16, types: ['network', 'broadcast', 'hostRange', 'subnetCount', 'containingSubnet'] },
+  hard: { minCidr: 8, types: quizQuestionTypes }
+};
+
+type Random = () => number;
+
+const randomInt = (min: number, max: number, random: Random): number => {
+  return min + Math.floor(random() * (max - min + 1));
+};
+
+/**
+ * Unicast address outside 0.0.0.0/8 and 127.0.0.0/8
+ */
+const randomAddress = (random: Random): string => {
+  let first = randomInt(1, 223, random);
+  if (first === 127) {
+    first = 10;
+  }
+  return intToIp(((first << 24) >>> 0) + randomInt(0, 0xffffff, random));
+};
+
+/**
+ * How the mask splits the address: on an octet boundary, or with a block size in the octet where it ends
+ */
+const maskSteps = (ip: string, cidr: number): QuizStep[] => {
+  const info = calculateIPInfo(ip, cidr);
+  return [
+    { key: 'mask', values: { cidr, mask: info.subnetMask } },
+    cidr % 8 === 0
+      ? { key: 'octetBoundary', values: { octets: cidr / 8 } }
+      : { key: 'blockSize', values: { octet: Math.floor(cidr / 8) + 1, size: Math.pow(2, 8 - (cidr % 8)) } },
+    { key: 'networkAnd', values: { ip, mask: info.subnetMask, network: info.networkAddress } }
+  ];
+};
+
+const broadcastStep = (ip: string, cidr: number): QuizStep => {
+  const info = calculateIPInfo(ip, cidr);
+  return { key: 'broadcast', values: { network: info.networkAddress, wildcard: info.wildcardMask, broadcast: info.broadcastAddress } };
+};
+
+const addressQuestion = (type: QuizQuestionType, difficulty: QuizDifficulty, random: Random): QuizQuestion => {
+  const ip = randomAddress(random);
+  const cidr = randomInt(difficultySettings[difficulty].minCidr, 30, random);
+  const info = calculateIPInfo(ip, cidr);
+  const question = { type, difficulty, values: { ip, cidr } };
+
+  if (type === 'network') {
+    return {
+      ...question,
+      fields: [{ key: 'networkAddress', kind: 'address', expected: info.networkAddress }],
+      explanation: maskSteps(ip, cidr)
+    };
+  }
+  if (type === 'broadcast') {
+    return {
+      ...question,
+      fields: [{ key: 'broadcastAddress', kind: 'address', expected: info.broadcastAddress }],
+      explanation: maskSteps(ip, cidr).concat(broadcastStep(ip, cidr))
+    };
+  }
+  return {
+    ...question,
+    fields: [
+      { key: 'firstHost', kind: 'address', expected: info.firstValidHost },
+      { key: 'lastHost', kind: 'address', expected: info.lastValidHost }
+    ],
+    explanation: maskSteps(ip, cidr).concat(broadcastStep(ip, cidr), {
+      key: 'hostRange',
+      values: { first: info.firstValidHost, last: info.lastValidHost, hosts: info.usableHosts }
+    })
+  };
+};
+
+/**
+ * Bits borrowed from the host part to make the requested number of subnets
+ */
+const borrowStep = (cidr: number, count: number): QuizStep => {
+  const bits = Math.ceil(Math.log2(count));
+  return { key: 'subnetBits', values: { count, bits, total: Math.pow(2, bits), cidr, newCidr: cidr + bits } };
+};
+
+const subnetCountQuestion = (difficulty: QuizDifficulty, random: Random): QuizQuestion => {
+  const cidr = randomInt(difficultySettings[difficulty].minCidr, 28, random);
+  const network = calculateIPInfo(randomAddress(random), cidr).networkAddress;
+  const count = randomInt(2, Math.min(Math.pow(2, 30 - cidr), difficulty === 'easy' ? 8 : 64), random);
+  const subnet = generateSubnets(network, cidr, count).subnets[0];
+
+  return {
+    type: 'subnetCount',
+    difficulty,
+    values: { network, cidr, count },
+    fields: [
+      { key: 'prefix', kind: 'prefix', expected: String(subnet.cidr) },
+      { key: 'hostsPerSubnet', kind: 'number', expected: String(subnet.usableHosts) }
+    ],
+    explanation: [
+      borrowStep(cidr, count),
+      { key: 'hostsPerSubnet', values: { hostBits: 32 - subnet.cidr, hosts: subnet.usableHosts } }
+    ]
+  };
+};
+
+const containingSubnetQuestion = (difficulty: QuizDifficulty, random: Random): QuizQuestion => {
+  const cidr = randomInt(difficultySettings[difficulty].minCidr, 26, random);
+  const network = calculateIPInfo(randomAddress(random), cidr).networkAddress;
+  // A power of two, so that every subnet of the split is listed
+  const count = Math.pow(2, randomInt(1, Math.min(6, 30 - cidr), random));
+  const { subnets } = generateSubnets(network, cidr, count);
+  const subnet = subnets[randomInt(0, subnets.length - 1, random)];
+  const address = intToIp(randomInt(ipToInt(subnet.networkAddress), ipToInt(subnet.broadcastAddress), random));
+
+  return {
+    type: 'containingSubnet',
+    difficulty,
+    values: { network, cidr, count, address },
+    fields: [{ key: 'subnetAddress', kind: 'address', expected: subnet.networkAddress }],
+    explanation: [
+      borrowStep(cidr, count),
+      { key: 'subnetSize', values: { newCidr: subnet.cidr, size: cidrSize(subnet.cidr) } },
+      {
+        key: 'containing',
+        values: { address, subnet: `${subnet.networkAddress}/${subnet.cidr}`, first: subnet.networkAddress, last: subnet.broadcastAddress }
+      }
+    ]
+  };
+};
+
+const vlsmFitQuestion = (difficulty: QuizDifficulty, random: Random): QuizQuestion => {
+  const cidr = randomInt(Math.max(difficultySettings[difficulty].minCidr, 20), 26, random);
+  const parent = calculateIPInfo(randomAddress(random), cidr);
+  const available = cidrSize(cidr);
+  // About half of the problems fit, so that guessing does not pay
+  const shouldFit = random() < 0.5;
+
+  let hosts: number[] = [];
+  for (let attempt = 0; attempt < 20; attempt++) {
+    hosts = Array.from({ length: randomInt(2, 4, random) }, () => randomInt(2, Math.floor(available / 2), random))
+      .sort((a, b) => b - a);
+    const required = hosts.reduce((sum, count) => sum + cidrSize(cidrForHosts(count)), 0);
+    if ((required <= available) === shouldFit) {
+      break;
+    }
+  }
+
+  const result = allocateVlsm(parent, hosts.map((count, index) => ({ name: `#${index + 1}`, hosts: count })));
+  const fits = !result.error;
+
+  return {
+    type: 'vlsmFit',
+    difficulty,
+    values: { network: parent.networkAddress, cidr, hosts: hosts.join(', ') },
+    fields: [{ key: 'fits', kind: 'yesNo', expected: fits ? 'yes' : 'no' }],
+    explanation: hosts
+      .map((count): QuizStep => {
+        const blockCidr = cidrForHosts(count);
+        return { key: blockCidr >= 31 ? 'vlsmBlockPointToPoint' : 'vlsmBlock', values: { hosts: count, cidr: blockCidr, size: cidrSize(blockCidr) } };
+      })
+      .concat({
+        key: fits ? 'vlsmFits' : 'vlsmDoesNotFit',
+        values: { required: result.requiredAddresses, available: result.availableAddresses, cidr }
+      })
+  };
+};
+
+/**
+ * Generates a problem of the given type, or of any type allowed at the difficulty
+ */
+export const generateQuestion = (
+  difficulty: QuizDifficulty,
+  type: QuizQuestionType | 'any' = 'any',
+  random: Random = Math.random
+): QuizQuestion => {
+  const types = difficultySettings[difficulty].types;
+  const chosen = type === 'any' ? types[randomInt(0, types.length - 1, random)] : type;
+
+  switch (chosen) {
+    case 'subnetCount':
+      return subnetCountQuestion(difficulty, random);
+    case 'containingSubnet':
+      return containingSubnetQuestion(difficulty, random);
+    case 'vlsmFit':
+      return vlsmFitQuestion(difficulty, random);
+    default:
+      return addressQuestion(chosen, difficulty, random);
+  }
+};
+
+/**
+ * Compares one answer with the expected value, ignoring spacing, leading zeros and thousands separators
+ */
+const isCorrectAnswer = (field: QuizField, given: string): boolean => {
+  const text = given.trim();
+
+  switch (field.kind) {
+    case 'address':
+      return isValidIP(text) && ipToInt(text) === ipToInt(field.expected);
+    case 'prefix':
+      return /^\/?\d{1,2}$/.test(text) && parseInt(text.replace('/', ''), 10) === Number(field.expected);
+    case 'number':
+      return /^\d[\d\s.,']*$/.test(text) && parseInt(text.replace(/[\s.,']/g, ''), 10) === Number(field.expected);
+    default:
+      return text === field.expected;
+  }
+};
+
+export const gradeAnswer = (question: QuizQuestion, answers: { [key: string]: string }): QuizGrade => {
+  const fields = question.fields.map(field => {
+    const given = answers[field.key] || '';
+    return { key: field.key, expected: field.expected, given, correct: isCorrectAnswer(field, given) };
+  });
+  return { correct: fields.every(field => field.correct), fields };
+};
+
+export const recordQuizAnswer = (score: QuizScore, type: QuizQuestionType, correct: boolean): QuizScore => {
+  const streak = correct ? score.streak + 1 : 0;
+  const typeScore = score.byType[type] || { answered: 0, correct: 0 };
+
+  return {
+    answered: score.answered + 1,
+    correct: score.correct + (correct ? 1 : 0),
+    streak,
+    bestStreak: Math.max(score.bestStreak, streak),
+    byType: {
+      ...score.byType,
+      [type]: { answered: typeScore.answered + 1, correct: typeScore.correct + (correct ? 1 : 0) }
+    }
+  };
+};
+
+type JsonObject = { [key: string]: unknown };
+
+const isObject = (value: unknown): value is JsonObject => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const readCount = (value: unknown): number => (typeof value === 'number' && value >= 0 ? Math.floor(value) : 0);
+
+/**
+ * Reads a stored score; anything that cannot be understood starts again from zero
+ */
+export const parseQuizScore = (text: string | null): QuizScore => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text || '');
+  } catch (error) {
+    return emptyQuizScore;
+  }
+
+  if (!isObject(data)) {
+    return emptyQuizScore;
+  }
+
+  const byType: QuizScore['byType'] = {};
+  const storedByType = isObject(data.byType) ? data.byType : {};
+  quizQuestionTypes.forEach(type => {
+    const item = storedByType[type];
+    if (isObject(item)) {
+      byType[type] = { answered: readCount(item.answered), correct: readCount(item.correct) };
+    }
+  });
+
+  return {
+    answered: readCount(data.answered),
+    correct: readCount(data.correct),
+    streak: readCount(data.streak),
+    bestStreak: readCount(data.bestStreak),
+    byType
+  };
+};
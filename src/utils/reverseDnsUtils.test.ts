@@ -0,0 +1,80 @@
+import {
+  getReverseZones,
+  generateZoneFile,
+  generateDelegationRecords,
+  ptrTarget,
+  defaultReverseZoneOptions,
+  MAX_ZONE_RECORDS
+} from './reverseDnsUtils';
+import { calculateIPInfo } from './ipUtils';
+
+const date = new Date(2024, 0, 5);
+
+describe('getReverseZones', () => {
+  test('maps octet-aligned prefixes to one zone per octet block', () => {
+    expect(getReverseZones(calculateIPInfo('10.0.2.0', 23))).toEqual([
+      { name: '2.0.10.in-addr.arpa', networkAddress: '10.0.2.0', cidr: 24, classless: false },
+      { name: '3.0.10.in-addr.arpa', networkAddress: '10.0.3.0', cidr: 24, classless: false }
+    ]);
+    const zones = getReverseZones(calculateIPInfo('172.16.0.0', 12));
+    expect(zones).toHaveLength(16);
+    expect(zones[0].name).toBe('16.172.in-addr.arpa');
+    expect(zones[15].name).toBe('31.172.in-addr.arpa');
+  });
+
+  test('names classless zones in either RFC 2317 style', () => {
+    const result = calculateIPInfo('192.0.2.64', 26);
+    expect(getReverseZones(result)).toEqual([{
+      name: '64/26.2.0.192.in-addr.arpa',
+      networkAddress: '192.0.2.64',
+      cidr: 26,
+      classless: true,
+      parentZone: '2.0.192.in-addr.arpa'
+    }]);
+    expect(getReverseZones(result, 'range')[0].name).toBe('64-127.2.0.192.in-addr.arpa');
+  });
+});
+
+describe('zone records', () => {
+  test('builds PTR targets from the host address', () => {
+    expect(ptrTarget('10.0.0.1', defaultReverseZoneOptions)).toBe('host-10-0-0-1.example.com.');
+  });
+
+  test('writes the SOA, NS and one PTR per host', () => {
+    const result = calculateIPInfo('192.0.2.64', 26);
+    const lines = generateZoneFile(getReverseZones(result)[0], result, defaultReverseZoneOptions, date).split('\n');
+    expect(lines[0]).toBe('$ORIGIN 64/26.2.0.192.in-addr.arpa.');
+    expect(lines[2]).toBe('@\tIN\tSOA\tns1.example.com. hostmaster.example.com. (');
+    expect(lines[3]).toBe('\t\t\t2024010501 ; serial');
+    expect(lines[9]).toBe('@\tIN\tNS\tns1.example.com.');
+    const records = lines.filter(line => line.indexOf('\tPTR\t') !== -1);
+    expect(records).toHaveLength(62);
+    expect(records[0]).toBe('65\tIN\tPTR\thost-192-0-2-65.example.com.');
+    expect(records[61]).toBe('126\tIN\tPTR\thost-192-0-2-126.example.com.');
+  });
+
+  test('uses relative labels in octet-aligned zones and truncates large ones', () => {
+    const result = calculateIPInfo('10.1.0.0', 16);
+    const lines = generateZoneFile(getReverseZones(result)[0], result, defaultReverseZoneOptions, date).split('\n');
+    const records = lines.filter(line => line.indexOf('\tPTR\t') !== -1);
+    expect(records).toHaveLength(MAX_ZONE_RECORDS);
+    expect(records[0]).toBe('1.0\tIN\tPTR\thost-10-1-0-1.example.com.');
+    expect(lines.some(line => /^; .* more hosts not listed$/.test(line))).toBe(true);
+  });
+
+  test('delegates classless zones from the parent zone', () => {
+    const result = calculateIPInfo('192.0.2.64', 30);
+    const zone = getReverseZones(result)[0];
+    expect(generateDelegationRecords(zone, result, defaultReverseZoneOptions)).toBe([
+      '; Delegation of 192.0.2.64/30 from 2.0.192.in-addr.arpa',
+      '$ORIGIN 2.0.192.in-addr.arpa.',
+      '64/30\tIN\tNS\tns1.example.com.',
+      '65\tIN\tCNAME\t65.64/30.2.0.192.in-addr.arpa.',
+      '66\tIN\tCNAME\t66.64/30.2.0.192.in-addr.arpa.',
+      ''
+    ].join('\n'));
+
+    const aligned = calculateIPInfo('192.0.2.0', 24);
+    expect(generateDelegationRecords(getReverseZones(aligned)[0], aligned, defaultReverseZoneOptions)).toBe('');
+  });
+});
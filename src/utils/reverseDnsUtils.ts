@@ -0,0 +1,192 @@
+/**
+ * Utilities for IPv4 reverse DNS (in-addr.arpa) zones
+ */
+
+import { IPResult, ipToInt, intToIp, cidrSize } from './ipUtils';
+
+// RFC 2317 names the delegated zone "0/26"; many operators prefer "0-63" because of the slash
+export type DelegationStyle = 'slash' | 'range';
+
+export interface ReverseZone {
+  name: string;
+  networkAddress: string;
+  cidr: number;
+  // Zones for prefixes longer than /24 are delegated from the parent /24 zone (RFC 2317)
+  classless: boolean;
+  parentZone?: string;
+}
+
+export interface ReverseZoneOptions {
+  domain: string;
+  nameServer: string;
+  hostmaster: string;
+  hostPrefix: string;
+  ttl: number;
+  delegationStyle: DelegationStyle;
+}
+
+export const defaultReverseZoneOptions: ReverseZoneOptions = {
+  domain: 'example.com',
+  nameServer: 'ns1.example.com',
+  hostmaster: 'hostmaster.example.com',
+  hostPrefix: 'host',
+  ttl: 3600,
+  delegationStyle: 'slash'
+};
+
+// Zone files beyond this size are truncated, a /16 zone alone would hold 65,536 PTR records
+export const MAX_ZONE_RECORDS = 1024;
+
+/**
+ * Builds the in-addr.arpa name for the first octets of an address
+ */
+const arpaName = (octets: string[]): string => {
+  return octets.slice().reverse().concat('in-addr.arpa').join('.');
+};
+
+/**
+ * Makes sure a domain name ends with the root dot
+ */
+const fqdn = (name: string): string => {
+  return name.endsWith('.') ? name : `${name}.`;
+};
+
+/**
+ * Lists the reverse zones covering a network
+ * Prefixes up to /24 map to one or more octet-aligned zones, longer ones to a single RFC 2317 zone
+ */
+export const getReverseZones = (result: IPResult, style: DelegationStyle = 'slash'): ReverseZone[] => {
+  const { cidr } = result;
+  const networkInt = ipToInt(result.networkAddress);
+
+  if (cidr > 24) {
+    const octets = result.networkAddress.split('.');
+    const first = parseInt(octets[3], 10);
+    const last = first + cidrSize(cidr) - 1;
+    const label = style === 'slash' ? `${first}/${cidr}` : `${first}-${last}`;
+    const parentZone = arpaName(octets.slice(0, 3));
+
+    return [{
+      name: `${label}.${parentZone}`,
+      networkAddress: result.networkAddress,
+      cidr,
+      classless: true,
+      parentZone
+    }];
+  }
+
+  // Rounds the prefix up to the next octet boundary (at least /8)
+  const zoneOctets = Math.max(1, Math.ceil(cidr / 8));
+  const zoneCidr = zoneOctets * 8;
+  const zoneCount = cidrSize(cidr) / cidrSize(zoneCidr);
+  const zones: ReverseZone[] = [];
+
+  for (let i = 0; i < zoneCount; i++) {
+    const zoneNetwork = intToIp(networkInt + i * cidrSize(zoneCidr));
+    zones.push({
+      name: arpaName(zoneNetwork.split('.').slice(0, zoneOctets)),
+      networkAddress: zoneNetwork,
+      cidr: zoneCidr,
+      classless: false
+    });
+  }
+
+  return zones;
+};
+
+/**
+ * Formats a zone serial as YYYYMMDD01
+ */
+const formatSerial = (date: Date): string => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}01`;
+};
+
+/**
+ * Host name a PTR record points to, e.g. host-10-0-0-1.example.com.
+ */
+export const ptrTarget = (ip: string, options: ReverseZoneOptions): string => {
+  return `${options.hostPrefix}-${ip.replace(/\./g, '-')}.${fqdn(options.domain)}`;
+};
+
+/**
+ * Hosts of the network that fall inside a zone, as integers
+ */
+const zoneHostRange = (zone: ReverseZone, result: IPResult): { start: number; end: number } => {
+  const zoneStart = ipToInt(zone.networkAddress);
+  const zoneEnd = zoneStart + cidrSize(zone.cidr) - 1;
+  return {
+    start: Math.max(zoneStart, ipToInt(result.firstValidHost)),
+    end: Math.min(zoneEnd, ipToInt(result.lastValidHost))
+  };
+};
+
+/**
+ * Generates a BIND zone file skeleton with SOA, NS and one PTR record per host
+ */
+export const generateZoneFile = (
+  zone: ReverseZone,
+  result: IPResult,
+  options: ReverseZoneOptions,
+  date: Date = new Date()
+): string => {
+  const { start, end } = zoneHostRange(zone, result);
+  // Record names are relative to the zone: the octets left out of the zone name
+  const labelOctets = zone.classless ? 1 : 4 - zone.cidr / 8;
+  const lines = [
+    `$ORIGIN ${fqdn(zone.name)}`,
+    `$TTL ${options.ttl}`,
+    `@\tIN\tSOA\t${fqdn(options.nameServer)} ${fqdn(options.hostmaster.replace('@', '.'))} (`,
+    `\t\t\t${formatSerial(date)} ; serial`,
+    '\t\t\t3600       ; refresh',
+    '\t\t\t900        ; retry',
+    '\t\t\t1209600    ; expire',
+    `\t\t\t${options.ttl}       ; minimum`,
+    '\t\t\t)',
+    `@\tIN\tNS\t${fqdn(options.nameServer)}`,
+    ''
+  ];
+
+  const count = end - start + 1;
+  const last = Math.min(end, start + MAX_ZONE_RECORDS - 1);
+  for (let int = start; int <= last; int++) {
+    const ip = intToIp(int);
+    const label = ip.split('.').slice(4 - labelOctets).reverse().join('.');
+    lines.push(`${label}\tIN\tPTR\t${ptrTarget(ip, options)}`);
+  }
+
+  if (count > MAX_ZONE_RECORDS) {
+    lines.push(`; ${(count - MAX_ZONE_RECORDS).toLocaleString()} more hosts not listed`);
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * Generates the records the parent /24 zone needs to delegate a classless zone (RFC 2317):
+ * NS records for the child zone and a CNAME for every host address
+ */
+export const generateDelegationRecords = (
+  zone: ReverseZone,
+  result: IPResult,
+  options: ReverseZoneOptions
+): string => {
+  if (!zone.classless || !zone.parentZone) {
+    return '';
+  }
+
+  const { start, end } = zoneHostRange(zone, result);
+  const childLabel = zone.name.substring(0, zone.name.length - zone.parentZone.length - 1);
+  const lines = [
+    `; Delegation of ${result.networkAddress}/${result.cidr} from ${zone.parentZone}`,
+    `$ORIGIN ${fqdn(zone.parentZone)}`,
+    `${childLabel}\tIN\tNS\t${fqdn(options.nameServer)}`
+  ];
+
+  for (let int = start; int <= end; int++) {
+    const lastOctet = intToIp(int).split('.')[3];
+    lines.push(`${lastOctet}\tIN\tCNAME\t${lastOctet}.${fqdn(zone.name)}`);
+  }
+
+  return lines.join('\n') + '\n';
+};
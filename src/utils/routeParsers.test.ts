@@ -0,0 +1,143 @@
+import { parseRouteOutput, detectRouteFormat, expandRoutes, formatRoutingTable } from './routeParsers';
+import { parseRoutingTable } from './routingUtils';
+
+const linuxIpRoute = [
+  'default via 192.168.1.1 dev eth0 proto dhcp metric 100',
+  '192.168.1.0/24 dev eth0 proto kernel scope link src 192.168.1.10 metric 100',
+  'blackhole 10.99.0.0/16',
+  'fe80::/64 dev eth0 proto kernel metric 256'
+].join('\n');
+
+const linuxNetstat = [
+  'Kernel IP routing table',
+  'Destination     Gateway         Genmask         Flags Metric Ref    Use Iface',
+  '0.0.0.0         192.168.1.1     0.0.0.0         UG    100    0        0 eth0',
+  '192.168.1.0     0.0.0.0         255.255.255.0   U     100    0        0 eth0'
+].join('\n');
+
+const bsdNetstat = [
+  'Routing tables',
+  '',
+  'Internet:',
+  'Destination        Gateway            Flags        Netif Expire',
+  'default            192.168.1.1        UGScg          en0',
+  '192.168.1          link#6             UCS            en0      !',
+  '10.8/16            192.168.1.254      UGS            en0',
+  '',
+  'Internet6:',
+  'Destination        Gateway            Flags        Netif Expire',
+  'default            fe80::1%en0        UGcg           en0'
+].join('\n');
+
+const windowsRoutePrint = [
+  'IPv4 Route Table',
+  'Active Routes:',
+  'Network Destination        Netmask          Gateway       Interface  Metric',
+  '          0.0.0.0          0.0.0.0      192.168.1.1     192.168.1.10     25',
+  '      192.168.1.0    255.255.255.0         On-link      192.168.1.10    281'
+].join('\n');
+
+const ciscoShowIpRoute = [
+  'Codes: L - local, C - connected, S - static, R - RIP, M - mobile, B - BGP',
+  'Gateway of last resort is 10.0.0.1 to network 0.0.0.0',
+  '',
+  'S*    0.0.0.0/0 [1/0] via 10.0.0.1',
+  '      10.0.0.0/8 is variably subnetted, 3 subnets, 2 masks',
+  'C        10.0.0.0/30 is directly connected, GigabitEthernet0/0',
+  'O IA     10.1.0.0/16 [110/20] via 10.0.0.5, 00:01:02, GigabitEthernet0/1',
+  '                     [110/20] via 10.0.0.6, 00:01:02, GigabitEthernet0/2',
+  '     172.16.0.0/24 is subnetted, 1 subnets',
+  'D        172.16.5.0 [90/3072] via 10.0.0.2, 1d02h, GigabitEthernet0/0'
+].join('\n');
+
+describe('detectRouteFormat', () => {
+  test('recognizes each command output', () => {
+    expect(detectRouteFormat(linuxIpRoute)).toBe('linuxIpRoute');
+    expect(detectRouteFormat(linuxNetstat)).toBe('linuxNetstat');
+    expect(detectRouteFormat(bsdNetstat)).toBe('bsdNetstat');
+    expect(detectRouteFormat(windowsRoutePrint)).toBe('windowsRoutePrint');
+    expect(detectRouteFormat(ciscoShowIpRoute)).toBe('ciscoShowIpRoute');
+    expect(detectRouteFormat('hello world')).toBeNull();
+  });
+});
+
+describe('parseRouteOutput', () => {
+  test('reads Linux ip route output', () => {
+    const { format, routes, ignoredLines } = parseRouteOutput(linuxIpRoute);
+    expect(format).toBe('linuxIpRoute');
+    expect(formatRoutingTable(routes)).toBe([
+      '0.0.0.0/0 192.168.1.1 100 1',
+      '192.168.1.0/24 eth0 100 0',
+      '10.99.0.0/16 blackhole 0 0'
+    ].join('\n'));
+    expect(routes[1].protocol).toBe('kernel');
+    expect(ignoredLines).toEqual(['fe80::/64 dev eth0 proto kernel metric 256']);
+  });
+
+  test('reads Linux netstat output', () => {
+    const { routes } = parseRouteOutput(linuxNetstat);
+    expect(formatRoutingTable(routes)).toBe('0.0.0.0/0 192.168.1.1 100 1\n192.168.1.0/24 eth0 100 0');
+    expect(routes[1].protocol).toBe('connected');
+  });
+
+  test('reads BSD netstat output and skips the IPv6 section', () => {
+    const { routes } = parseRouteOutput(bsdNetstat);
+    expect(formatRoutingTable(routes)).toBe([
+      '0.0.0.0/0 192.168.1.1 0 1',
+      '192.168.1.0/24 en0 0 0',
+      '10.8.0.0/16 192.168.1.254 0 1'
+    ].join('\n'));
+    expect(routes[2].protocol).toBe('static');
+  });
+
+  test('reads Windows route print output', () => {
+    const { routes } = parseRouteOutput(windowsRoutePrint);
+    expect(formatRoutingTable(routes)).toBe('0.0.0.0/0 192.168.1.1 25 1\n192.168.1.0/24 192.168.1.10 281 0');
+  });
+
+  test('reads the persistent routes of Windows route print', () => {
+    const { routes, ignoredLines } = parseRouteOutput([
+      windowsRoutePrint,
+      '===========================================================================',
+      'Persistent Routes:',
+      '  Network Address          Netmask  Gateway Address  Metric',
+      '         10.8.0.0      255.255.0.0    192.168.1.254       1',
+      '       172.16.0.0      255.240.0.0    192.168.1.253  Default',
+      '     192.168.50.0    255.255.255.0          On-link       5',
+      '     192.168.60.0    255.255.255.0          Default  Default'
+    ].join('\n'));
+    expect(formatRoutingTable(routes.slice(2))).toBe([
+      '10.8.0.0/16 192.168.1.254 1 1',
+      '172.16.0.0/12 192.168.1.253 0 1',
+      '192.168.50.0/24 connected 5 0',
+      '192.168.60.0/24 connected 0 0'
+    ].join('\n'));
+    expect(routes.map(route => route.protocol).slice(2)).toEqual(['static', 'static', 'connected', 'connected']);
+    expect(ignoredLines).toContain('  Network Address          Netmask  Gateway Address  Metric');
+  });
+
+  test('reads Cisco show ip route output', () => {
+    const { routes } = parseRouteOutput(ciscoShowIpRoute);
+    expect(formatRoutingTable(routes)).toBe([
+      '0.0.0.0/0 10.0.0.1 0 1',
+      '10.0.0.0/30 GigabitEthernet0/0 0 0',
+      '10.1.0.0/16 10.0.0.5 20 110',
+      '10.1.0.0/16 10.0.0.6 20 110',
+      '172.16.5.0/24 10.0.0.2 3072 90'
+    ].join('\n'));
+    expect(routes.map(route => route.protocol)).toEqual(['static', 'connected', 'ospf IA', 'ospf IA', 'eigrp']);
+    expect(routes[2].interfaceName).toBe('GigabitEthernet0/1');
+  });
+
+  test('uses the format it is given and round-trips through the routing table parser', () => {
+    expect(parseRouteOutput(linuxNetstat, 'windowsRoutePrint').routes).toEqual([]);
+    const { routes } = parseRouteOutput(ciscoShowIpRoute);
+    expect(parseRoutingTable(formatRoutingTable(routes)).routes.map(route => route.nextHop)).toEqual(routes.map(route => route.nextHop));
+  });
+
+  test('expands routes through the calculator', () => {
+    const [expanded] = expandRoutes(parseRouteOutput(windowsRoutePrint).routes.slice(1));
+    expect(expanded.result.broadcastAddress).toBe('192.168.1.255');
+    expect(expanded.result.usableHosts).toBe(254);
+  });
+});
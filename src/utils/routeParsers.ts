@@ -0,0 +1,430 @@
+/**
+ * Parsers for routing tables printed by operating systems and network devices
+ */
+
+import { CidrBlock, IPResult, isValidIP, subnetMaskToCidr, calculateIPInfo } from './ipUtils';
+import { isValidSubnetMask } from './addressParser';
+import { parseCidr } from './cidrUtils';
+import { Route, DEFAULT_CONNECTED_DISTANCE, DEFAULT_STATIC_DISTANCE } from './routingUtils';
+
+export type RouteOutputFormat =
+  | 'linuxIpRoute'
+  | 'linuxNetstat'
+  | 'bsdNetstat'
+  | 'windowsRoutePrint'
+  | 'ciscoShowIpRoute';
+
+export const routeOutputFormats: RouteOutputFormat[] = [
+  'linuxIpRoute',
+  'linuxNetstat',
+  'bsdNetstat',
+  'windowsRoutePrint',
+  'ciscoShowIpRoute'
+];
+
+export interface RouteParseResult {
+  format: RouteOutputFormat | null;
+  routes: Route[];
+  // Non-empty lines that are not routes (headers, legends, IPv6 entries...)
+  ignoredLines: string[];
+}
+
+export interface ExpandedRoute {
+  route: Route;
+  // Calculator details of the route's prefix
+  result: IPResult;
+}
+
+// Route types of `ip route` that come before the destination
+const LINUX_ROUTE_TYPES = ['unicast', 'local', 'broadcast', 'multicast', 'blackhole', 'unreachable', 'prohibit', 'throw', 'nat', 'anycast'];
+
+// Cisco IOS and Arista EOS route codes
+const CISCO_PROTOCOLS: { [code: string]: string } = {
+  L: 'local',
+  C: 'connected',
+  S: 'static',
+  R: 'rip',
+  M: 'mobile',
+  B: 'bgp',
+  D: 'eigrp',
+  O: 'ospf',
+  i: 'isis',
+  I: 'isis',
+  K: 'kernel',
+  A: 'aggregate',
+  U: 'per-user static',
+  o: 'odr',
+  P: 'periodic',
+  H: 'nhrp',
+  l: 'lisp',
+  a: 'application',
+  V: 'vxlan'
+};
+
+// Ranges of the classful networks, used when an old IOS entry gives no prefix length
+const classfulCidr = (ip: string): number => {
+  const firstOctet = parseInt(ip.split('.')[0], 10);
+  return firstOctet < 128 ? 8 : firstOctet < 192 ? 16 : 24;
+};
+
+/**
+ * Builds a route, filling the administrative distance when the output does not print one
+ */
+const createRoute = (
+  block: CidrBlock,
+  gateway: string | null,
+  interfaceName: string | undefined,
+  protocol: string | undefined,
+  metric = 0,
+  administrativeDistance?: number
+): Route => ({
+  ...block,
+  nextHop: gateway || interfaceName || protocol || '',
+  metric,
+  administrativeDistance: administrativeDistance === undefined
+    ? (gateway ? DEFAULT_STATIC_DISTANCE : DEFAULT_CONNECTED_DISTANCE)
+    : administrativeDistance,
+  interfaceName,
+  protocol
+});
+
+/**
+ * Guesses which command printed the text
+ */
+export const detectRouteFormat = (text: string): RouteOutputFormat | null => {
+  if (/Network Destination\s+Netmask\s+Gateway/i.test(text)) {
+    return 'windowsRoutePrint';
+  }
+  if (/Destination\s+Gateway\s+Genmask/i.test(text)) {
+    return 'linuxNetstat';
+  }
+  if (/Destination\s+Gateway\s+Flags/i.test(text)) {
+    return 'bsdNetstat';
+  }
+  if (/Codes:|Gateway of last resort|is directly connected|\[\d+\/\d+\]\s+via/.test(text)) {
+    return 'ciscoShowIpRoute';
+  }
+  if (/^\s*(\S+\s+)?(default|\d+\.\d+\.\d+\.\d+(\/\d+)?)\s.*\b(via|dev)\s+\S+/m.test(text)) {
+    return 'linuxIpRoute';
+  }
+  return null;
+};
+
+/**
+ * Linux `ip route` / `ip -4 route show table all`
+ * e.g. "default via 192.168.1.1 dev eth0 proto dhcp metric 100"
+ */
+const parseLinuxIpRoute = (lines: string[], ignoredLines: string[]): Route[] => {
+  const routes: Route[] = [];
+
+  lines.forEach(line => {
+    const tokens = line.trim().split(/\s+/);
+    const type = LINUX_ROUTE_TYPES.indexOf(tokens[0]) !== -1 ? tokens.shift() : undefined;
+    const destination = tokens.shift() || '';
+    const block = destination === 'default'
+      ? { networkAddress: '0.0.0.0', cidr: 0 }
+      : destination.indexOf(':') === -1 ? parseCidr(destination) : null;
+
+    if (!block) {
+      ignoredLines.push(line);
+      return;
+    }
+
+    // The rest of the line is a list of "keyword value" pairs
+    const value = (keyword: string) => {
+      const position = tokens.indexOf(keyword);
+      return position !== -1 ? tokens[position + 1] : undefined;
+    };
+    const metric = value('metric');
+
+    routes.push(createRoute(
+      block,
+      value('via') || null,
+      value('dev'),
+      value('proto') || (type && type !== 'unicast' ? type : undefined),
+      metric && /^\d+$/.test(metric) ? parseInt(metric, 10) : 0
+    ));
+  });
+
+  return routes;
+};
+
+/**
+ * Reads a table whose columns are named by a header line (Linux `netstat -rn` / `route -n`, BSD `netstat -rn`)
+ */
+const parseColumns = (
+  lines: string[],
+  ignoredLines: string[],
+  readRow: (column: (name: string) => string | undefined) => Route | null
+): Route[] => {
+  const routes: Route[] = [];
+  let header: string[] | null = null;
+  let inIPv6Section = false;
+
+  lines.forEach(line => {
+    const tokens = line.trim().split(/\s+/);
+
+    if (/^Internet6:|^IPv6/i.test(line.trim())) {
+      inIPv6Section = true;
+    } else if (/^Internet:/i.test(line.trim())) {
+      inIPv6Section = false;
+    }
+
+    if (tokens[0] === 'Destination') {
+      header = tokens;
+      ignoredLines.push(line);
+      return;
+    }
+
+    const columns = header;
+    const route = columns && !inIPv6Section
+      ? readRow(name => {
+        const position = columns.indexOf(name);
+        return position !== -1 ? tokens[position] : undefined;
+      })
+      : null;
+
+    if (route) {
+      routes.push(route);
+    } else {
+      ignoredLines.push(line);
+    }
+  });
+
+  return routes;
+};
+
+/**
+ * Linux `netstat -rn` and `route -n`
+ * e.g. "0.0.0.0  192.168.1.1  0.0.0.0  UG  0 0  0 eth0"
+ */
+const parseLinuxNetstat = (lines: string[], ignoredLines: string[]): Route[] => {
+  return parseColumns(lines, ignoredLines, column => {
+    const destination = column('Destination') || '';
+    const gateway = column('Gateway') || '';
+    const mask = column('Genmask') || '';
+    const metric = column('Metric');
+
+    if (!isValidIP(destination) || !isValidIP(gateway) || !isValidSubnetMask(mask)) {
+      return null;
+    }
+
+    const flags = column('Flags') || '';
+    return createRoute(
+      { networkAddress: destination, cidr: subnetMaskToCidr(mask) },
+      gateway !== '0.0.0.0' ? gateway : null,
+      column('Iface'),
+      flags.indexOf('G') !== -1 ? undefined : 'connected',
+      metric && /^\d+$/.test(metric) ? parseInt(metric, 10) : 0
+    );
+  });
+};
+
+/**
+ * Reads a BSD destination, where trailing zero octets are left out: "10" is 10.0.0.0/8, "192.168.1" is 192.168.1.0/24
+ */
+const parseBsdDestination = (destination: string): CidrBlock | null => {
+  if (destination === 'default') {
+    return { networkAddress: '0.0.0.0', cidr: 0 };
+  }
+
+  const [address, prefix] = destination.split('/');
+  const octets = address.split('.');
+  if (octets.length > 4 || octets.some(octet => !/^\d{1,3}$/.test(octet))) {
+    return null;
+  }
+
+  const padded = octets.concat(['0', '0', '0']).slice(0, 4).join('.');
+  const cidr = prefix !== undefined ? prefix : String(octets.length * 8);
+  return parseCidr(`${padded}/${cidr}`);
+};
+
+/**
+ * BSD and macOS `netstat -rn`
+ * e.g. "192.168.1  link#6  UCS  en0  !"
+ */
+const parseBsdNetstat = (lines: string[], ignoredLines: string[]): Route[] => {
+  return parseColumns(lines, ignoredLines, column => {
+    const block = parseBsdDestination(column('Destination') || '');
+    const gateway = column('Gateway') || '';
+    if (!block) {
+      return null;
+    }
+
+    // Gateways such as "link#6" or a MAC address mean the network is directly attached
+    const flags = column('Flags') || '';
+    return createRoute(
+      block,
+      isValidIP(gateway) && flags.indexOf('G') !== -1 ? gateway : null,
+      column('Netif'),
+      flags.indexOf('G') !== -1 ? (flags.indexOf('S') !== -1 ? 'static' : undefined) : 'connected'
+    );
+  });
+};
+
+/**
+ * Windows `route print` and `netstat -rn` (IPv4 active and persistent routes)
+ * e.g. "0.0.0.0  0.0.0.0  192.168.1.1  192.168.1.10  25" and, without the interface, "10.8.0.0  255.255.0.0  192.168.1.254  1"
+ */
+const parseWindowsRoutePrint = (lines: string[], ignoredLines: string[]): Route[] => {
+  const routes: Route[] = [];
+  const activePattern = /^\s*(\S+)\s+(\S+)\s+(\S+)\s+(\S+)\s+(\d+)\s*$/;
+  // Persistent routes print "Default" for the metric, and for the gateway of routes added without one
+  const persistentPattern = /^\s*(\S+)\s+(\S+)\s+(\S+)\s+(\d+|Default)\s*$/i;
+
+  lines.forEach(line => {
+    const active = line.match(activePattern);
+    const persistent = active ? null : line.match(persistentPattern);
+    const match = active || persistent;
+    const onLink = match !== null && /^(on-link|default)$/i.test(match[3]);
+    const interfaceName = active ? active[4] : undefined;
+
+    if (!match || !isValidIP(match[1]) || !isValidSubnetMask(match[2]) || (!onLink && !isValidIP(match[3]))
+      || (active && !isValidIP(active[4]))) {
+      ignoredLines.push(line);
+      return;
+    }
+
+    const metric = active ? active[5] : match[4];
+    routes.push(createRoute(
+      { networkAddress: match[1], cidr: subnetMaskToCidr(match[2]) },
+      onLink ? null : match[3],
+      interfaceName,
+      onLink ? 'connected' : (persistent ? 'static' : undefined),
+      /^\d+$/.test(metric) ? parseInt(metric, 10) : 0
+    ));
+  });
+
+  return routes;
+};
+
+/**
+ * Cisco IOS / IOS-XE and Arista EOS `show ip route`
+ * e.g. "O IA  10.1.0.0/16 [110/20] via 10.0.0.5, 00:01:02, GigabitEthernet0/1"
+ */
+const parseCiscoShowIpRoute = (lines: string[], ignoredLines: string[]): Route[] => {
+  const routes: Route[] = [];
+  // Code, candidate default marker, optional sub-code (IA, E2, EX, L1...), prefix and path
+  const entryPattern = /^\s*([A-Za-z][A-Za-z0-9]?)\*?\s*(?:([A-Za-z][A-Za-z0-9]?)\*?\s+)?(\d+\.\d+\.\d+\.\d+)(?:\/(\d+))?\s+(.*)$/;
+  const continuationPattern = /^\s*(?:\[(\d+)\/(\d+)\]\s+)?via\s+(.*)$/;
+  const subnettedPattern = /^\s*(\d+\.\d+\.\d+\.\d+)\/(\d+)\s+is\s+(?:variably\s+)?subnetted/;
+  let subnettedCidr: number | null = null;
+  let previous: Route | null = null;
+
+  // Reads "[110/20] via 10.0.0.5, 00:01:02, Gi0/1" or "is directly connected, Gi0/0"
+  const readPath = (text: string, base: { block: CidrBlock; protocol?: string; distance?: number; metric?: number }): Route | null => {
+    const bracket = text.match(/^\[(\d+)\/(\d+)\]\s*/);
+    const rest = bracket ? text.substring(bracket[0].length) : text;
+    const fields = rest.split(',').map(field => field.trim());
+    const distance = bracket ? parseInt(bracket[1], 10) : base.distance;
+    const metric = bracket ? parseInt(bracket[2], 10) : base.metric;
+    // The interface, when printed, is the last field; ages such as 00:01:02 or 1d02h start with a digit
+    const lastField = fields[fields.length - 1];
+    const interfaceName = fields.length > 1 && /^[A-Za-z]/.test(lastField) ? lastField : undefined;
+
+    if (/^is directly connected/.test(rest)) {
+      return createRoute(base.block, null, interfaceName, base.protocol, metric || 0, distance);
+    }
+
+    const via = rest.match(/^via\s+(\d+\.\d+\.\d+\.\d+)/);
+    if (via) {
+      return createRoute(base.block, via[1], interfaceName, base.protocol, metric || 0, distance);
+    }
+
+    return null;
+  };
+
+  lines.forEach(line => {
+    const subnetted = line.match(subnettedPattern);
+    if (subnetted) {
+      // Old IOS lists the entries below this header without their prefix length
+      subnettedCidr = parseInt(subnetted[2], 10);
+      ignoredLines.push(line);
+      return;
+    }
+
+    const continuation = line.match(continuationPattern);
+    if (continuation && previous) {
+      // Additional equal-cost path of the previous entry
+      const route = readPath(line.trim(), {
+        block: previous,
+        protocol: previous.protocol,
+        distance: previous.administrativeDistance,
+        metric: previous.metric
+      });
+      if (route) {
+        routes.push(route);
+        return;
+      }
+    }
+
+    const entry = line.match(entryPattern);
+    const code = entry ? entry[1] : '';
+    const protocolName = CISCO_PROTOCOLS[code] || CISCO_PROTOCOLS[code.charAt(0)];
+
+    if (entry && protocolName && line.indexOf('Codes:') === -1) {
+      const cidr = entry[4] !== undefined
+        ? parseInt(entry[4], 10)
+        : (subnettedCidr !== null ? subnettedCidr : classfulCidr(entry[3]));
+      const block = parseCidr(`${entry[3]}/${cidr}`);
+      const protocol = entry[2] ? `${protocolName} ${entry[2]}` : protocolName;
+      const route = block ? readPath(entry[5], { block, protocol }) : null;
+
+      if (route) {
+        routes.push(route);
+        previous = route;
+        return;
+      }
+    }
+
+    ignoredLines.push(line);
+  });
+
+  return routes;
+};
+
+const parsers: { [format in RouteOutputFormat]: (lines: string[], ignoredLines: string[]) => Route[] } = {
+  linuxIpRoute: parseLinuxIpRoute,
+  linuxNetstat: parseLinuxNetstat,
+  bsdNetstat: parseBsdNetstat,
+  windowsRoutePrint: parseWindowsRoutePrint,
+  ciscoShowIpRoute: parseCiscoShowIpRoute
+};
+
+/**
+ * Parses routing table output into routes, detecting the format unless one is given
+ */
+export const parseRouteOutput = (text: string, format?: RouteOutputFormat): RouteParseResult => {
+  const detected = format || detectRouteFormat(text);
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  const ignoredLines: string[] = [];
+
+  if (!detected) {
+    return { format: null, routes: [], ignoredLines: lines };
+  }
+
+  return {
+    format: detected,
+    routes: parsers[detected](lines, ignoredLines),
+    ignoredLines
+  };
+};
+
+/**
+ * Runs every route's prefix through the calculator
+ */
+export const expandRoutes = (routes: Route[]): ExpandedRoute[] => {
+  return routes.map(route => ({
+    route,
+    result: calculateIPInfo(route.networkAddress, route.cidr)
+  }));
+};
+
+/**
+ * Formats routes as lines accepted by parseRoutingTable
+ */
+export const formatRoutingTable = (routes: Route[]): string => {
+  return routes
+    .map(route => `${route.networkAddress}/${route.cidr} ${route.nextHop} ${route.metric} ${route.administrativeDistance}`)
+    .join('\n');
+};
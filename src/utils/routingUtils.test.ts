@@ -0,0 +1,72 @@
+import { parseRoutingTable, lookupRoute, routeMatches } from './routingUtils';
+
+const table = [
+  '# default and summary routes',
+  '0.0.0.0/0 203.0.113.1',
+  '10.0.0.0 255.0.0.0 192.0.2.1 20 110',
+  '10.1.0.0/16, 192.0.2.2, 5, 90',
+  '10.1.0.0/16 192.0.2.3 10 90',
+  '10.1.0.0/16 192.0.2.4 10 90',
+  '10.1.2.0/24 GigabitEthernet0/1'
+].join('\n');
+
+describe('parseRoutingTable', () => {
+  test('reads prefixes, next hops, metrics and distances', () => {
+    const { routes, invalidEntries } = parseRoutingTable(table);
+    expect(invalidEntries).toEqual([]);
+    expect(routes[0]).toEqual({ networkAddress: '0.0.0.0', cidr: 0, nextHop: '203.0.113.1', metric: 0, administrativeDistance: 1 });
+    expect(routes[1]).toEqual({ networkAddress: '10.0.0.0', cidr: 8, nextHop: '192.0.2.1', metric: 20, administrativeDistance: 110 });
+    expect(routes[2]).toEqual({ networkAddress: '10.1.0.0', cidr: 16, nextHop: '192.0.2.2', metric: 5, administrativeDistance: 90 });
+    expect(routes[5]).toEqual({ networkAddress: '10.1.2.0', cidr: 24, nextHop: 'GigabitEthernet0/1', metric: 0, administrativeDistance: 0 });
+  });
+
+  test('rejects lines without a next hop or with bad numbers', () => {
+    const lines = ['10.0.0.0 255.0.0.0', '10.0.0.0/8', '10.0.0.0/8 192.0.2.1 x', '10.0.0.0/8 192.0.2.1 1 2 3', 'nope 192.0.2.1'];
+    expect(parseRoutingTable(lines.join('\n'))).toEqual({ routes: [], invalidEntries: lines });
+  });
+});
+
+describe('lookupRoute', () => {
+  const { routes } = parseRoutingTable(table);
+
+  test('matches destinations against a prefix', () => {
+    expect(routeMatches(routes[5], '10.1.2.200')).toBe(true);
+    expect(routeMatches(routes[5], '10.1.3.1')).toBe(false);
+  });
+
+  test('prefers the longest prefix', () => {
+    const result = lookupRoute(routes, '10.1.2.7');
+    expect(result.selected).toEqual([routes[5]]);
+    expect(result.ecmp).toBe(false);
+    expect(result.evaluations.map(evaluation => [evaluation.index, evaluation.status])).toEqual([
+      [5, 'selected'],
+      [2, 'longerPrefix'],
+      [3, 'longerPrefix'],
+      [4, 'longerPrefix'],
+      [1, 'longerPrefix'],
+      [0, 'longerPrefix']
+    ]);
+  });
+
+  test('breaks ties by distance, then metric', () => {
+    const result = lookupRoute(routes, '10.1.9.9');
+    expect(result.selected).toEqual([routes[2]]);
+    expect(result.evaluations.slice(0, 3).map(evaluation => evaluation.status)).toEqual(['selected', 'lowerMetric', 'lowerMetric']);
+    expect(result.evaluations[result.evaluations.length - 1]).toEqual({ route: routes[5], index: 5, status: 'noMatch' });
+
+    const distances = parseRoutingTable('10.0.0.0/8 192.0.2.1 1 120\n10.0.0.0/8 192.0.2.2 50 20').routes;
+    expect(lookupRoute(distances, '10.9.9.9').evaluations.map(evaluation => evaluation.status)).toEqual(['selected', 'lowerDistance']);
+  });
+
+  test('reports equal-cost routes', () => {
+    const result = lookupRoute(routes.slice(3, 5), '10.1.9.9');
+    expect(result.selected).toEqual([routes[3], routes[4]]);
+    expect(result.ecmp).toBe(true);
+  });
+
+  test('selects nothing when no route matches', () => {
+    const result = lookupRoute(routes.slice(1), '192.168.1.1');
+    expect(result.selected).toEqual([]);
+    expect(result.evaluations.every(evaluation => evaluation.status === 'noMatch')).toBe(true);
+  });
+});
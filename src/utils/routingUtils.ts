@@ -0,0 +1,141 @@
+/**
+ * Routing table lookups by longest-prefix match
+ */
+
+import { CidrBlock, isValidIP, cidrToSubnetMask, calculateNetworkAddress } from './ipUtils';
+import { isValidSubnetMask } from './addressParser';
+import { parseCidr } from './cidrUtils';
+
+export interface Route extends CidrBlock {
+  // Gateway address, or an interface name for directly connected routes
+  nextHop: string;
+  metric: number;
+  administrativeDistance: number;
+  interfaceName?: string;
+  protocol?: string;
+}
+
+// Why a route was or was not chosen for a destination
+export type RouteStatus =
+  | 'selected'
+  | 'longerPrefix'
+  | 'lowerDistance'
+  | 'lowerMetric'
+  | 'noMatch';
+
+export interface RouteEvaluation {
+  route: Route;
+  // Position of the route in the table
+  index: number;
+  status: RouteStatus;
+}
+
+export interface RouteLookupResult {
+  destination: string;
+  selected: Route[];
+  // Every route of the table: matching routes by preference, then the ones that do not match
+  evaluations: RouteEvaluation[];
+  // Several routes tie on every criterion (equal-cost multipath)
+  ecmp: boolean;
+}
+
+// Administrative distances used when a line does not give one
+export const DEFAULT_CONNECTED_DISTANCE = 0;
+export const DEFAULT_STATIC_DISTANCE = 1;
+
+/**
+ * Parses a routing table with one route per line:
+ * <prefix> <next hop> [metric] [administrative distance]
+ * The prefix may be written as 10.0.0.0/8 or 10.0.0.0 255.0.0.0; fields are separated by spaces, tabs or commas
+ */
+export const parseRoutingTable = (text: string): { routes: Route[]; invalidEntries: string[] } => {
+  const routes: Route[] = [];
+  const invalidEntries: string[] = [];
+
+  text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line !== '' && !line.startsWith('#'))
+    .forEach(line => {
+      const tokens = line.split(/[\s,;]+/);
+      // A mask after an address without a prefix length belongs to the prefix, even when nothing follows it:
+      // "10.0.0.0 255.0.0.0" is a prefix missing its next hop, not a route via 255.0.0.0
+      const prefixTokens = tokens[0].indexOf('/') === -1 && tokens.length > 1 && isValidSubnetMask(tokens[1]) ? 2 : 1;
+      const block = parseCidr(tokens.slice(0, prefixTokens).join(' '));
+      const [nextHop, metric, distance, ...rest] = tokens.slice(prefixTokens);
+      const numbers = [metric, distance].filter(value => value !== undefined);
+
+      if (!block || !nextHop || rest.length > 0 || numbers.some(value => !/^\d+$/.test(value))) {
+        invalidEntries.push(line);
+        return;
+      }
+
+      routes.push({
+        ...block,
+        nextHop,
+        metric: metric === undefined ? 0 : parseInt(metric, 10),
+        administrativeDistance: distance === undefined
+          ? (isValidIP(nextHop) ? DEFAULT_STATIC_DISTANCE : DEFAULT_CONNECTED_DISTANCE)
+          : parseInt(distance, 10)
+      });
+    });
+
+  return { routes, invalidEntries };
+};
+
+/**
+ * Checks whether a destination falls inside a route's prefix (destination AND mask = network)
+ */
+export const routeMatches = (route: CidrBlock, destination: string): boolean => {
+  return calculateNetworkAddress(destination, cidrToSubnetMask(route.cidr)) === route.networkAddress;
+};
+
+/**
+ * Orders routes by preference: longest prefix, then lowest administrative distance, then lowest metric
+ */
+const compareRoutes = (a: Route, b: Route): number => {
+  return b.cidr - a.cidr
+    || a.administrativeDistance - b.administrativeDistance
+    || a.metric - b.metric;
+};
+
+/**
+ * Selects the route for a destination and explains the decision for every route in the table
+ */
+export const lookupRoute = (routes: Route[], destination: string): RouteLookupResult => {
+  const indexed = routes.map((route, index) => ({ route, index }));
+  const matching = indexed
+    .filter(entry => routeMatches(entry.route, destination))
+    .sort((a, b) => compareRoutes(a.route, b.route) || a.index - b.index);
+
+  const best = matching.length > 0 ? matching[0].route : null;
+
+  const evaluations: RouteEvaluation[] = matching.map(entry => {
+    let status: RouteStatus = 'selected';
+    if (best && compareRoutes(entry.route, best) !== 0) {
+      if (entry.route.cidr !== best.cidr) {
+        status = 'longerPrefix';
+      } else if (entry.route.administrativeDistance !== best.administrativeDistance) {
+        status = 'lowerDistance';
+      } else {
+        status = 'lowerMetric';
+      }
+    }
+    return { ...entry, status };
+  });
+
+  indexed
+    .filter(entry => !routeMatches(entry.route, destination))
+    .forEach(entry => evaluations.push({ ...entry, status: 'noMatch' }));
+
+  const selected = evaluations
+    .filter(evaluation => evaluation.status === 'selected')
+    .map(evaluation => evaluation.route);
+
+  return {
+    destination,
+    selected,
+    evaluations,
+    ecmp: selected.length > 1
+  };
+};
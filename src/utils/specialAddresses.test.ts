@@ -0,0 +1,45 @@
+import { classifyIPv4, isLocalIPv4 } from './ipUtils';
+import { publicAddressBlock } from './specialAddresses';
+
+const block = (ip: string) => {
+  const match = classifyIPv4(ip);
+  return `${match.networkAddress}/${match.cidr} ${match.category}`;
+};
+
+describe('classifyIPv4', () => {
+  test('finds the registry block containing the address', () => {
+    expect(block('10.20.30.40')).toBe('10.0.0.0/8 private');
+    expect(block('100.127.255.255')).toBe('100.64.0.0/10 sharedAddressSpace');
+    expect(block('198.19.0.1')).toBe('198.18.0.0/15 benchmarking');
+    expect(block('239.1.1.1')).toBe('224.0.0.0/4 multicast');
+    expect(block('192.88.99.1')).toBe('192.88.99.0/24 sixToFourRelay');
+  });
+
+  test('prefers the most specific prefix', () => {
+    expect(block('0.0.0.0')).toBe('0.0.0.0/32 thisNetwork');
+    expect(block('0.0.0.1')).toBe('0.0.0.0/8 thisNetwork');
+    expect(block('192.0.0.9')).toBe('192.0.0.9/32 ietfProtocolAssignments');
+    expect(block('192.0.0.10')).toBe('192.0.0.10/32 ietfProtocolAssignments');
+    expect(block('192.0.0.11')).toBe('192.0.0.0/24 ietfProtocolAssignments');
+    expect(block('255.255.255.255')).toBe('255.255.255.255/32 limitedBroadcast');
+    expect(block('255.255.255.254')).toBe('240.0.0.0/4 reserved');
+  });
+
+  test('carries the registry flags of the block', () => {
+    expect(classifyIPv4('192.0.0.9')).toMatchObject({ rfc: 'RFC 7723', forwardable: true, globallyReachable: true });
+    expect(classifyIPv4('192.0.0.8')).toMatchObject({ rfc: 'RFC 6890', forwardable: false, globallyReachable: false });
+  });
+
+  test('falls back to public for every other address', () => {
+    expect(classifyIPv4('8.8.8.8')).toBe(publicAddressBlock);
+    expect(classifyIPv4('192.88.100.1')).toBe(publicAddressBlock);
+    expect(classifyIPv4('172.32.0.1').category).toBe('public');
+  });
+
+  test('tells local networks apart', () => {
+    expect(isLocalIPv4('192.168.1.1')).toBe(true);
+    expect(isLocalIPv4('169.254.10.1')).toBe(true);
+    expect(isLocalIPv4('192.0.2.1')).toBe(false);
+    expect(isLocalIPv4('1.1.1.1')).toBe(false);
+  });
+});
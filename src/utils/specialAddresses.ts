@@ -0,0 +1,69 @@
+/**
+ * IANA IPv4 Special-Purpose Address Registry (RFC 6890) plus the multicast and limited broadcast blocks
+ */
+
+export type AddressCategory =
+  | 'thisNetwork'
+  | 'private'
+  | 'sharedAddressSpace'
+  | 'loopback'
+  | 'linkLocal'
+  | 'ietfProtocolAssignments'
+  | 'documentation'
+  | 'as112'
+  | 'amt'
+  | 'sixToFourRelay'
+  | 'benchmarking'
+  | 'multicast'
+  | 'reserved'
+  | 'limitedBroadcast'
+  | 'public';
+
+export interface SpecialPurposeBlock {
+  networkAddress: string;
+  cidr: number;
+  category: AddressCategory;
+  name: string;
+  rfc: string;
+  forwardable: boolean;
+  globallyReachable: boolean;
+}
+
+export const specialPurposeBlocks: SpecialPurposeBlock[] = [
+  { networkAddress: '0.0.0.0', cidr: 8, category: 'thisNetwork', name: '"This network"', rfc: 'RFC 791', forwardable: false, globallyReachable: false },
+  { networkAddress: '0.0.0.0', cidr: 32, category: 'thisNetwork', name: '"This host on this network"', rfc: 'RFC 1122', forwardable: false, globallyReachable: false },
+  { networkAddress: '10.0.0.0', cidr: 8, category: 'private', name: 'Private-Use', rfc: 'RFC 1918', forwardable: true, globallyReachable: false },
+  { networkAddress: '100.64.0.0', cidr: 10, category: 'sharedAddressSpace', name: 'Shared Address Space (CGNAT)', rfc: 'RFC 6598', forwardable: true, globallyReachable: false },
+  { networkAddress: '127.0.0.0', cidr: 8, category: 'loopback', name: 'Loopback', rfc: 'RFC 1122', forwardable: false, globallyReachable: false },
+  { networkAddress: '169.254.0.0', cidr: 16, category: 'linkLocal', name: 'Link Local', rfc: 'RFC 3927', forwardable: false, globallyReachable: false },
+  { networkAddress: '172.16.0.0', cidr: 12, category: 'private', name: 'Private-Use', rfc: 'RFC 1918', forwardable: true, globallyReachable: false },
+  { networkAddress: '192.0.0.0', cidr: 24, category: 'ietfProtocolAssignments', name: 'IETF Protocol Assignments', rfc: 'RFC 6890', forwardable: false, globallyReachable: false },
+  { networkAddress: '192.0.0.9', cidr: 32, category: 'ietfProtocolAssignments', name: 'Port Control Protocol Anycast', rfc: 'RFC 7723', forwardable: true, globallyReachable: true },
+  { networkAddress: '192.0.0.10', cidr: 32, category: 'ietfProtocolAssignments', name: 'Traversal Using Relays around NAT Anycast', rfc: 'RFC 8155', forwardable: true, globallyReachable: true },
+  { networkAddress: '192.0.2.0', cidr: 24, category: 'documentation', name: 'Documentation (TEST-NET-1)', rfc: 'RFC 5737', forwardable: false, globallyReachable: false },
+  { networkAddress: '192.31.196.0', cidr: 24, category: 'as112', name: 'AS112-v4', rfc: 'RFC 7535', forwardable: true, globallyReachable: true },
+  { networkAddress: '192.52.193.0', cidr: 24, category: 'amt', name: 'AMT', rfc: 'RFC 7450', forwardable: true, globallyReachable: true },
+  // Deprecated: the registry gives no flags for it, relays may still answer but it is not routed globally
+  { networkAddress: '192.88.99.0', cidr: 24, category: 'sixToFourRelay', name: 'Deprecated (6to4 Relay Anycast)', rfc: 'RFC 7526', forwardable: false, globallyReachable: false },
+  { networkAddress: '192.168.0.0', cidr: 16, category: 'private', name: 'Private-Use', rfc: 'RFC 1918', forwardable: true, globallyReachable: false },
+  { networkAddress: '192.175.48.0', cidr: 24, category: 'as112', name: 'Direct Delegation AS112 Service', rfc: 'RFC 7534', forwardable: true, globallyReachable: true },
+  { networkAddress: '198.18.0.0', cidr: 15, category: 'benchmarking', name: 'Benchmarking', rfc: 'RFC 2544', forwardable: true, globallyReachable: false },
+  { networkAddress: '198.51.100.0', cidr: 24, category: 'documentation', name: 'Documentation (TEST-NET-2)', rfc: 'RFC 5737', forwardable: false, globallyReachable: false },
+  { networkAddress: '203.0.113.0', cidr: 24, category: 'documentation', name: 'Documentation (TEST-NET-3)', rfc: 'RFC 5737', forwardable: false, globallyReachable: false },
+  { networkAddress: '224.0.0.0', cidr: 4, category: 'multicast', name: 'Multicast', rfc: 'RFC 5771', forwardable: true, globallyReachable: false },
+  { networkAddress: '240.0.0.0', cidr: 4, category: 'reserved', name: 'Reserved (Class E)', rfc: 'RFC 1112', forwardable: false, globallyReachable: false },
+  { networkAddress: '255.255.255.255', cidr: 32, category: 'limitedBroadcast', name: 'Limited Broadcast', rfc: 'RFC 919', forwardable: false, globallyReachable: false }
+];
+
+/**
+ * Classification used for addresses outside every special-purpose block
+ */
+export const publicAddressBlock: SpecialPurposeBlock = {
+  networkAddress: '0.0.0.0',
+  cidr: 0,
+  category: 'public',
+  name: 'Global Unicast',
+  rfc: '',
+  forwardable: true,
+  globallyReachable: true
+};
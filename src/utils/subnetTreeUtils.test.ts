@@ -0,0 +1,90 @@
+import {
+  createSubnetTree,
+  splitNode,
+  joinNode,
+  getLeaves,
+  getTreeRows,
+  leavesToSubnets,
+  MAX_TREE_LEAVES,
+  SubnetTreeNode
+} from './subnetTreeUtils';
+
+const format = (nodes: SubnetTreeNode[]) => nodes.map(node => `${node.networkAddress}/${node.cidr}`);
+
+const root = createSubnetTree({ networkAddress: '192.168.0.0', cidr: 24 });
+
+describe('splitting and joining', () => {
+  test('divides a leaf into its two halves', () => {
+    let tree = splitNode(root, root);
+    tree = splitNode(tree, { networkAddress: '192.168.0.128', cidr: 25 });
+    expect(format(getLeaves(tree))).toEqual(['192.168.0.0/25', '192.168.0.128/26', '192.168.0.192/26']);
+  });
+
+  test('leaves the tree alone for nodes that are not leaves or not in it', () => {
+    const tree = splitNode(root, root);
+    expect(splitNode(tree, root)).toBe(tree);
+    expect(format(getLeaves(splitNode(tree, { networkAddress: '10.0.0.0', cidr: 25 })))).toEqual(format(getLeaves(tree)));
+  });
+
+  test('joins everything below a node back into one leaf', () => {
+    let tree = splitNode(root, root);
+    tree = splitNode(tree, { networkAddress: '192.168.0.0', cidr: 25 });
+    tree = splitNode(tree, { networkAddress: '192.168.0.0', cidr: 26 });
+    expect(getLeaves(tree)).toHaveLength(4);
+    expect(format(getLeaves(joinNode(tree, { networkAddress: '192.168.0.0', cidr: 25 })))).toEqual(['192.168.0.0/25', '192.168.0.128/25']);
+    expect(joinNode(tree, root)).toEqual(root);
+  });
+});
+
+describe('limits', () => {
+  test('does not divide a /32', () => {
+    const host = createSubnetTree({ networkAddress: '10.0.0.1', cidr: 32 });
+    expect(splitNode(host, host)).toBe(host);
+
+    const pair = splitNode(createSubnetTree({ networkAddress: '10.0.0.0', cidr: 31 }), { networkAddress: '10.0.0.0', cidr: 31 });
+    expect(format(getLeaves(pair))).toEqual(['10.0.0.0/32', '10.0.0.1/32']);
+  });
+
+  test('stops dividing once the tree holds the maximum number of leaves', () => {
+    let tree = createSubnetTree({ networkAddress: '10.0.0.0', cidr: 8 });
+    while (getLeaves(tree).length < MAX_TREE_LEAVES) {
+      // Divides the largest leaf, so that the tree grows level by level
+      const largest = getLeaves(tree).reduce((best, leaf) => (leaf.cidr < best.cidr ? leaf : best));
+      tree = splitNode(tree, largest);
+    }
+    const leaves = getLeaves(tree);
+    expect(leaves).toHaveLength(MAX_TREE_LEAVES);
+    expect(splitNode(tree, leaves[0])).toBe(tree);
+  });
+});
+
+describe('layout', () => {
+  test('starts each join cell on the first leaf of its node', () => {
+    let tree = splitNode(root, root);
+    tree = splitNode(tree, { networkAddress: '192.168.0.0', cidr: 25 });
+    const rows = getTreeRows(tree);
+    expect(rows.map(row => [`${row.leaf.networkAddress}/${row.leaf.cidr}`, row.depth])).toEqual([
+      ['192.168.0.0/26', 2],
+      ['192.168.0.64/26', 2],
+      ['192.168.0.128/25', 1]
+    ]);
+    expect(rows[0].joins.map(join => [`${join.node.networkAddress}/${join.node.cidr}`, join.depth, join.leafCount])).toEqual([
+      ['192.168.0.0/25', 1, 2],
+      ['192.168.0.0/24', 0, 3]
+    ]);
+    expect(rows[1].joins).toEqual([]);
+  });
+
+  test('converts leaves into subnet rows', () => {
+    const leaves = getLeaves(splitNode(root, root));
+    expect(leavesToSubnets(leaves)[1]).toEqual({
+      id: 2,
+      networkAddress: '192.168.0.128',
+      broadcastAddress: '192.168.0.255',
+      firstHost: '192.168.0.129',
+      lastHost: '192.168.0.254',
+      cidr: 25,
+      usableHosts: 126
+    });
+  });
+});
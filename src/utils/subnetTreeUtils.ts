@@ -0,0 +1,151 @@
+/**
+ * Binary tree of a network where any block can be divided in two halves or joined back
+ */
+
+import {
+  CidrBlock,
+  Subnet,
+  ipToInt,
+  intToIp,
+  cidrSize,
+  calculateHostRange
+} from './ipUtils';
+
+export interface SubnetTreeNode extends CidrBlock {
+  // Both halves of the block, or null for a leaf
+  children: [SubnetTreeNode, SubnetTreeNode] | null;
+}
+
+/**
+ * Row of the tree table: a leaf and the ancestors it is the first leaf of
+ */
+export interface SubnetTreeRow {
+  leaf: SubnetTreeNode;
+  depth: number;
+  // Ancestors starting at this leaf, deepest first, with the number of leaves each one spans
+  joins: { node: SubnetTreeNode; depth: number; leafCount: number }[];
+}
+
+// Leaves the tree may hold, as the table renders one row for each of them
+export const MAX_TREE_LEAVES = 1024;
+
+const isNode = (node: CidrBlock, target: CidrBlock): boolean => {
+  return node.networkAddress === target.networkAddress && node.cidr === target.cidr;
+};
+
+const contains = (node: CidrBlock, target: CidrBlock): boolean => {
+  const start = ipToInt(node.networkAddress);
+  const targetStart = ipToInt(target.networkAddress);
+  return target.cidr >= node.cidr && targetStart >= start && targetStart < start + cidrSize(node.cidr);
+};
+
+/**
+ * Creates a tree with the network as its only leaf
+ */
+export const createSubnetTree = (block: CidrBlock): SubnetTreeNode => ({
+  networkAddress: block.networkAddress,
+  cidr: block.cidr,
+  children: null
+});
+
+const divide = (tree: SubnetTreeNode, target: CidrBlock): SubnetTreeNode => {
+  if (isNode(tree, target)) {
+    if (tree.children || tree.cidr >= 32) {
+      return tree;
+    }
+    const start = ipToInt(tree.networkAddress);
+    const halfSize = cidrSize(tree.cidr + 1);
+    return {
+      ...tree,
+      children: [
+        createSubnetTree({ networkAddress: intToIp(start), cidr: tree.cidr + 1 }),
+        createSubnetTree({ networkAddress: intToIp(start + halfSize), cidr: tree.cidr + 1 })
+      ]
+    };
+  }
+
+  if (!tree.children || !contains(tree, target)) {
+    return tree;
+  }
+
+  return {
+    ...tree,
+    children: [divide(tree.children[0], target), divide(tree.children[1], target)]
+  };
+};
+
+/**
+ * Divides a leaf into its two halves; /32 leaves cannot be divided, nor any leaf once the tree is full
+ */
+export const splitNode = (tree: SubnetTreeNode, target: CidrBlock): SubnetTreeNode => {
+  return getLeaves(tree).length >= MAX_TREE_LEAVES ? tree : divide(tree, target);
+};
+
+/**
+ * Joins everything below a node back into a single leaf
+ */
+export const joinNode = (tree: SubnetTreeNode, target: CidrBlock): SubnetTreeNode => {
+  if (isNode(tree, target)) {
+    return { ...tree, children: null };
+  }
+
+  if (!tree.children || !contains(tree, target)) {
+    return tree;
+  }
+
+  return {
+    ...tree,
+    children: [joinNode(tree.children[0], target), joinNode(tree.children[1], target)]
+  };
+};
+
+/**
+ * Lists the leaves in address order
+ */
+export const getLeaves = (tree: SubnetTreeNode): SubnetTreeNode[] => {
+  return tree.children
+    ? getLeaves(tree.children[0]).concat(getLeaves(tree.children[1]))
+    : [tree];
+};
+
+/**
+ * Lays the tree out as one row per leaf, with the join cells each row starts
+ */
+export const getTreeRows = (tree: SubnetTreeNode): SubnetTreeRow[] => {
+  const rows: SubnetTreeRow[] = [];
+
+  const visit = (node: SubnetTreeNode, depth: number, pending: SubnetTreeRow['joins']) => {
+    if (!node.children) {
+      rows.push({ leaf: node, depth, joins: pending });
+      return;
+    }
+
+    const join = { node, depth, leafCount: getLeaves(node).length };
+    // Only the first leaf of a node starts its join cell
+    visit(node.children[0], depth + 1, [join].concat(pending));
+    visit(node.children[1], depth + 1, []);
+  };
+
+  visit(tree, 0, []);
+  return rows;
+};
+
+/**
+ * Converts the leaves into rows with the same shape as generateSubnets
+ */
+export const leavesToSubnets = (leaves: CidrBlock[]): Subnet[] => {
+  return leaves.map((leaf, index) => {
+    const networkInt = ipToInt(leaf.networkAddress);
+    const { firstHostInt, lastHostInt, usableHosts } = calculateHostRange(networkInt, leaf.cidr);
+
+    return {
+      id: index + 1,
+      networkAddress: leaf.networkAddress,
+      broadcastAddress: intToIp(networkInt + cidrSize(leaf.cidr) - 1),
+      firstHost: intToIp(firstHostInt),
+      lastHost: intToIp(lastHostInt),
+      cidr: leaf.cidr,
+      usableHosts
+    };
+  });
+};
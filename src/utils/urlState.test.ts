@@ -0,0 +1,44 @@
+import { parseUrlState, buildUrl, isSameCalculation, UrlState } from './urlState';
+
+const empty: UrlState = { ip: null, cidr: null, subnetCount: null, toolTab: null, language: null };
+
+describe('parseUrlState', () => {
+  test('reads the calculation from the path', () => {
+    expect(parseUrlState('/10.0.0.0/16', '?subnets=4&tool=routing&lang=fr')).toEqual({
+      ip: '10.0.0.0', cidr: 16, subnetCount: 4, toolTab: 4, language: 'fr'
+    });
+    expect(parseUrlState('/2001:db8::/48/', '')).toEqual({ ...empty, ip: '2001:db8::', cidr: 48 });
+    expect(parseUrlState('/2001%3Adb8%3A%3A/64', '')).toEqual({ ...empty, ip: '2001:db8::', cidr: 64 });
+  });
+
+  test('reads the query string form', () => {
+    expect(parseUrlState('/', '?ip=192.168.1.0&cidr=24')).toEqual({ ...empty, ip: '192.168.1.0', cidr: 24 });
+  });
+
+  test('leaves out invalid values', () => {
+    expect(parseUrlState('/10.0.0.0/33', '?subnets=4&tool=ping')).toEqual({ ...empty, toolTab: 0 });
+    expect(parseUrlState('/10.0.0.0', '')).toEqual(empty);
+    expect(parseUrlState('/300.0.0.0/8', '')).toEqual(empty);
+    expect(parseUrlState('/10.0.0.0/8', '?subnets=1&tool=nope&lang=es')).toEqual({ ...empty, ip: '10.0.0.0', cidr: 8 });
+  });
+
+  test('restores nothing from malformed escapes', () => {
+    expect(parseUrlState('/%E0%A4%A', '?lang=en')).toEqual(empty);
+  });
+});
+
+describe('buildUrl', () => {
+  test('writes the state back as a path and a query', () => {
+    const state: UrlState = { ip: '10.0.0.0', cidr: 16, subnetCount: 4, toolTab: 4, language: 'fr' };
+    expect(buildUrl(state)).toBe('/10.0.0.0/16?subnets=4&tool=routing&lang=fr');
+    expect(parseUrlState('/10.0.0.0/16', '?subnets=4&tool=routing&lang=fr')).toEqual(state);
+    expect(buildUrl({ ...empty, subnetCount: 4, language: 'en' })).toBe('/?lang=en');
+    expect(buildUrl(empty)).toBe('/');
+  });
+
+  test('tells calculations apart from tab and language changes', () => {
+    const state: UrlState = { ip: '10.0.0.0', cidr: 16, subnetCount: null, toolTab: null, language: null };
+    expect(isSameCalculation(state, { ...state, toolTab: 2, language: 'de' })).toBe(true);
+    expect(isSameCalculation(state, { ...state, cidr: 17 })).toBe(false);
+  });
+});
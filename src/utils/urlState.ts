@@ -0,0 +1,101 @@
+/**
+ * Calculator state kept in the page URL, so that a result can be linked
+ *
+ * /10.0.0.0/16?subnets=4&tool=routing&lang=en
+ * /?ip=10.0.0.0&cidr=16 is read as well
+ */
+
+import { isValidIP } from './ipUtils';
+import { isValidIPv6 } from './ipv6Utils';
+
+// NetworkTools tabs, in the order of their buttons
+export const networkToolTabs = ['ping', 'ports', 'sweep', 'rangeToCidr', 'routing', 'routeImport'];
+
+export const supportedLanguages = ['pt', 'en', 'fr', 'de'];
+
+// Same limits as the subnet generator form
+const MIN_SUBNET_COUNT = 2;
+const MAX_SUBNET_COUNT = 1024;
+
+export interface UrlState {
+  ip: string | null;
+  cidr: number | null;
+  subnetCount: number | null;
+  // Index in networkToolTabs
+  toolTab: number | null;
+  language: string | null;
+}
+
+const parseNumber = (value: string | null, min: number, max: number): number | null => {
+  if (value === null || !/^\d{1,4}$/.test(value)) {
+    return null;
+  }
+  const number = parseInt(value, 10);
+  return number >= min && number <= max ? number : null;
+};
+
+const emptyState: UrlState = { ip: null, cidr: null, subnetCount: null, toolTab: null, language: null };
+
+/**
+ * Reads the state from a path and a query string; invalid values are left out
+ */
+export const parseUrlState = (pathname: string, search: string): UrlState => {
+  const params = new URLSearchParams(search);
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch (error) {
+    // Malformed escapes in a shared link: nothing is restored
+    return { ...emptyState };
+  }
+  const path = decoded.replace(/^\/+|\/+$/g, '');
+
+  // The path is "<ip>/<prefix>", the prefix being after the last slash
+  const slash = path.lastIndexOf('/');
+  let ip: string | null = path ? (slash === -1 ? path : path.substring(0, slash)) : params.get('ip');
+  let cidrText = path ? (slash === -1 ? null : path.substring(slash + 1)) : params.get('cidr');
+
+  const ipv6 = ip !== null && isValidIPv6(ip);
+  if (ip === null || (!ipv6 && !isValidIP(ip))) {
+    ip = null;
+    cidrText = null;
+  }
+
+  const cidr = ip === null ? null : parseNumber(cidrText, 0, ipv6 ? 128 : 32);
+  const tool = networkToolTabs.indexOf(params.get('tool') || '');
+  const language = params.get('lang');
+
+  return {
+    ip: cidr === null ? null : ip,
+    cidr,
+    subnetCount: cidr === null ? null : parseNumber(params.get('subnets'), MIN_SUBNET_COUNT, MAX_SUBNET_COUNT),
+    toolTab: tool === -1 ? null : tool,
+    language: language && supportedLanguages.indexOf(language) !== -1 ? language : null
+  };
+};
+
+/**
+ * Writes the state as a path and a query string
+ */
+export const buildUrl = (state: UrlState): string => {
+  const params: string[] = [];
+  if (state.ip !== null && state.subnetCount) {
+    params.push(`subnets=${state.subnetCount}`);
+  }
+  if (state.toolTab !== null && networkToolTabs[state.toolTab]) {
+    params.push(`tool=${networkToolTabs[state.toolTab]}`);
+  }
+  if (state.language && supportedLanguages.indexOf(state.language) !== -1) {
+    params.push(`lang=${state.language}`);
+  }
+
+  const path = state.ip !== null && state.cidr !== null ? `/${state.ip}/${state.cidr}` : '/';
+  return params.length > 0 ? `${path}?${params.join('&')}` : path;
+};
+
+/**
+ * Whether two states show a different calculation, as opposed to another tab or language
+ */
+export const isSameCalculation = (a: UrlState, b: UrlState): boolean => {
+  return a.ip === b.ip && a.cidr === b.cidr && a.subnetCount === b.subnetCount;
+};
@@ -0,0 +1,77 @@
+import { calculateIPInfo } from './ipUtils';
+import { parseVlsmRequirements, cidrForHosts, allocateVlsm } from './vlsmUtils';
+
+describe('parseVlsmRequirements', () => {
+  test('reads named segments separated by commas or new lines', () => {
+    expect(parseVlsmRequirements('Servers 60, Users: 200\nLink=2')).toEqual({
+      requirements: [
+        { name: 'Servers', hosts: 60 },
+        { name: 'Users', hosts: 200 },
+        { name: 'Link', hosts: 2 }
+      ],
+      invalidEntries: []
+    });
+  });
+
+  test('numbers unnamed segments and reports entries without a host count', () => {
+    expect(parseVlsmRequirements('25; Printers; Guests 0')).toEqual({
+      requirements: [{ name: '#1', hosts: 25 }],
+      invalidEntries: ['Printers', 'Guests 0']
+    });
+  });
+});
+
+describe('cidrForHosts', () => {
+  test('returns the longest prefix with enough usable hosts', () => {
+    expect(cidrForHosts(3)).toBe(29);
+    expect(cidrForHosts(6)).toBe(29);
+    expect(cidrForHosts(7)).toBe(28);
+    expect(cidrForHosts(254)).toBe(24);
+    expect(cidrForHosts(255)).toBe(23);
+  });
+
+  test('gives point-to-point links a /31 and single hosts a /32 (RFC 3021)', () => {
+    expect(cidrForHosts(2)).toBe(31);
+    expect(cidrForHosts(1)).toBe(32);
+  });
+});
+
+describe('allocateVlsm', () => {
+  test('packs segments largest first and lists the free space', () => {
+    const result = allocateVlsm(calculateIPInfo('192.168.10.0', 24), [
+      { name: 'Link', hosts: 2 },
+      { name: 'Users', hosts: 100 },
+      { name: 'Servers', hosts: 50 },
+      { name: 'Loopback', hosts: 1 }
+    ]);
+
+    expect(result.error).toBeUndefined();
+    expect(result.allocations.map(a => [a.name, `${a.networkAddress}/${a.cidr}`, a.firstHost, a.lastHost, a.usableHosts])).toEqual([
+      ['Users', '192.168.10.0/25', '192.168.10.1', '192.168.10.126', 126],
+      ['Servers', '192.168.10.128/26', '192.168.10.129', '192.168.10.190', 62],
+      ['Link', '192.168.10.192/31', '192.168.10.192', '192.168.10.193', 2],
+      ['Loopback', '192.168.10.194/32', '192.168.10.194', '192.168.10.194', 1]
+    ]);
+    expect(result.freeBlocks).toEqual([
+      { networkAddress: '192.168.10.195', cidr: 32 },
+      { networkAddress: '192.168.10.196', cidr: 30 },
+      { networkAddress: '192.168.10.200', cidr: 29 },
+      { networkAddress: '192.168.10.208', cidr: 28 },
+      { networkAddress: '192.168.10.224', cidr: 27 }
+    ]);
+    expect(result.requiredAddresses).toBe(128 + 64 + 2 + 1);
+  });
+
+  test('reports the segments that do not fit', () => {
+    const result = allocateVlsm(calculateIPInfo('10.0.0.0', 26), [
+      { name: 'A', hosts: 30 },
+      { name: 'B', hosts: 30 },
+      { name: 'C', hosts: 10 }
+    ]);
+
+    expect(result.error).toBe('doesNotFit');
+    expect(result.allocations.map(a => a.name)).toEqual(['A', 'B']);
+    expect(result.unallocated).toEqual([{ name: 'C', hosts: 10 }]);
+    expect(result.freeBlocks).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Utilities for Variable Length Subnet Masking (VLSM) allocation
+ */
+
+import {
+  IPResult,
+  CidrBlock,
+  ipToInt,
+  intToIp,
+  cidrSize,
+  calculateHostRange,
+  rangeToCidrs
+} from './ipUtils';
+
+export interface VlsmRequirement {
+  name: string;
+  hosts: number;
+}
+
+export interface VlsmAllocation {
+  name: string;
+  requiredHosts: number;
+  networkAddress: string;
+  broadcastAddress: string;
+  firstHost: string;
+  lastHost: string;
+  cidr: number;
+  usableHosts: number;
+}
+
+export interface VlsmResult {
+  allocations: VlsmAllocation[];
+  freeBlocks: CidrBlock[];
+  unallocated: VlsmRequirement[];
+  requiredAddresses: number;
+  availableAddresses: number;
+  error?: 'doesNotFit';
+}
+
+/**
+ * Parses requirements written as "Servers 60, Users 200" (commas or new lines)
+ * Entries without a trailing positive host count are returned as invalid
+ */
+export const parseVlsmRequirements = (text: string): { requirements: VlsmRequirement[]; invalidEntries: string[] } => {
+  const requirements: VlsmRequirement[] = [];
+  const invalidEntries: string[] = [];
+
+  text
+    .split(/[,;\n]/)
+    .map(entry => entry.trim())
+    .filter(entry => entry !== '')
+    .forEach(entry => {
+      const match = entry.match(/^(.*?)[\s:=]*(\d+)$/);
+      const hosts = match ? parseInt(match[2], 10) : NaN;
+
+      if (!match || isNaN(hosts) || hosts < 1) {
+        invalidEntries.push(entry);
+        return;
+      }
+
+      requirements.push({
+        name: match[1].trim() || `#${requirements.length + 1}`,
+        hosts
+      });
+    });
+
+  return { requirements, invalidEntries };
+};
+
+/**
+ * Returns the longest CIDR whose subnet has at least the requested number of usable hosts
+ * Point-to-point links of 2 hosts get a /31 (RFC 3021) and single hosts, such as loopbacks, a /32
+ */
+export const cidrForHosts = (hosts: number): number => {
+  let cidr = 32;
+  while (cidr > 0 && calculateHostRange(0, cidr).usableHosts < hosts) {
+    cidr--;
+  }
+  return cidr;
+};
+
+/**
+ * Allocates subnets largest-first inside the parent network
+ * Blocks are packed contiguously from the network address, which keeps every block aligned
+ */
+export const allocateVlsm = (parent: IPResult, requirements: VlsmRequirement[]): VlsmResult => {
+  const networkInt = ipToInt(parent.networkAddress);
+  const broadcastInt = ipToInt(parent.broadcastAddress);
+
+  const sorted = [...requirements].sort((a, b) => b.hosts - a.hosts);
+  const requiredAddresses = sorted.reduce((sum, req) => sum + cidrSize(cidrForHosts(req.hosts)), 0);
+
+  const allocations: VlsmAllocation[] = [];
+  const unallocated: VlsmRequirement[] = [];
+  let nextInt = networkInt;
+
+  sorted.forEach(req => {
+    const cidr = cidrForHosts(req.hosts);
+    const size = cidrSize(cidr);
+
+    if (cidr < parent.cidr || nextInt + size - 1 > broadcastInt) {
+      unallocated.push(req);
+      return;
+    }
+
+    const hostRange = calculateHostRange(nextInt, cidr);
+    allocations.push({
+      name: req.name,
+      requiredHosts: req.hosts,
+      networkAddress: intToIp(nextInt),
+      broadcastAddress: intToIp(nextInt + size - 1),
+      firstHost: intToIp(hostRange.firstHostInt),
+      lastHost: intToIp(hostRange.lastHostInt),
+      cidr,
+      usableHosts: hostRange.usableHosts
+    });
+    nextInt += size;
+  });
+
+  return {
+    allocations,
+    freeBlocks: nextInt <= broadcastInt ? rangeToCidrs(nextInt, broadcastInt) : [],
+    unallocated,
+    requiredAddresses,
+    availableAddresses: parent.totalHosts,
+    error: unallocated.length > 0 ? 'doesNotFit' : undefined
+  };
+};